@@ -102,6 +102,7 @@ export default class AudioConverter extends MediaConverter {
     return {
       title: null,
       textContent: mdContent.trim(),
+      metadata: this._toDocumentMetadata(metadata),
     };
   }
 
@@ -0,0 +1,228 @@
+import fs from "fs";
+import iconv from "iconv-lite";
+import DocumentConverter from "../converters/document";
+import type {
+  DocumentConverterResult,
+  ConversionOptions,
+} from "../types/document";
+import type { DocumentNode } from "../types/documentModel";
+import { detectTextEncoding } from "../utils/detection";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import { gridRowLimit, spreadsheetTableBlocks } from "../utils/spreadsheet";
+
+/**
+ * Delimiters tried when sniffing the format of a delimited text file, most common first.
+ */
+const DELIMITERS = [",", ";", "\t", "|"];
+
+/**
+ * Number of characters used to sniff the delimiter and quote character.
+ */
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Matches numbers, including thousands separators, decimals, exponents and percentages.
+ */
+const NUMBER_PATTERN = /^[-+]?(\d+([.,]\d+)*|[.,]\d+)([eE][-+]?\d+)?%?$/;
+
+/**
+ * Converts delimited text files (CSV/TSV) to a Markdown table.
+ * The encoding, delimiter and quote character are detected from the content.
+ *
+ * @extends DocumentConverter
+ *
+ * @example
+ * ```typescript
+ * const csvConverter = new CsvConverter();
+ * let result = await csvConverter.convert('data.csv', {
+ *   fileExtension: '.csv',
+ *   maxRows: 100
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('data.csv');
+ * ```
+ */
+export default class CsvConverter extends DocumentConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts a CSV or TSV file to a Markdown table.
+   *
+   * @param {string} localPath - Path to the delimited text file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @param {"auto" | "first" | "none"} [options.headerRow] - Whether the first row is the table header,
+   *   "auto" (default) uses it if most of its cells hold text
+   * @param {number} [options.maxRows] - Maximum number of table rows, the rest is summarized
+   * @returns {Promise<DocumentConverterResult>} The table as Markdown, or null if the file is not a CSV or TSV file
+   */
+  async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = (options.fileExtension || "").toLowerCase();
+    if (![".csv", ".tsv", ".tab"].includes(extension)) {
+      return null;
+    }
+
+    const buffer = await fs.promises.readFile(localPath);
+    const encoding = detectTextEncoding(buffer);
+    // iconv-lite strips the byte order mark
+    const text = iconv.decode(buffer, encoding);
+
+    const { delimiter, quote } = this._detectDialect(
+      text,
+      extension === ".csv" ? "," : "\t"
+    );
+    const rows = this._parseRows(text, delimiter, quote);
+    // Only the rows shown in the table are built into cells, the others are counted
+    const filledRows = rows.filter((row) => row.some((cell) => cell.trim()));
+    const shownRows = filledRows.slice(0, gridRowLimit(options));
+    const omittedRows = filledRows.length - shownRows.length;
+    let columnCount = 0;
+    for (const row of shownRows) columnCount = Math.max(columnCount, row.length);
+    const grid = shownRows.map((row) =>
+      Array.from({ length: columnCount }, (_, i) => {
+        const cell = (row[i] ?? "").trim();
+        return { text: cell, isText: !!cell && !NUMBER_PATTERN.test(cell) };
+      })
+    );
+
+    const document: DocumentNode = {
+      type: "document",
+      title: null,
+      children: spreadsheetTableBlocks(grid, options, omittedRows),
+    };
+
+    return {
+      title: null,
+      textContent: renderMarkdown(document),
+      document,
+      metadata: {
+        extra: { encoding, delimiter, rowCount: rows.length },
+      },
+    };
+  }
+
+  /**
+   * Detects the delimiter and quote character of delimited text. The delimiter which
+   * splits the most lines into the same number of fields wins.
+   *
+   * @param {string} text - The delimited text
+   * @param {string} defaultDelimiter - Delimiter used if none splits the lines
+   * @returns {{ delimiter: string; quote: string }} The detected dialect
+   * @private
+   */
+  private _detectDialect(
+    text: string,
+    defaultDelimiter: string
+  ): { delimiter: string; quote: string } {
+    let sample = text.slice(0, SAMPLE_SIZE);
+    // Drop the last line if the sample cut it off
+    if (text.length > SAMPLE_SIZE)
+      sample = sample.slice(0, sample.lastIndexOf("\n") + 1);
+
+    let best = { delimiter: defaultDelimiter, quote: '"', score: 0 };
+    for (const delimiter of [
+      defaultDelimiter,
+      ...DELIMITERS.filter((candidate) => candidate !== defaultDelimiter),
+    ]) {
+      const quote = this._detectQuote(sample, delimiter);
+      const counts = this._parseRows(sample, delimiter, quote).map(
+        (row) => row.length
+      );
+      if (!counts.length) continue;
+
+      // Most common field count and the share of rows which have it
+      const frequencies = new Map<number, number>();
+      counts.forEach((count) =>
+        frequencies.set(count, (frequencies.get(count) || 0) + 1)
+      );
+      const [fieldCount, rowCount] = [...frequencies].sort(
+        (a, b) => b[1] - a[1] || b[0] - a[0]
+      )[0]!;
+      if (fieldCount < 2) continue;
+
+      const score = rowCount / counts.length + fieldCount / 1000;
+      if (score > best.score) best = { delimiter, quote, score };
+    }
+    return { delimiter: best.delimiter, quote: best.quote };
+  }
+
+  /**
+   * Detects whether fields are quoted with double or single quotes,
+   * by counting the quotes which open a field.
+   *
+   * @param {string} sample - Leading text of the file
+   * @param {string} delimiter - The delimiter
+   * @returns {string} The quote character
+   * @private
+   */
+  private _detectQuote(sample: string, delimiter: string): string {
+    const escaped = delimiter.replace(/[|]/, "\\|");
+    const count = (quote: string) =>
+      sample.match(new RegExp(`(^|${escaped})${quote}`, "gm"))?.length || 0;
+    return count("'") > count('"') ? "'" : '"';
+  }
+
+  /**
+   * Parses delimited text into rows of fields. Quoted fields may contain delimiters,
+   * line breaks and doubled quotes.
+   *
+   * @param {string} text - The delimited text
+   * @param {string} delimiter - The delimiter
+   * @param {string} quote - The quote character
+   * @returns {string[][]} The rows, without blank lines
+   * @private
+   */
+  private _parseRows(
+    text: string,
+    delimiter: string,
+    quote: string
+  ): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    let fieldStart = true;
+
+    const endRow = () => {
+      row.push(field);
+      if (row.length > 1 || row[0]!.trim()) rows.push(row);
+      row = [];
+      field = "";
+      fieldStart = true;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+      if (quoted) {
+        if (char !== quote) field += char;
+        else if (text[i + 1] === quote) {
+          field += quote;
+          i++;
+        } else quoted = false;
+      } else if (char === quote && fieldStart) {
+        quoted = true;
+        fieldStart = false;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = "";
+        fieldStart = true;
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        endRow();
+      } else {
+        field += char;
+        // Leading spaces before an opening quote are allowed, e.g. `a, "b"`
+        if (char !== " ") fieldStart = false;
+      }
+    }
+    if (field || row.length) endRow();
+    return rows;
+  }
+}
@@ -1,14 +1,44 @@
 import TurndownService from "turndown";
+import { pathToFileURL } from "url";
+import { renderMarkdownTable } from "../utils/markdownRenderer";
+import { codeLanguage } from "../utils/htmlDocument";
+import { mathMlToTex } from "../utils/mathml";
+import {
+  isComplexTable,
+  isLayoutTable,
+  tableGrid,
+  tableHtml,
+  tableText,
+  type TableGrid,
+} from "../utils/htmlTable";
 
-interface TurndownOptions extends TurndownService.Options {
+export interface TurndownOptions extends TurndownService.Options {
   headingStyle?: "atx" | "setext";
   hr?: string;
   bulletListMarker?: "*" | "-" | "+";
   codeBlockStyle?: "fenced" | "indented";
   emDelimiter?: "_" | "*";
   keepInlineImages?: string[];
+  // Keep every image, not only those inside a `keepInlineImages` element
+  keepImages?: boolean;
+  // Keep data URIs of images instead of truncating them
+  keepDataUris?: boolean;
+  // Tables with merged cells or nested tables: "markdown" (default) expands them into
+  // a Markdown table, "html" keeps them as HTML
+  complexTables?: "markdown" | "html";
+  // URL relative links and image sources are resolved against, e.g. the URL of the page
+  baseUrl?: string;
+  // Resolved links and image sources on the same origin are rewritten relative to this URL
+  // or local path, the location of the Markdown (a directory if it ends with a slash)
+  relativeTo?: string;
 }
 
+// A table converted to a Markdown table, see CustomMarkdownConverter.convertTable.
+export type MarkdownTable = TableGrid & {
+  // Inline Markdown of the `<caption>`, empty if the table has none
+  caption: string;
+};
+
 /**
  * Custom Markdown converter with customized rules.
  *
@@ -36,6 +66,11 @@ interface TurndownOptions extends TurndownService.Options {
  */
 export default class CustomMarkdownConverter {
   private turndownService: TurndownService;
+  // Markdown of the table cells, table captions and figure captions converted by their rules,
+  // read by the table and figure rules so their content is converted only once
+  private convertedContent = new WeakMap<object, string>();
+  // The last top-level table written as a Markdown table, see convertTable
+  private lastTable: MarkdownTable | null = null;
 
   /**
    * Initializes the Markdown converter with customized rules.
@@ -49,6 +84,9 @@ export default class CustomMarkdownConverter {
      * - Removing javascript hyperlinks
      * - Truncating images with large data:uri sources
      * - Ensuring URIs are properly escaped and don't conflict with Markdown syntax
+     * - Writing tables as GitHub Flavored Markdown tables
+     * - Keeping code languages, definition lists, figure captions, details, superscripts,
+     *   subscripts and math
      */
     const defaultOptions: TurndownOptions = {
       headingStyle: "atx",
@@ -88,16 +126,8 @@ export default class CustomMarkdownConverter {
         const title = element.getAttribute("title");
 
         if (href) {
-          try {
-            const url = new URL(href);
-            if (!["http:", "https:", "file:"].includes(url.protocol)) {
-              return content;
-            }
-            url.pathname = encodeURI(decodeURI(url.pathname));
-            href = url.toString();
-          } catch (error) {
-            return content;
-          }
+          href = this.resolveUrl(href);
+          if (href === null) return content;
         }
 
         if (content.replace(/\\_/g, "_") === href && !title) {
@@ -116,29 +146,301 @@ export default class CustomMarkdownConverter {
       filter: "img",
       replacement: (content: string, node: Node): string => {
         const element = node as HTMLElement;
-        const alt = element.getAttribute("alt") || "";
+        let alt = element.getAttribute("alt") || "";
         let src = element.getAttribute("src") || "";
         const title = element.getAttribute("title") || "";
         const titlePart = title ? ` "${title.replace(/"/g, '\\"')}"` : "";
+        // Images of figures without alt text are described by the caption
+        const caption = element.closest("figure")?.querySelector("figcaption");
+        if (!alt && caption) alt = (caption.textContent || "").replace(/\s+/g, " ").trim();
 
-        const keepInlineImages = (
-          this.turndownService.options as TurndownOptions
-        ).keepInlineImages;
-        if (
-          node.parentNode &&
-          (!keepInlineImages ||
-            !keepInlineImages.includes(node.parentNode.nodeName.toLowerCase()))
-        ) {
+        if (node.parentNode && !this.keepsImage(node.parentNode.nodeName.toLowerCase())) {
           return alt;
         }
 
         if (src.startsWith("data:")) {
-          src = src.split(",")[0] + "...";
+          if (!this.options.keepDataUris) src = src.split(",")[0] + "...";
+        } else if (src) {
+          src = this.resolveUrl(src) ?? "";
         }
 
         return `![${alt}](${src}${titlePart})`;
       },
     });
+
+    /**
+     * Custom rule for converting footnote references (`role="doc-noteref"`) to Markdown
+     * footnote references, labelled with their text without brackets.
+     */
+    this.turndownService.addRule("noteReference", {
+      filter: (node: HTMLElement): boolean =>
+        node.getAttribute("role") === "doc-noteref",
+      replacement: (content: string, node: Node): string => {
+        const label = (node.textContent || "").replace(/[[\]\s^]/g, "");
+        return label ? `[^${label}]` : "";
+      },
+    });
+
+    /**
+     * Custom rule for recording the Markdown of table cells and captions, which the table
+     * rule lays out. Their content is kept for layout tables.
+     */
+    this.turndownService.addRule("tableCell", {
+      filter: ["td", "th", "caption"],
+      replacement: (content: string, node: Node): string => {
+        this.convertedContent.set(node, content.trim());
+        return `\n\n${content}\n\n`;
+      },
+    });
+
+    /**
+     * Custom rule for converting tables to GitHub Flavored Markdown tables. Merged cells are
+     * repeated in every column and row they span, tables nested in a cell are flattened
+     * into text. Layout tables, like those of HTML emails, are left to the content rules.
+     */
+    this.turndownService.addRule("table", {
+      filter: "table",
+      replacement: (content: string, node: Node): string => {
+        const table = node as HTMLElement;
+        const outerTable = (table.parentNode as HTMLElement | null)?.closest?.("table");
+        if (outerTable && !isLayoutTable(outerTable))
+          return ` ${this.turndownService.escape(tableText(table))} `;
+        if (isLayoutTable(table)) return `\n\n${content}\n\n`;
+
+        if (this.options.complexTables === "html" && isComplexTable(table))
+          return `\n\n${tableHtml(table.outerHTML)}\n\n`;
+
+        const caption = Array.from(table.children).find(
+          (child) => child.nodeName === "CAPTION"
+        );
+        const grid = tableGrid(table, (cell) => this.convertedContent.get(cell) ?? "");
+        this.lastTable = {
+          caption: (caption && this.convertedContent.get(caption)) || "",
+          ...grid,
+        };
+        const markdown = renderMarkdownTable(grid.header, grid.rows);
+        return `\n\n${[this.lastTable.caption, markdown].filter((part) => part).join("\n\n")}\n\n`;
+      },
+    });
+
+    /**
+     * Custom rule for converting code blocks (`<pre>`) to fenced code blocks, with the
+     * language from the class names of the code, the `<pre>` or its container.
+     */
+    this.turndownService.addRule("fencedCodeBlock", {
+      filter: (node: HTMLElement): boolean =>
+        node.nodeName === "PRE" && this.options.codeBlockStyle === "fenced",
+      replacement: (content: string, node: Node): string => {
+        const element = node as HTMLElement;
+        const code = element.querySelector("code");
+        const language =
+          [code, element, element.parentNode as HTMLElement | null]
+            .map((candidate) => codeLanguage(candidate?.getAttribute?.("class") || ""))
+            .find((language) => language) || "";
+        const text = (code || element).textContent || "";
+        // The fence is longer than any run of backticks in the code
+        const longestRun = (text.match(/`+/g) || []).reduce(
+          (longest, run) => Math.max(longest, run.length),
+          0
+        );
+        const fence = "`".repeat(Math.max(3, longestRun + 1));
+        return `\n\n${fence}${language}\n${text.replace(/\n$/, "")}\n${fence}\n\n`;
+      },
+    });
+
+    /**
+     * Custom rules for converting definition lists (`<dl>`): terms are written in bold,
+     * each definition on a line of its own starting with a colon.
+     */
+    this.turndownService.addRule("definitionList", {
+      filter: "dl",
+      replacement: (content: string): string => `\n\n${content.trim()}\n\n`,
+    });
+    this.turndownService.addRule("definitionTerm", {
+      filter: "dt",
+      replacement: (content: string): string =>
+        content.trim() ? `\n\n**${content.trim()}**\n` : "",
+    });
+    this.turndownService.addRule("definitionDescription", {
+      filter: "dd",
+      replacement: (content: string): string =>
+        content.trim()
+          ? `: ${content.trim().replace(/\n+/g, (breaks) => `${breaks}    `)}\n`
+          : "",
+    });
+
+    /**
+     * Custom rules for converting figures: the caption follows the content in italics.
+     */
+    this.turndownService.addRule("figure", {
+      filter: "figure",
+      replacement: (content: string, node: Node): string => {
+        const figcaption = (node as HTMLElement).querySelector("figcaption");
+        const caption = (figcaption && this.convertedContent.get(figcaption)) || "";
+        const parts = [
+          this.isCaptionText(content.trim(), figcaption?.textContent || "") ? "" : content.trim(),
+          this.emphasize(caption),
+        ];
+        return `\n\n${parts.filter((part) => part).join("\n\n")}\n\n`;
+      },
+    });
+    this.turndownService.addRule("figureCaption", {
+      filter: "figcaption",
+      replacement: (content: string, node: Node): string => {
+        this.convertedContent.set(node, content.trim());
+        return "";
+      },
+    });
+
+    /**
+     * Custom rules for converting disclosure widgets (`<details>`): the summary becomes a
+     * bold paragraph above the content, which is always shown.
+     */
+    this.turndownService.addRule("details", {
+      filter: "details",
+      replacement: (content: string): string => `\n\n${content.trim()}\n\n`,
+    });
+    this.turndownService.addRule("summary", {
+      filter: "summary",
+      replacement: (content: string): string =>
+        content.trim() ? `\n\n**${content.trim()}**\n\n` : "",
+    });
+
+    /**
+     * Custom rule for keeping superscripts and subscripts, which Markdown has no syntax
+     * for, as inline HTML. Footnote references keep their Markdown syntax.
+     */
+    this.turndownService.addRule("superscriptSubscript", {
+      filter: ["sup", "sub"],
+      replacement: (content: string, node: Node): string => {
+        if (!content.trim() || /^\[\^[^\]]+\]$/.test(content.trim())) return content;
+        const tagName = node.nodeName.toLowerCase();
+        return `<${tagName}>${content}</${tagName}>`;
+      },
+    });
+
+    /**
+     * Custom rule for converting math, MathML and the output of KaTeX and MathJax, to
+     * LaTeX between `$` (inline) or `$$` (display) delimiters.
+     */
+    this.turndownService.addRule("math", {
+      filter: (node: HTMLElement): boolean => {
+        const nodeName = node.nodeName.toLowerCase();
+        return (
+          nodeName === "math" ||
+          nodeName === "mjx-container" ||
+          !!node.classList?.contains("katex") ||
+          !!node.classList?.contains("katex-display")
+        );
+      },
+      replacement: (content: string, node: Node): string => {
+        const element = node as HTMLElement;
+        const math =
+          element.nodeName.toLowerCase() === "math"
+            ? element
+            : Array.from(element.getElementsByTagName("math"))[0];
+        if (!math) return content;
+        const tex = mathMlToTex(math);
+        if (!tex) return "";
+        const display =
+          element.classList?.contains("katex-display") ||
+          element.getAttribute("display") === "true" ||
+          math.getAttribute("display") === "block" ||
+          math.getAttribute("mode") === "display";
+        return display ? `\n\n$$\n${tex}\n$$\n\n` : `$${tex}$`;
+      },
+    });
+  }
+
+  /**
+   * The Turndown options of the converter.
+   */
+  get options(): TurndownOptions {
+    return this.turndownService.options as TurndownOptions;
+  }
+
+  /**
+   * Checks whether images are written as Markdown images rather than their alt text:
+   * with the `keepImages` option or inside the elements of `keepInlineImages`.
+   * @param {string} parentName - Lowercased tag name of the parent of the image
+   * @returns {boolean} True if the image is kept
+   */
+  keepsImage(parentName: string): boolean {
+    const { keepImages, keepInlineImages } = this.options;
+    return !!keepImages || !!keepInlineImages?.includes(parentName);
+  }
+
+  /**
+   * Writes inline Markdown in italics, like figure captions.
+   * @param {string} markdown - The inline Markdown
+   * @returns {string} The emphasized Markdown, or an empty string if there is none
+   */
+  emphasize(markdown: string): string {
+    const em = this.options.emDelimiter;
+    return markdown ? `${em}${markdown}${em}` : "";
+  }
+
+  /**
+   * Checks whether the content of a figure is only the caption text, which happens when
+   * its image is written as alt text taken from the caption. The figure then only shows the caption.
+   * @param {string} content - The Markdown of the figure content, without the caption
+   * @param {string} captionText - The text of the `<figcaption>`
+   * @returns {boolean} True if the content repeats the caption
+   */
+  isCaptionText(content: string, captionText: string): boolean {
+    return !!content && content === captionText.replace(/\s+/g, " ").trim();
+  }
+
+  /**
+   * Converts an HTML table to a Markdown table with the table rule, converting each cell once.
+   * @param {string} html - The HTML of the `<table>` element
+   * @returns {MarkdownTable | null} The caption and cells, or null for layout tables and
+   *   complex tables kept as HTML
+   */
+  convertTable(html: string): MarkdownTable | null {
+    this.lastTable = null;
+    this.convert(html);
+    return this.lastTable;
+  }
+
+  /**
+   * Resolves a link or image source against the `baseUrl` option and rewrites it relative
+   * to the `relativeTo` option. Without a base URL relative references are kept as they are.
+   * Fragment links point to a heading anchor of the converted document itself and are kept too.
+   * @param {string} href - The link or image source
+   * @returns {string | null} The URL, or null if it is not an http, https or file URL
+   */
+  resolveUrl(href: string): string | null {
+    if (href.startsWith("#")) return href;
+    const { baseUrl, relativeTo } = this.options;
+    let url: URL;
+    try {
+      url = new URL(href, baseUrl);
+    } catch (error) {
+      // A relative reference without base URL, unless it has a scheme
+      if (/^[a-z][a-z\d+.-]*:/i.test(href)) return null;
+      try {
+        return encodeURI(decodeURI(href));
+      } catch (error) {
+        return href;
+      }
+    }
+    if (!["http:", "https:", "file:"].includes(url.protocol)) return null;
+    try {
+      url.pathname = encodeURI(decodeURI(url.pathname));
+    } catch (error) {
+      return null;
+    }
+    if (!relativeTo) return url.toString();
+
+    let target: URL;
+    try {
+      target = new URL(relativeTo);
+    } catch (error) {
+      // pathToFileURL keeps the trailing slash of directories
+      target = new URL(pathToFileURL(relativeTo).href);
+    }
+    return _relativeUrl(url, target);
   }
 
   /**
@@ -159,3 +461,30 @@ export default class CustomMarkdownConverter {
     this.turndownService.addRule(rule, rules);
   }
 }
+
+/**
+ * Writes a URL relative to another one, like a link from a page at `from`. URLs on
+ * another origin stay absolute.
+ * @param {URL} url - The URL to write
+ * @param {URL} from - The URL it is written relative to, a directory if it ends with a slash
+ * @returns {string} The relative URL
+ * @private
+ */
+function _relativeUrl(url: URL, from: URL): string {
+  if (url.protocol !== from.protocol || url.host !== from.host) return url.toString();
+  const fromDirectory = from.pathname.split("/").slice(0, -1);
+  const path = url.pathname.split("/");
+  let common = 0;
+  while (
+    common < fromDirectory.length &&
+    common < path.length - 1 &&
+    fromDirectory[common] === path[common]
+  ) {
+    common++;
+  }
+  const relativePath = [
+    ...Array(fromDirectory.length - common).fill(".."),
+    ...path.slice(common),
+  ].join("/");
+  return (relativePath || "./") + url.search + url.hash;
+}
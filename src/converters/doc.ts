@@ -0,0 +1,647 @@
+import fs from "fs";
+import iconv from "iconv-lite";
+import XLSX from "xlsx";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+} from "../types/document";
+import type {
+  BlockNode,
+  DocumentNode,
+  ListItemNode,
+  ListNode,
+} from "../types/documentModel";
+import DocumentConverter from "./document";
+import { renderMarkdown } from "../utils/markdownRenderer";
+
+/**
+ * Indexes of the offset/size pairs in the FibRgFcLcb of the File Information Block, see [MS-DOC] 2.5.6.
+ */
+const FIB_ENTRIES = {
+  STSHF: 1,
+  PLCF_BTE_PAPX: 13,
+  CLX: 33,
+  PLF_LST: 73,
+  PLF_LFO: 74,
+};
+
+/**
+ * Paragraph property modifiers (sprms) used to find tables and lists, see [MS-DOC] 2.6.2.
+ */
+const SPRMS = {
+  P_ILVL: 0x260a,
+  P_ILFO: 0x460b,
+  P_F_IN_TABLE: 0x2416,
+  P_F_TTP: 0x2417,
+  P_ITAP: 0x6649,
+  P_F_INNER_TTP: 0x244c,
+  T_DEF_TABLE: 0xd608,
+};
+
+/**
+ * Characters of the document text with a special meaning, see [MS-DOC] 2.8.25.
+ */
+const CHARACTERS = {
+  PARAGRAPH_END: "\r",
+  CELL_END: "\x07",
+  LINE_BREAK: "\x0b",
+  PAGE_BREAK: "\x0c",
+  COLUMN_BREAK: "\x0e",
+  FIELD_BEGIN: "\x13",
+  FIELD_SEPARATOR: "\x14",
+  FIELD_END: "\x15",
+};
+
+/**
+ * Number format of list levels which draws a bullet instead of a number.
+ */
+const BULLET_NUMBER_FORMAT = 0x17;
+
+// A piece of the document text, stored either as UTF-16 or as 8-bit text.
+type DocPiece = {
+  cpStart: number;
+  cpEnd: number;
+  // Offset of the piece text in the WordDocument stream
+  fc: number;
+  compressed: boolean;
+};
+
+// Properties of the paragraphs in a range of the WordDocument stream.
+type DocParagraphRun = {
+  fcStart: number;
+  fcEnd: number;
+  properties: DocParagraphProperties;
+};
+
+type DocParagraphProperties = {
+  // Index of the paragraph style in the style sheet
+  istd: number;
+  inTable: boolean;
+  // Whether the paragraph is the end of a table row
+  rowEnd: boolean;
+  // 1-based index of the list format, 0 if the paragraph is no list item
+  listFormat: number;
+  listLevel: number;
+};
+
+// A paragraph of the document text with its properties.
+type DocParagraph = DocParagraphProperties & {
+  text: string;
+  // Whether the paragraph ends a table cell
+  cellEnd: boolean;
+};
+
+/**
+ * Converts legacy Word documents (.doc, Word 97-2003) to Markdown format.
+ * Reads the text from the piece table of the OLE2 compound file and uses the paragraph
+ * properties for headings (heading styles), lists and tables. Field codes are dropped,
+ * their results kept.
+ *
+ * @extends DocumentConverter
+ *
+ * @example
+ * ```typescript
+ * const docConverter = new DocConverter();
+ * let result = await docConverter.convert('report.doc', {
+ *   fileExtension: '.doc'
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('report.doc');
+ * ```
+ */
+export default class DocConverter extends DocumentConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts a DOC file to Markdown format.
+   *
+   * @param {string} localPath - Path to the DOC file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @returns {Promise<DocumentConverterResult>} The converted document, or null if the file is not a readable DOC file
+   */
+  async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = options.fileExtension || "";
+    if (extension.toLowerCase() !== ".doc") {
+      return null;
+    }
+
+    try {
+      const container = XLSX.CFB.read(fs.readFileSync(localPath), {
+        type: "buffer",
+      });
+      const wordStream = XLSX.CFB.find(container, "WordDocument");
+      if (!wordStream?.content) return null;
+      const word = Buffer.from(wordStream.content as Uint8Array);
+      if (word.readUInt16LE(0) !== 0xa5ec) return null;
+
+      const flags = word.readUInt16LE(0x0a);
+      if (flags & 0x0100) {
+        console.warn("Encrypted DOC files are not supported.");
+        return null;
+      }
+      const tableStream = XLSX.CFB.find(
+        container,
+        flags & 0x0200 ? "1Table" : "0Table"
+      );
+      if (!tableStream?.content) return null;
+      const table = Buffer.from(tableStream.content as Uint8Array);
+
+      const { ccpText, entries } = this._readFib(word);
+      const entry = (index: number) => entries[index] ?? { fc: 0, lcb: 0 };
+      const pieces = this._readPieces(table, entry(FIB_ENTRIES.CLX));
+      const paragraphs = this._readParagraphs(
+        word,
+        pieces,
+        ccpText,
+        this._readParagraphRuns(word, table, entry(FIB_ENTRIES.PLCF_BTE_PAPX))
+      );
+      const styles = this._readStyleNames(table, entry(FIB_ENTRIES.STSHF));
+      const orderedLists = this._readListFormats(
+        table,
+        entry(FIB_ENTRIES.PLF_LST),
+        entry(FIB_ENTRIES.PLF_LFO)
+      );
+
+      const document: DocumentNode = {
+        type: "document",
+        title: null,
+        children: this._paragraphBlocks(paragraphs, styles, orderedLists),
+      };
+      return {
+        title: null,
+        textContent: renderMarkdown(document).trim(),
+        document,
+      };
+    } catch (error) {
+      console.error("Error parsing DOC:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Groups the paragraphs into headings, paragraphs, lists and tables.
+   * @param {DocParagraph[]} paragraphs - The paragraphs of the main document text
+   * @param {Map<number, { sti: number; name: string }>} styles - The paragraph styles by index
+   * @param {Map<number, boolean[]>} orderedLists - Whether each level of a list format is numbered
+   * @returns {BlockNode[]} The blocks
+   * @private
+   */
+  private _paragraphBlocks(
+    paragraphs: DocParagraph[],
+    styles: Map<number, { sti: number; name: string }>,
+    orderedLists: Map<number, boolean[]>
+  ): BlockNode[] {
+    const blocks: BlockNode[] = [];
+    let rows: string[][] = [];
+    let row: string[] = [];
+    let cell: string[] = [];
+    let listItems: DocParagraph[] = [];
+
+    const flushTable = () => {
+      // A row without its end mark, e.g. when the paragraph properties are missing
+      if (cell.length) row.push(cell.join("\n"));
+      if (row.length) rows.push(row);
+      if (rows.length) {
+        const columnCount = rows.reduce((count, cells) => Math.max(count, cells.length), 0);
+        const padded = rows.map((cells) =>
+          Array.from({ length: columnCount }, (_, i) => cells[i] ?? "")
+        );
+        blocks.push({
+          type: "table",
+          header: padded[0]!,
+          rows: padded.slice(1),
+        });
+      }
+      rows = [];
+      row = [];
+      cell = [];
+    };
+    const flushList = () => {
+      if (listItems.length) blocks.push(this._listNode(listItems, orderedLists));
+      listItems = [];
+    };
+
+    for (const paragraph of paragraphs) {
+      if (paragraph.inTable) {
+        flushList();
+        if (paragraph.rowEnd) {
+          rows.push(row);
+          row = [];
+          cell = [];
+          continue;
+        }
+        if (paragraph.text) cell.push(paragraph.text);
+        if (paragraph.cellEnd) {
+          row.push(cell.join("\n"));
+          cell = [];
+        }
+        continue;
+      }
+      flushTable();
+
+      if (paragraph.listFormat && paragraph.text) {
+        listItems.push(paragraph);
+        continue;
+      }
+      flushList();
+      if (!paragraph.text) continue;
+
+      const style = styles.get(paragraph.istd);
+      const level = style ? this._headingLevel(style) : 0;
+      blocks.push(
+        level
+          ? {
+              type: "heading",
+              level: Math.min(level, 6) as 1 | 2 | 3 | 4 | 5 | 6,
+              text: paragraph.text.replace(/\s+/g, " "),
+            }
+          : { type: "paragraph", text: paragraph.text }
+      );
+    }
+    flushTable();
+    flushList();
+    return blocks;
+  }
+
+  /**
+   * Gets the heading level of a paragraph style, from the built-in heading styles or the style name.
+   * @param {{ sti: number; name: string }} style - The style
+   * @returns {number} The heading level, 0 if the style is no heading style
+   * @private
+   */
+  private _headingLevel(style: { sti: number; name: string }): number {
+    // Built-in style ids 1 to 9 are "heading 1" to "heading 9"
+    if (style.sti >= 1 && style.sti <= 9) return style.sti;
+    if (/^title$/i.test(style.name)) return 1;
+    const match = style.name.match(/^heading\s*([1-9])$/i);
+    return match ? Number(match[1]) : 0;
+  }
+
+  /**
+   * Builds a list from list paragraphs, nesting the deeper levels.
+   * @param {DocParagraph[]} paragraphs - Consecutive list paragraphs
+   * @param {Map<number, boolean[]>} orderedLists - Whether each level of a list format is numbered
+   * @returns {ListNode} The list
+   * @private
+   */
+  private _listNode(
+    paragraphs: DocParagraph[],
+    orderedLists: Map<number, boolean[]>
+  ): ListNode {
+    const level = paragraphs.reduce(
+      (min, paragraph) => Math.min(min, paragraph.listLevel),
+      Infinity
+    );
+    const items: ListItemNode[] = [];
+    for (let i = 0; i < paragraphs.length; ) {
+      const paragraph = paragraphs[i]!;
+      let end = i + 1;
+      while (paragraphs[end] && paragraphs[end]!.listLevel > level) end++;
+      const nested = paragraphs.slice(i + 1, end);
+      // Deeper paragraphs before the first item of the level get an item of their own
+      const text = paragraph.listLevel === level ? paragraph.text : "";
+      const children =
+        paragraph.listLevel === level ? nested : paragraphs.slice(i, end);
+      items.push({
+        type: "listItem",
+        text,
+        ...(children.length
+          ? { children: [this._listNode(children, orderedLists)] }
+          : {}),
+      });
+      i = end;
+    }
+    const first = paragraphs[0]!;
+    return {
+      type: "list",
+      ordered: !!orderedLists.get(first.listFormat)?.[first.listLevel],
+      items,
+    };
+  }
+
+  /**
+   * Reads the main document text length and the offset/size pairs of the File Information Block.
+   * @param {Buffer} word - The WordDocument stream
+   * @returns {Object} The character count of the main text and the offset/size pairs
+   * @private
+   */
+  private _readFib(word: Buffer): {
+    ccpText: number;
+    entries: { fc: number; lcb: number }[];
+  } {
+    // FibBase (32 bytes), then the 16-bit, 32-bit and offset/size arrays, each after its count
+    const csw = word.readUInt16LE(32);
+    const longsStart = 34 + csw * 2;
+    const cslw = word.readUInt16LE(longsStart);
+    const ccpText = word.readInt32LE(longsStart + 2 + 3 * 4);
+    const pairsStart = longsStart + 2 + cslw * 4;
+    const count = word.readUInt16LE(pairsStart);
+
+    const entries = Array.from({ length: count }, (_, i) => ({
+      fc: word.readUInt32LE(pairsStart + 2 + i * 8),
+      lcb: word.readUInt32LE(pairsStart + 2 + i * 8 + 4),
+    }));
+    return { ccpText, entries };
+  }
+
+  /**
+   * Reads the piece table from the CLX, which maps the character positions of the text to
+   * offsets in the WordDocument stream.
+   * @param {Buffer} table - The table stream
+   * @param {{ fc: number; lcb: number }} clx - Offset and size of the CLX
+   * @returns {DocPiece[]} The pieces in text order
+   * @throws {Error} If the CLX has no piece table
+   * @private
+   */
+  private _readPieces(table: Buffer, clx: { fc: number; lcb: number }): DocPiece[] {
+    let position = clx.fc;
+    const end = clx.fc + clx.lcb;
+    // Property modifiers of the pieces come first
+    while (position < end && table[position] === 0x01) {
+      position += 3 + table.readInt16LE(position + 1);
+    }
+    if (table[position] !== 0x02) throw new Error("Invalid DOC piece table");
+
+    const size = table.readUInt32LE(position + 1);
+    const start = position + 5;
+    const count = Math.floor((size - 4) / 12);
+    const pieces: DocPiece[] = [];
+    for (let i = 0; i < count; i++) {
+      const fc = table.readUInt32LE(start + (count + 1) * 4 + i * 8 + 2);
+      const compressed = !!(fc & 0x40000000);
+      pieces.push({
+        cpStart: table.readUInt32LE(start + i * 4),
+        cpEnd: table.readUInt32LE(start + (i + 1) * 4),
+        fc: compressed ? (fc & 0x3fffffff) / 2 : fc,
+        compressed,
+      });
+    }
+    return pieces;
+  }
+
+  /**
+   * Reads the paragraph properties from the formatted disk pages of the document.
+   * @param {Buffer} word - The WordDocument stream
+   * @param {Buffer} table - The table stream
+   * @param {{ fc: number; lcb: number }} plcf - Offset and size of the PlcBtePapx
+   * @returns {DocParagraphRun[]} The paragraph properties by stream range
+   * @private
+   */
+  private _readParagraphRuns(
+    word: Buffer,
+    table: Buffer,
+    plcf: { fc: number; lcb: number }
+  ): DocParagraphRun[] {
+    const runs: DocParagraphRun[] = [];
+    const pageCount = Math.floor((plcf.lcb - 4) / 8);
+    for (let i = 0; i < pageCount; i++) {
+      const pageNumber =
+        table.readUInt32LE(plcf.fc + (pageCount + 1) * 4 + i * 4) & 0x3fffff;
+      const page = word.subarray(pageNumber * 512, pageNumber * 512 + 512);
+      if (page.length < 512) continue;
+
+      const runCount = page[511]!;
+      for (let j = 0; j < runCount; j++) {
+        const properties: DocParagraphProperties = {
+          istd: 0,
+          inTable: false,
+          rowEnd: false,
+          listFormat: 0,
+          listLevel: 0,
+        };
+        const offset = page[(runCount + 1) * 4 + j * 13]! * 2;
+        if (offset) {
+          let size = page[offset]! * 2 - 1;
+          let start = offset + 1;
+          if (!page[offset]) {
+            size = page[offset + 1]! * 2;
+            start = offset + 2;
+          }
+          properties.istd = page.readUInt16LE(start);
+          this._applySprms(page.subarray(start + 2, start + size), properties);
+        }
+        runs.push({
+          fcStart: page.readUInt32LE(j * 4),
+          fcEnd: page.readUInt32LE((j + 1) * 4),
+          properties,
+        });
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Applies the paragraph property modifiers used for tables and lists.
+   * @param {Buffer} grpprl - The property modifiers
+   * @param {DocParagraphProperties} properties - The properties to update
+   * @private
+   */
+  private _applySprms(grpprl: Buffer, properties: DocParagraphProperties): void {
+    let position = 0;
+    while (position + 2 <= grpprl.length) {
+      const sprm = grpprl.readUInt16LE(position);
+      position += 2;
+      // The operand size depends on the sprm type in the top 3 bits
+      let size = [1, 1, 2, 4, 2, 2, 0, 3][sprm >> 13]!;
+      if (sprm === SPRMS.T_DEF_TABLE) {
+        size = grpprl.readUInt16LE(position) + 1;
+      } else if (!size) {
+        size = (grpprl[position] ?? 0) + 1;
+      }
+      if (position + size > grpprl.length) break;
+
+      switch (sprm) {
+        case SPRMS.P_F_IN_TABLE:
+          properties.inTable = !!grpprl[position];
+          break;
+        case SPRMS.P_ITAP:
+          properties.inTable ||= grpprl.readUInt32LE(position) > 0;
+          break;
+        case SPRMS.P_F_TTP:
+        case SPRMS.P_F_INNER_TTP:
+          properties.rowEnd = !!grpprl[position];
+          break;
+        case SPRMS.P_ILFO:
+          properties.listFormat = grpprl.readInt16LE(position);
+          break;
+        case SPRMS.P_ILVL:
+          properties.listLevel = grpprl[position]!;
+          break;
+      }
+      position += size;
+    }
+  }
+
+  /**
+   * Reads the main document text and splits it into paragraphs with their properties.
+   * Field codes and object anchors are dropped, field results are kept.
+   * @param {Buffer} word - The WordDocument stream
+   * @param {DocPiece[]} pieces - The piece table
+   * @param {number} ccpText - Number of characters of the main document text
+   * @param {DocParagraphRun[]} runs - The paragraph properties
+   * @returns {DocParagraph[]} The paragraphs
+   * @private
+   */
+  private _readParagraphs(
+    word: Buffer,
+    pieces: DocPiece[],
+    ccpText: number,
+    runs: DocParagraphRun[]
+  ): DocParagraph[] {
+    const paragraphs: DocParagraph[] = [];
+    // Whether each open field shows its result, i.e. passed its separator
+    const fields: boolean[] = [];
+    let text = "";
+
+    const endParagraph = (fc: number, cellEnd: boolean) => {
+      const run = runs.find((run) => fc >= run.fcStart && fc < run.fcEnd);
+      paragraphs.push({
+        istd: 0,
+        inTable: cellEnd,
+        rowEnd: false,
+        listFormat: 0,
+        listLevel: 0,
+        ...run?.properties,
+        text: text.replace(/[ \t]+/g, " ").replace(/ ?\n ?/g, "\n").trim(),
+        cellEnd,
+      });
+      text = "";
+    };
+
+    for (const piece of pieces) {
+      const cpEnd = Math.min(piece.cpEnd, ccpText);
+      const charSize = piece.compressed ? 1 : 2;
+      const bytes = word.subarray(
+        piece.fc,
+        piece.fc + Math.max(0, cpEnd - piece.cpStart) * charSize
+      );
+      const pieceText = piece.compressed
+        ? iconv.decode(bytes, "windows-1252")
+        : bytes.toString("utf16le");
+
+      for (let i = 0; i < pieceText.length; i++) {
+        const char = pieceText[i]!;
+        const fc = piece.fc + i * charSize;
+        if (char === CHARACTERS.FIELD_BEGIN) {
+          fields.push(false);
+        } else if (char === CHARACTERS.FIELD_SEPARATOR) {
+          if (fields.length) fields[fields.length - 1] = true;
+        } else if (char === CHARACTERS.FIELD_END) {
+          fields.pop();
+        } else if (fields.includes(false)) {
+          // Field code
+        } else if (char === CHARACTERS.PARAGRAPH_END) {
+          endParagraph(fc, false);
+        } else if (char === CHARACTERS.CELL_END) {
+          endParagraph(fc, true);
+        } else if (
+          char === CHARACTERS.PAGE_BREAK ||
+          char === CHARACTERS.COLUMN_BREAK
+        ) {
+          if (text.trim()) endParagraph(fc, false);
+        } else if (char === CHARACTERS.LINE_BREAK) {
+          text += "\n";
+        } else if (char === "\x1e") {
+          // Non-breaking hyphen
+          text += "-";
+        } else if (char === "\t" || char >= " ") {
+          text += char === "\xa0" ? " " : char;
+        }
+      }
+    }
+    if (text.trim()) endParagraph(-1, false);
+    return paragraphs;
+  }
+
+  /**
+   * Reads the built-in style ids and names of the style sheet.
+   * @param {Buffer} table - The table stream
+   * @param {{ fc: number; lcb: number }} stsh - Offset and size of the style sheet
+   * @returns {Map<number, { sti: number; name: string }>} The styles by index
+   * @private
+   */
+  private _readStyleNames(
+    table: Buffer,
+    stsh: { fc: number; lcb: number }
+  ): Map<number, { sti: number; name: string }> {
+    const styles = new Map<number, { sti: number; name: string }>();
+    if (!stsh.lcb) return styles;
+    const end = stsh.fc + stsh.lcb;
+    const headerSize = table.readUInt16LE(stsh.fc);
+    const styleCount = table.readUInt16LE(stsh.fc + 2);
+    const baseSize = table.readUInt16LE(stsh.fc + 4);
+
+    let position = stsh.fc + 2 + headerSize;
+    for (let istd = 0; istd < styleCount && position + 2 <= end; istd++) {
+      const size = table.readUInt16LE(position);
+      const start = position + 2;
+      position = start + size;
+      if (!size) continue;
+
+      const sti = table.readUInt16LE(start) & 0x0fff;
+      const nameLength = table.readUInt16LE(start + baseSize);
+      const name = table
+        .subarray(start + baseSize + 2, start + baseSize + 2 + nameLength * 2)
+        .toString("utf16le");
+      styles.set(istd, { sti, name });
+    }
+    return styles;
+  }
+
+  /**
+   * Reads which levels of the list formats are numbered rather than bulleted.
+   * @param {Buffer} table - The table stream
+   * @param {{ fc: number; lcb: number }} plfLst - Offset and size of the list definitions
+   * @param {{ fc: number; lcb: number }} plfLfo - Offset and size of the list formats
+   * @returns {Map<number, boolean[]>} Whether each level is numbered, by 1-based list format index
+   * @private
+   */
+  private _readListFormats(
+    table: Buffer,
+    plfLst: { fc: number; lcb: number },
+    plfLfo: { fc: number; lcb: number }
+  ): Map<number, boolean[]> {
+    const formats = new Map<number, boolean[]>();
+    if (!plfLst.lcb || !plfLfo.lcb) return formats;
+
+    // List definitions, their levels follow the definitions one after another
+    const listCount = table.readInt16LE(plfLst.fc);
+    const definitions: { id: number; levelCount: number }[] = [];
+    for (let i = 0; i < listCount; i++) {
+      const start = plfLst.fc + 2 + i * 28;
+      definitions.push({
+        id: table.readInt32LE(start),
+        levelCount: table[start + 26]! & 0x01 ? 1 : 9,
+      });
+    }
+
+    const orderedById = new Map<number, boolean[]>();
+    let position = plfLst.fc + plfLst.lcb;
+    for (const definition of definitions) {
+      const levels: boolean[] = [];
+      for (let level = 0; level < definition.levelCount; level++) {
+        const numberFormat = table[position + 4]!;
+        levels.push(numberFormat !== BULLET_NUMBER_FORMAT && numberFormat !== 0xff);
+        // LVLF (28 bytes), paragraph and character properties, then the number text
+        position += 28 + table[position + 25]! + table[position + 24]!;
+        position += 2 + table.readUInt16LE(position) * 2;
+      }
+      orderedById.set(definition.id, levels);
+    }
+
+    const formatCount = table.readInt32LE(plfLfo.fc);
+    for (let i = 0; i < formatCount; i++) {
+      const id = table.readInt32LE(plfLfo.fc + 4 + i * 16);
+      formats.set(i + 1, orderedById.get(id) ?? []);
+    }
+    return formats;
+  }
+}
@@ -1,15 +1,35 @@
 import fs from "fs";
+import path from "path";
+import mime from "mime-types";
 import mammoth from "mammoth";
+import XLSX from "xlsx";
+import { DOMParser, XMLSerializer } from "xmldom";
+import { parse, type HTMLElement } from "node-html-parser";
 import HtmlConverter from "./html";
 import type {
   ConversionOptions,
   DocumentConverterResult,
 } from "../types/document";
 import DocumentConverter from "./document";
+import { describeImage } from "../utils/imageDescription";
+
+// The ZIP container of a DOCX file, as read by SheetJS (its CFB types are not exported).
+type DocxPackage = {
+  FullPaths: string[];
+  FileIndex: { content?: Uint8Array; size: number }[];
+};
+
+// The root of the document Mammoth passes to `transformDocument`, with the parts read here.
+type MammothDocument = {
+  comments?: { commentId: string; authorName?: string }[];
+};
 
 /**
  * Converts DOCX files to Markdown format via HTML intermediate conversion.
  * Preserves document structure including headings, tables, and styling where possible.
+ * Footnotes, endnotes and comments can be rendered as Markdown footnotes, page headers and
+ * footers included and images extracted. Warnings of the conversion are returned in
+ * `metadata.extra.warnings`.
  *
  * @extends HtmlConverter
  *
@@ -48,12 +68,18 @@ export default class DocxConverter extends HtmlConverter {
    * @param {ConversionOptions} options - Conversion options
    * @param {string} [options.fileExtension] - File extension (must be .docx)
    * @param {Array<string>} [options.styleMap] - Custom style mappings for Mammoth.js conversion
+   * @param {boolean} [options.docxFootnotes] - Render footnotes and endnotes as Markdown footnotes
+   * @param {boolean} [options.docxComments] - Append reviewer comments as Markdown footnotes
+   * @param {string} [options.docxTrackedChanges] - "accepted" or "original" text of tracked changes
+   * @param {boolean} [options.docxHeadersFooters] - Include page headers and footers
+   * @param {string} [options.docxImages] - Keep images as "dataUri", in a "directory" or "describe" them
+   * @param {string} [options.complexTables] - Keep tables with merged or nested cells as "html"
    * @returns {Promise<DocumentConverterResult>} Conversion result or null if:
    *   - File is not a DOCX
    *   - File cannot be read
    *   - Conversion fails
    *
-   * @throws {Error} If file reading or conversion process fails
+   * @throws {Error} If `options.docxImages` is "directory" without `options.imageDirectory`
    * @override
    */
   override async convert(
@@ -65,21 +91,295 @@ export default class DocxConverter extends HtmlConverter {
     if (extension.toLowerCase() !== ".docx") {
       return null;
     }
+    if (options.docxImages === "directory" && !options.imageDirectory) {
+      throw new Error('docxImages "directory" requires the imageDirectory option');
+    }
 
     try {
       // Read the DOCX file as a binary buffer
-      const buffer = await fs.promises.readFile(localPath);
-      const styleMap = options.styleMap;
+      let buffer = await fs.promises.readFile(localPath);
+      const docx =
+        options.docxTrackedChanges === "original" || options.docxHeadersFooters
+          ? XLSX.CFB.read(buffer, { type: "buffer" })
+          : null;
+      if (docx && options.docxTrackedChanges === "original")
+        buffer = this._rejectTrackedChanges(docx);
+
+      const styleMap: string[] = Array.isArray(options.styleMap)
+        ? [...options.styleMap]
+        : options.styleMap
+          ? [options.styleMap]
+          : [];
+      // Mammoth ignores comment references unless they are mapped
+      if (options.docxComments) styleMap.push("comment-reference => sup");
+      const commentAuthors = new Map<string, string>();
 
       // Convert DOCX to HTML using Mammoth
-      const result = await mammoth.convertToHtml({ buffer }, { styleMap });
-      const htmlContent = result.value;
+      const result = await mammoth.convertToHtml(
+        { buffer },
+        {
+          styleMap,
+          convertImage: this._imageConverter(localPath, options),
+          transformDocument: (document: MammothDocument) => {
+            for (const comment of document.comments || [])
+              commentAuthors.set(comment.commentId, comment.authorName || "");
+            return document;
+          },
+        }
+      );
+      const root = parse(result.value);
+
+      const notes: string[] = [];
+      if (options.docxFootnotes) {
+        notes.push(
+          ...this._noteDefinitions(root, ["footnote", "endnote"], (label) => label)
+        );
+      }
+      if (options.docxComments) {
+        notes.push(
+          ...this._noteDefinitions(
+            root,
+            ["comment"],
+            (_, index) => `comment-${index + 1}`,
+            commentAuthors
+          )
+        );
+      }
+      let htmlContent = root.toString();
+      if (docx && options.docxHeadersFooters) {
+        const paragraphs = (kind: "header" | "footer", label: string) =>
+          this._headerFooterTexts(docx, kind)
+            .map((text) => `<p><strong>${label}:</strong> ${text}</p>`)
+            .join("");
+        htmlContent =
+          paragraphs("header", "Header") +
+          htmlContent +
+          paragraphs("footer", "Footer");
+      }
 
       // Convert HTML to Markdown using HtmlConverter
-      return this._convert(htmlContent);
+      const keepImages =
+        options.docxImages === "dataUri" || options.docxImages === "directory";
+      const converted = this._convert(htmlContent, {
+        keepImages,
+        keepDataUris: keepImages,
+        complexTables: options.complexTables,
+      });
+      if (!converted) return null;
+
+      if (notes.length) {
+        converted.textContent += `\n\n${notes.join("\n\n")}`;
+        converted.document?.children.push(
+          ...notes.map((note) => ({ type: "paragraph" as const, text: note }))
+        );
+      }
+      const warnings = result.messages.map((message) => message.message);
+      if (warnings.length) {
+        converted.metadata = {
+          ...converted.metadata,
+          extra: { ...converted.metadata?.extra, warnings },
+        };
+      }
+      return converted;
     } catch (error) {
       console.error("Error converting DOCX file:", error);
       return null;
     }
   }
+
+  /**
+   * Moves notes from the HTML written by Mammoth into Markdown footnote definitions.
+   * References (`<a id="footnote-ref-1">`) become `role="doc-noteref"` links which the
+   * Markdown converter writes as `[^label]`, the note lists at the end are removed.
+   * @param {HTMLElement} root - The parsed HTML
+   * @param {string[]} kinds - Kinds of notes, the prefixes of their ids: footnote, endnote or comment
+   * @param {Function} labelOf - Gets the label of a note from its reference text and position
+   * @param {Map<string, string>} [authors] - Authors of comments by id, written before their text
+   * @returns {string[]} The footnote definitions in reference order
+   * @private
+   */
+  private _noteDefinitions(
+    root: HTMLElement,
+    kinds: string[],
+    labelOf: (text: string, index: number) => string,
+    authors?: Map<string, string>
+  ): string[] {
+    const definitions: string[] = [];
+    const selector = kinds.map((kind) => `a[id^="${kind}-ref-"]`).join(", ");
+    const targets: HTMLElement[] = [];
+    root.querySelectorAll(selector).forEach((reference, index) => {
+      const id = (reference.getAttribute("href") || "").replace(/^#/, "");
+      const label = labelOf(reference.text.replace(/[[\]\s]/g, ""), index);
+      const target = root.querySelector(`[id="${id}"]`);
+      const replacement = parse(`<a role="doc-noteref">${label}</a>`);
+      const sup = reference.parentNode;
+      if (sup?.tagName === "SUP" && sup.childNodes.length === 1)
+        sup.replaceWith(replacement);
+      else reference.replaceWith(replacement);
+      if (!target) return;
+
+      // Comments are a <dt> with the label followed by a <dd> with the text
+      const body =
+        target.tagName === "DT" ? target.nextElementSibling : target;
+      if (!body) return;
+      targets.push(target, body);
+      body.querySelectorAll('a[href*="-ref-"]').forEach((link) => link.remove());
+      const text = (this._convert(body.innerHTML)?.textContent || "")
+        .replace(/\s+/g, " ")
+        .trim();
+      const author = authors?.get(id.replace(/^comment-/, ""));
+      definitions.push(
+        `[^${label}]: ${author ? `**${author}:** ` : ""}${text}`
+      );
+    });
+
+    // Remove the notes and their lists if nothing else is left in them
+    for (const target of targets) {
+      const list = target.parentNode;
+      target.remove();
+      if (list && list !== root && !list.childNodes.some((child) => child.text.trim()))
+        list.remove();
+    }
+    return definitions;
+  }
+
+  /**
+   * Reads the text of the page headers or footers of a document, one paragraph per part,
+   * without repeating identical ones like the first page and default header.
+   * @param {DocxPackage} docx - The DOCX package
+   * @param {string} kind - "header" or "footer"
+   * @returns {string[]} The texts, HTML escaped
+   * @private
+   */
+  private _headerFooterTexts(docx: DocxPackage, kind: "header" | "footer"): string[] {
+    const texts: string[] = [];
+    const parts = docx.FullPaths.map((fullPath, index) => ({ fullPath, index }))
+      .filter(({ fullPath }) => new RegExp(`/word/${kind}\\d*\\.xml$`).test(fullPath))
+      .sort((a, b) => a.fullPath.localeCompare(b.fullPath, "en", { numeric: true }));
+    for (const { index } of parts) {
+      const content = docx.FileIndex[index]?.content;
+      if (!content) continue;
+      const xml = new DOMParser().parseFromString(
+        Buffer.from(content).toString("utf-8"),
+        "text/xml"
+      );
+      const paragraphs = Array.from(xml.getElementsByTagName("w:p")).map((paragraph) =>
+        Array.from(paragraph.getElementsByTagName("w:t"))
+          .map((text) => text.textContent || "")
+          .join("")
+          .trim()
+      );
+      const text = paragraphs.filter((paragraph) => paragraph).join(" / ");
+      if (text && !texts.includes(text)) texts.push(text);
+    }
+    return texts.map((text) =>
+      text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    );
+  }
+
+  /**
+   * Rejects the tracked changes of a document, restoring the text before them:
+   * insertions are removed and deletions become normal text again. Inserted table rows
+   * are removed and paragraphs split by an inserted paragraph mark are merged again.
+   * @param {DocxPackage} docx - The DOCX package, changed in place
+   * @returns {Buffer} The DOCX file without tracked changes
+   * @private
+   */
+  private _rejectTrackedChanges(docx: DocxPackage): Buffer {
+    docx.FullPaths.forEach((fullPath, index) => {
+      if (!/\/word\/(document|footnotes|endnotes|header\d*|footer\d*)\.xml$/.test(fullPath))
+        return;
+      const file = docx.FileIndex[index];
+      if (!file?.content) return;
+      const xml = this._rejectInsertedStructure(Buffer.from(file.content).toString("utf-8"))
+        // Markers of inserted or deleted paragraph marks
+        .replace(/<w:(ins|del|moveTo|moveFrom)\b[^>]*\/>/g, "")
+        .replace(/<w:(ins|moveTo)\b[^>]*>[\s\S]*?<\/w:\1>/g, "")
+        .replace(/<\/?w:(del|moveFrom)\b[^>]*>/g, "")
+        .replace(/<(\/?)w:delText\b/g, "<$1w:t")
+        .replace(/<(\/?)w:delInstrText\b/g, "<$1w:instrText");
+      file.content = Buffer.from(xml, "utf-8");
+      file.size = file.content.length;
+    });
+    return XLSX.CFB.write(docx, { type: "buffer", fileType: "zip" }) as Buffer;
+  }
+
+  /**
+   * Removes the table rows and paragraph marks inserted as tracked changes, whose
+   * `<w:trPr>` or `<w:pPr><w:rPr>` holds a `<w:ins>` marker. The content of a paragraph
+   * whose mark was inserted is moved to the start of the next paragraph, which it was
+   * part of before the change.
+   * @param {string} content - The XML of a document part
+   * @returns {string} The XML without the inserted rows and paragraph marks
+   * @private
+   */
+  private _rejectInsertedStructure(content: string): string {
+    if (!/<w:(trPr|pPr)\b/.test(content) || !/<w:ins\b/.test(content)) return content;
+    const xml = new DOMParser().parseFromString(content, "text/xml");
+    const inserted = (properties: Element | undefined) =>
+      !!properties &&
+      Array.from(properties.childNodes).some((child) => child.nodeName === "w:ins");
+    const child = (element: Element, name: string) =>
+      Array.from(element.childNodes).find((node) => node.nodeName === name) as
+        | Element
+        | undefined;
+
+    for (const row of Array.from(xml.getElementsByTagName("w:tr"))) {
+      if (inserted(child(row, "w:trPr"))) row.parentNode?.removeChild(row);
+    }
+    for (const paragraph of Array.from(xml.getElementsByTagName("w:p"))) {
+      const properties = child(paragraph, "w:pPr");
+      if (!properties || !inserted(child(properties, "w:rPr"))) continue;
+      let next = paragraph.nextSibling;
+      while (next && next.nodeType !== 1) next = next.nextSibling;
+      // A paragraph ending a table cell or the document keeps its mark
+      if (next?.nodeName !== "w:p") continue;
+      const nextProperties = child(next as Element, "w:pPr");
+      const start = nextProperties ? nextProperties.nextSibling : next.firstChild;
+      for (const node of Array.from(paragraph.childNodes)) {
+        if (node !== properties) next.insertBefore(node, start);
+      }
+      paragraph.parentNode?.removeChild(paragraph);
+    }
+    return new XMLSerializer().serializeToString(xml);
+  }
+
+  /**
+   * Creates the Mammoth image converter for the `docxImages` option.
+   * @param {string} localPath - Path to the DOCX file, to name the written images
+   * @param {ConversionOptions} options - Conversion options
+   * @returns {Object | undefined} The image converter, or undefined for Mammoth's default (data URIs)
+   * @private
+   */
+  private _imageConverter(localPath: string, options: ConversionOptions) {
+    const { docxImages, imageDirectory, llmCall } = options;
+    let count = 0;
+    if (docxImages === "directory" && imageDirectory) {
+      const baseName = path.basename(localPath, path.extname(localPath));
+      return mammoth.images.imgElement(async (image) => {
+        const extension = mime.extension(image.contentType) || "bin";
+        const fileName = `${baseName}-image-${++count}.${extension}`;
+        await fs.promises.mkdir(imageDirectory, { recursive: true });
+        await fs.promises.writeFile(
+          path.join(imageDirectory, fileName),
+          await image.readAsBuffer()
+        );
+        return { src: path.join(imageDirectory, fileName) };
+      });
+    }
+    if (docxImages === "describe") {
+      return mammoth.images.imgElement(async (image) => {
+        const description = await describeImage(
+          await image.readAsBuffer(),
+          image.contentType,
+          llmCall
+        );
+        // Without a description the alt text of the image is kept
+        return (description ? { src: "", alt: description } : { src: "" }) as {
+          src: string;
+        };
+      });
+    }
+    return undefined;
+  }
 }
@@ -0,0 +1,282 @@
+import fs from "fs";
+import HtmlConverter from "./html";
+import DocumentConverter from "./document";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+  DocumentMetadata,
+} from "../types/document";
+import type { BlockNode, DocumentNode } from "../types/documentModel";
+import { renderMarkdown, shiftHeadings } from "../utils/markdownRenderer";
+import { toIsoDate } from "../utils/metadata";
+import { convertAttachment } from "../utils/attachments";
+import {
+  decodeMimeText,
+  formatAddress,
+  getHeader,
+  parseAddressList,
+  parseMimeMessage,
+  type MimePart,
+} from "../utils/mime";
+
+// A converted email message.
+export type EmailMessage = {
+  subject: string | null;
+  blocks: BlockNode[];
+  metadata: DocumentMetadata;
+};
+
+/**
+ * Converts email messages (.eml) to Markdown format.
+ * The headers (From, To, Cc, Date, Message-ID) are listed under the subject, followed by
+ * the body and the attachment names. Of alternative bodies the richest one is used,
+ * HTML bodies are converted through the HTML pipeline.
+ *
+ * @extends HtmlConverter
+ *
+ * @example
+ * ```typescript
+ * const emlConverter = new EmlConverter();
+ * let result = await emlConverter.convert('message.eml', {
+ *   fileExtension: '.eml'
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('message.eml');
+ * ```
+ */
+export default class EmlConverter extends HtmlConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts an EML file to Markdown format.
+   *
+   * @param {string} localPath - Path to the EML file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @param {boolean} [options.convertAttachments] - Convert the attachments with the parent converters
+   * @returns {Promise<DocumentConverterResult>} The converted message with its subject as title,
+   *   or null if the file is not an EML file
+   */
+  override async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = options.fileExtension || "";
+    if (extension.toLowerCase() !== ".eml") {
+      return null;
+    }
+
+    const message = parseMimeMessage(await fs.promises.readFile(localPath));
+    const { subject, blocks, metadata } = await this._convertMessage(
+      message,
+      1,
+      options
+    );
+    const document: DocumentNode = {
+      type: "document",
+      title: subject,
+      children: blocks,
+    };
+    return {
+      title: subject,
+      textContent: renderMarkdown(document).trim(),
+      document,
+      metadata,
+    };
+  }
+
+  /**
+   * Converts a parsed message to blocks: a heading with the subject, the headers,
+   * the body and the list of attachments.
+   * @param {MimePart} message - The message
+   * @param {number} level - Level of the subject heading, the attachments heading is one deeper
+   * @param {ConversionOptions} options - Conversion options, attachments are converted
+   *   with the parent converters if `options.convertAttachments` is set
+   * @returns {Promise<EmailMessage>} The converted message
+   * @protected
+   */
+  protected async _convertMessage(
+    message: MimePart,
+    level: 1 | 2,
+    options: ConversionOptions
+  ): Promise<EmailMessage> {
+    const subject = getHeader(message, "subject")?.trim() || null;
+    const from = parseAddressList(getHeader(message, "from"));
+    const to = parseAddressList(getHeader(message, "to"));
+    const cc = parseAddressList(getHeader(message, "cc"));
+    const date = getHeader(message, "date")?.trim();
+    const messageId = getHeader(message, "message-id")?.trim();
+
+    const blocks: BlockNode[] = [
+      { type: "heading", level, text: subject || "No Subject" },
+    ];
+    const headerLines: [string, string | undefined][] = [
+      ["From", from.map(formatAddress).join(", ")],
+      ["To", to.map(formatAddress).join(", ")],
+      ["Cc", cc.map(formatAddress).join(", ")],
+      ["Date", date],
+      ["Message-ID", messageId],
+    ];
+    for (const [name, value] of headerLines) {
+      if (value) blocks.push({ type: "paragraph", text: `**${name}:** ${value}` });
+    }
+
+    // The headings of the body sit below the subject heading
+    blocks.push(...shiftHeadings(this._bodyBlocks(message), level));
+
+    const attachments = this._attachments(message);
+    if (attachments.length) {
+      blocks.push(
+        { type: "heading", level: (level + 1) as 2 | 3, text: "Attachments" },
+        {
+          type: "list",
+          ordered: false,
+          items: attachments.map((attachment) => ({
+            type: "listItem",
+            text: `${this._attachmentName(attachment)} (${attachment.contentType}, ${attachment.body.length} bytes)`,
+          })),
+        }
+      );
+    }
+    if (options.convertAttachments) {
+      for (const attachment of attachments) {
+        const name = this._attachmentName(attachment);
+        const converted = await convertAttachment(name, attachment.body, options);
+        if (!converted) continue;
+        blocks.push(
+          { type: "heading", level: (level + 1) as 2 | 3, text: `Attachment: ${name}` },
+          // The headings of the attachment sit below its heading
+          ...shiftHeadings(
+            converted.document?.children || [
+              { type: "markdown", value: converted.textContent },
+            ],
+            level + 1
+          )
+        );
+      }
+    }
+
+    return {
+      subject,
+      blocks,
+      metadata: {
+        author: from[0]?.name || from[0]?.address,
+        createdAt: toIsoDate(date),
+        extra: {
+          from: from[0]?.address,
+          to: to.map((address) => address.address),
+          cc: cc.map((address) => address.address),
+          messageId: messageId?.replace(/^<|>$/g, ""),
+          attachments: attachments.map((attachment) =>
+            this._attachmentName(attachment)
+          ),
+        },
+      },
+    };
+  }
+
+  /**
+   * Converts the body of a message or part. Of `multipart/alternative` bodies the last
+   * text or HTML part is used, which is the richest one, of `multipart/related` bodies
+   * the root part. Attachments are skipped.
+   * @param {MimePart} part - The message or part
+   * @returns {BlockNode[]} The blocks of the body
+   * @private
+   */
+  private _bodyBlocks(part: MimePart): BlockNode[] {
+    if (part.contentType === "multipart/alternative") {
+      const alternatives = part.parts.filter(
+        (alternative) =>
+          ["text/plain", "text/html"].includes(alternative.contentType) ||
+          alternative.contentType.startsWith("multipart/")
+      );
+      const richest = alternatives[alternatives.length - 1];
+      return richest ? this._bodyBlocks(richest) : [];
+    }
+    if (part.contentType === "multipart/related") {
+      return part.parts[0] ? this._bodyBlocks(part.parts[0]) : [];
+    }
+    if (part.contentType.startsWith("multipart/")) {
+      return part.parts
+        .filter((child) => !this._isAttachment(child))
+        .flatMap((child) => this._bodyBlocks(child));
+    }
+    if (part.contentType === "text/html") {
+      return this._convert(decodeMimeText(part))?.document?.children || [];
+    }
+    if (part.contentType === "text/plain") {
+      return this._plainTextBlocks(part);
+    }
+    return [];
+  }
+
+  /**
+   * Splits a plain text body into paragraphs. Lines of `format=flowed` bodies which end
+   * with a space continue on the next line.
+   * @param {MimePart} part - The text part
+   * @returns {BlockNode[]} The paragraphs
+   * @private
+   */
+  private _plainTextBlocks(part: MimePart): BlockNode[] {
+    let text = decodeMimeText(part).replace(/\r\n?/g, "\n");
+    const contentType = part.headers["content-type"]?.[0] || "";
+    if (/format\s*=\s*"?flowed/i.test(contentType))
+      text = text.replace(/(?<!^--) \n/gm, " ");
+    return text
+      .split(/\n[ \t]*\n/)
+      .map((paragraph) => paragraph.replace(/\s+$/, "").replace(/^\n+/, ""))
+      .filter((paragraph) => paragraph.trim())
+      .map((paragraph) => ({ type: "paragraph", text: paragraph }));
+  }
+
+  /**
+   * Lists the attachments of a message, including attached messages.
+   * Resources of `multipart/related` bodies, like the pictures of an HTML body, are no attachments.
+   * @param {MimePart} part - The message or part
+   * @returns {MimePart[]} The attachments in message order
+   * @protected
+   */
+  protected _attachments(part: MimePart): MimePart[] {
+    if (part.contentType === "multipart/related") {
+      return part.parts[0] ? this._attachments(part.parts[0]) : [];
+    }
+    if (!part.contentType.startsWith("multipart/")) return [];
+    return part.parts.flatMap((child) =>
+      this._isAttachment(child) ? [child] : this._attachments(child)
+    );
+  }
+
+  /**
+   * Gets the file name of an attachment. Attached messages without a name are named
+   * after their subject.
+   * @param {MimePart} attachment - The attachment
+   * @returns {string} The file name
+   * @protected
+   */
+  protected _attachmentName(attachment: MimePart): string {
+    if (attachment.fileName) return attachment.fileName;
+    const message = attachment.parts[0];
+    const subject = message ? getHeader(message, "subject")?.trim() : null;
+    if (attachment.contentType.startsWith("message/"))
+      return `${subject || "message"}.eml`;
+    return "unnamed";
+  }
+
+  /**
+   * Checks whether a part of a multipart body is an attachment rather than a body part:
+   * parts with an `attachment` disposition, attached messages and parts which are no text.
+   * @param {MimePart} part - The part
+   * @returns {boolean} True for attachments
+   * @private
+   */
+  private _isAttachment(part: MimePart): boolean {
+    if (part.contentType.startsWith("multipart/")) return false;
+    if (part.disposition === "attachment") return true;
+    if (part.contentType.startsWith("message/")) return true;
+    return part.contentType !== "text/plain" && part.contentType !== "text/html";
+  }
+}
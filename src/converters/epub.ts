@@ -0,0 +1,508 @@
+import path from "path";
+import unzipper from "unzipper";
+import { DOMParser } from "xmldom";
+import { HTMLElement, parse } from "node-html-parser";
+import HtmlConverter from "./html";
+import DocumentConverter from "./document";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+} from "../types/document";
+import type {
+  BlockNode,
+  DocumentNode,
+  ListItemNode,
+  ListNode,
+} from "../types/documentModel";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import { toIsoDate } from "../utils/metadata";
+
+/**
+ * Heading of the table of contents built from the navigation document.
+ */
+const TOC_HEADING = "Table of Contents";
+
+// The files of an EPUB container, the ZIP entries keyed by their path.
+type EpubPackage = Map<string, unzipper.File>;
+
+// An item of the OPF manifest.
+type ManifestItem = {
+  // Path of the item in the container
+  path: string;
+  mediaType: string;
+  properties: string[];
+};
+
+// An entry of the table of contents, pointing to a chapter and optionally an anchor in it.
+type TocEntry = {
+  label: string;
+  path: string;
+  fragment: string;
+  children: TocEntry[];
+};
+
+// A chapter of the spine, parsed and ready to convert.
+type EpubChapter = {
+  path: string;
+  root: HTMLElement;
+};
+
+/**
+ * Converts EPUB e-books to Markdown format.
+ * Chapters are converted in reading order (the OPF spine) through the HTML pipeline,
+ * preceded by a table of contents from the navigation document. Links between chapters
+ * point to the heading anchors of the converted document.
+ *
+ * @extends HtmlConverter
+ *
+ * @example
+ * ```typescript
+ * const epubConverter = new EpubConverter();
+ * let result = await epubConverter.convert('book.epub', {
+ *   fileExtension: '.epub'
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('book.epub');
+ * ```
+ */
+export default class EpubConverter extends HtmlConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts an EPUB file to Markdown format.
+   *
+   * @param {string} localPath - Path to the EPUB file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @returns {Promise<DocumentConverterResult>} The book with its title, author and language
+   *   from the package metadata, or null if the file is not an EPUB file
+   * @override
+   */
+  override async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = options.fileExtension || "";
+    if (extension.toLowerCase() !== ".epub") {
+      return null;
+    }
+
+    try {
+      const directory = await unzipper.Open.file(localPath);
+      const epub: EpubPackage = new Map(
+        directory.files.map((file) => [file.path, file])
+      );
+
+      // The container names the package document (OPF) with the metadata, manifest and spine
+      const container = await this._readXml(epub, "META-INF/container.xml");
+      const packagePath = container
+        ?.getElementsByTagName("rootfile")[0]
+        ?.getAttribute("full-path");
+      const opf = packagePath ? await this._readXml(epub, packagePath) : null;
+      if (!opf || !packagePath) return null;
+
+      const manifest = this._readManifest(opf, packagePath);
+      const spine = Array.from(opf.getElementsByTagName("itemref")).flatMap(
+        (itemref) => {
+          const item = manifest.get(itemref.getAttribute("idref") || "");
+          return item && /html/.test(item.mediaType) ? [item.path] : [];
+        }
+      );
+      const { toc, tocPath } = await this._readToc(epub, opf, manifest);
+
+      const chapters: EpubChapter[] = [];
+      for (const chapterPath of spine) {
+        // The EPUB 3 navigation document is replaced by the generated table of contents
+        if (chapterPath === tocPath && toc.length) continue;
+        const file = epub.get(chapterPath);
+        if (!file) continue;
+        const root = parse((await file.buffer()).toString("utf-8"));
+        chapters.push({ path: chapterPath, root });
+      }
+
+      const anchors = this._assignAnchors(chapters, toc);
+      const tocBlocks: BlockNode[] = toc.length
+        ? [
+            { type: "heading", level: 2, text: TOC_HEADING },
+            this._tocList(toc, anchors),
+          ]
+        : [];
+
+      const sections: BlockNode[] = [];
+      const texts = tocBlocks.length ? [renderMarkdown({ type: "document", children: tocBlocks })] : [];
+      chapters.forEach((chapter, index) => {
+        this._rewriteReferences(chapter, anchors);
+        const result = this._convert(chapter.root.toString());
+        if (!result?.textContent) return;
+        texts.push(result.textContent);
+        sections.push({
+          type: "section",
+          kind: "chapter",
+          name:
+            this._tocLabel(toc, chapter.path) || result.title || undefined,
+          number: index + 1,
+          children: result.document?.children || [],
+        });
+      });
+
+      const metadata = this._readMetadata(opf);
+      const document: DocumentNode = {
+        type: "document",
+        title: metadata.title,
+        children: [...tocBlocks, ...sections],
+      };
+      return {
+        title: metadata.title,
+        textContent: texts.join("\n\n").trim(),
+        document,
+        metadata: {
+          author: metadata.author,
+          language: metadata.language,
+          createdAt: metadata.publishedAt,
+          modifiedAt: metadata.modifiedAt,
+          extra: {
+            ...(metadata.publisher ? { publisher: metadata.publisher } : {}),
+            ...(metadata.identifier ? { identifier: metadata.identifier } : {}),
+            chapterCount: sections.length,
+          },
+        },
+      };
+    } catch (error) {
+      console.error("Error converting EPUB file:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Reads the Dublin Core metadata of the package document.
+   * @param {Document} opf - The package document
+   * @returns {Object} The title, authors, language, publisher, identifier and dates
+   * @private
+   */
+  private _readMetadata(opf: Document): {
+    title: string | null;
+    author?: string;
+    language?: string;
+    publisher?: string;
+    identifier?: string;
+    publishedAt?: string;
+    modifiedAt?: string;
+  } {
+    const values = (tagName: string) =>
+      Array.from(opf.getElementsByTagName(tagName))
+        .map((element) => element.textContent?.replace(/\s+/g, " ").trim() || "")
+        .filter(Boolean);
+    const modified = Array.from(opf.getElementsByTagName("meta")).find(
+      (meta) => meta.getAttribute("property") === "dcterms:modified"
+    );
+
+    return {
+      title: values("dc:title")[0] || null,
+      author: values("dc:creator").join(", ") || undefined,
+      language: values("dc:language")[0],
+      publisher: values("dc:publisher")[0],
+      identifier: values("dc:identifier")[0],
+      publishedAt: toIsoDate(values("dc:date")[0]),
+      modifiedAt: toIsoDate(modified?.textContent?.trim()),
+    };
+  }
+
+  /**
+   * Reads the manifest of the package document, with the item paths resolved in the container.
+   * @param {Document} opf - The package document
+   * @param {string} packagePath - Path of the package document
+   * @returns {Map<string, ManifestItem>} The items by id
+   * @private
+   */
+  private _readManifest(
+    opf: Document,
+    packagePath: string
+  ): Map<string, ManifestItem> {
+    const manifest = new Map<string, ManifestItem>();
+    for (const item of Array.from(opf.getElementsByTagName("item"))) {
+      manifest.set(item.getAttribute("id") || "", {
+        path: this._resolvePath(packagePath, item.getAttribute("href") || ""),
+        mediaType: item.getAttribute("media-type") || "",
+        properties: (item.getAttribute("properties") || "").split(/\s+/),
+      });
+    }
+    return manifest;
+  }
+
+  /**
+   * Reads the table of contents from the EPUB 3 navigation document, or the EPUB 2 NCX.
+   * @param {EpubPackage} epub - The EPUB container
+   * @param {Document} opf - The package document
+   * @param {Map<string, ManifestItem>} manifest - The manifest items by id
+   * @returns {Promise<{ toc: TocEntry[]; tocPath: string | null }>} The entries and the path of
+   *   the document they were read from
+   * @private
+   */
+  private async _readToc(
+    epub: EpubPackage,
+    opf: Document,
+    manifest: Map<string, ManifestItem>
+  ): Promise<{ toc: TocEntry[]; tocPath: string | null }> {
+    const items = [...manifest.values()];
+    const navItem = items.find((item) => item.properties.includes("nav"));
+    const navFile = navItem ? epub.get(navItem.path) : undefined;
+    if (navItem && navFile) {
+      const nav = parse((await navFile.buffer()).toString("utf-8"));
+      const tocNav =
+        nav
+          .querySelectorAll("nav")
+          .find((element) => element.getAttribute("epub:type") === "toc") ||
+        nav.querySelector("nav");
+      const list = tocNav?.querySelector("ol");
+      const toc = list ? this._navEntries(list, navItem.path) : [];
+      if (toc.length) return { toc, tocPath: navItem.path };
+    }
+
+    const spine = opf.getElementsByTagName("spine")[0];
+    const ncxItem =
+      manifest.get(spine?.getAttribute("toc") || "") ||
+      items.find((item) => item.mediaType === "application/x-dtbncx+xml");
+    const ncx = ncxItem ? await this._readXml(epub, ncxItem.path) : null;
+    const navMap = ncx?.getElementsByTagName("navMap")[0];
+    return {
+      toc: navMap ? this._ncxEntries(navMap, ncxItem!.path) : [],
+      tocPath: ncxItem?.path || null,
+    };
+  }
+
+  /**
+   * Reads the entries of an `ol` of the EPUB 3 navigation document.
+   * @param {HTMLElement} list - The `ol` element
+   * @param {string} navPath - Path of the navigation document
+   * @returns {TocEntry[]} The entries
+   * @private
+   */
+  private _navEntries(list: HTMLElement, navPath: string): TocEntry[] {
+    return list.childNodes
+      .filter(
+        (child): child is HTMLElement =>
+          child instanceof HTMLElement && child.tagName === "LI"
+      )
+      .flatMap((item) => {
+        const link = item.querySelector("a, span");
+        const label = link?.text.replace(/\s+/g, " ").trim() || "";
+        const nested = item.childNodes.find(
+          (child): child is HTMLElement =>
+            child instanceof HTMLElement && child.tagName === "OL"
+        );
+        if (!label) return [];
+        const [target = "", fragment = ""] = (link?.getAttribute("href") || "").split("#");
+        return [
+          {
+            label,
+            path: target ? this._resolvePath(navPath, target) : "",
+            fragment,
+            children: nested ? this._navEntries(nested, navPath) : [],
+          },
+        ];
+      });
+  }
+
+  /**
+   * Reads the entries of a `navMap` or `navPoint` of an EPUB 2 NCX document.
+   * @param {Element} parent - The `navMap` or `navPoint` element
+   * @param {string} ncxPath - Path of the NCX document
+   * @returns {TocEntry[]} The entries
+   * @private
+   */
+  private _ncxEntries(parent: Element, ncxPath: string): TocEntry[] {
+    return Array.from(parent.childNodes)
+      .filter(
+        (child): child is Element =>
+          child.nodeType === 1 && (child as Element).tagName === "navPoint"
+      )
+      .flatMap((point) => {
+        const label =
+          point
+            .getElementsByTagName("text")[0]
+            ?.textContent?.replace(/\s+/g, " ")
+            .trim() || "";
+        const src =
+          point.getElementsByTagName("content")[0]?.getAttribute("src") || "";
+        if (!label) return [];
+        const [target = "", fragment = ""] = src.split("#");
+        return [
+          {
+            label,
+            path: target ? this._resolvePath(ncxPath, target) : "",
+            fragment,
+            children: this._ncxEntries(point, ncxPath),
+          },
+        ];
+      });
+  }
+
+  /**
+   * Assigns the Markdown anchors (heading slugs) which chapter and element links point to.
+   * A chapter link points to its first heading, a link to an element to the heading it is
+   * in or follows. Chapters without headings get one from their table of contents entry.
+   * @param {EpubChapter[]} chapters - The chapters in reading order
+   * @param {TocEntry[]} toc - The table of contents
+   * @returns {Map<string, string>} Anchors keyed by "path" and "path#id"
+   * @private
+   */
+  private _assignAnchors(
+    chapters: EpubChapter[],
+    toc: TocEntry[]
+  ): Map<string, string> {
+    const anchors = new Map<string, string>();
+    const occurrences = new Map<string, number>();
+    const slug = (text: string) => {
+      const base = text
+        .toLowerCase()
+        .trim()
+        .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, "")
+        .replace(/ /g, "-");
+      const count = occurrences.get(base) || 0;
+      occurrences.set(base, count + 1);
+      return count ? `${base}-${count}` : base;
+    };
+    if (toc.length) slug(TOC_HEADING);
+
+    for (const chapter of chapters) {
+      const body = chapter.root.querySelector("body") || chapter.root;
+      const label = this._tocLabel(toc, chapter.path);
+      if (label && !body.querySelector("h1, h2, h3, h4, h5, h6")) {
+        body.insertAdjacentHTML("afterbegin", `<h2>${this._escapeHtml(label)}</h2>`);
+      }
+
+      let current = "";
+      for (const element of body.querySelectorAll("*")) {
+        if (/^H[1-6]$/.test(element.tagName) && element.text.trim()) {
+          current = slug(element.text.replace(/\s+/g, " "));
+          if (!anchors.has(chapter.path)) anchors.set(chapter.path, current);
+        }
+        const id = element.getAttribute("id");
+        if (id && current) anchors.set(`${chapter.path}#${id}`, current);
+      }
+    }
+    return anchors;
+  }
+
+  /**
+   * Points links between chapters to their anchors and images to their file names.
+   * @param {EpubChapter} chapter - The chapter
+   * @param {Map<string, string>} anchors - The anchors from _assignAnchors
+   * @private
+   */
+  private _rewriteReferences(
+    chapter: EpubChapter,
+    anchors: Map<string, string>
+  ): void {
+    for (const link of chapter.root.querySelectorAll("a[href]")) {
+      const href = link.getAttribute("href") || "";
+      if (/^[a-z][a-z0-9+.-]*:/i.test(href)) continue;
+      const [target = "", fragment = ""] = href.split("#");
+      const targetPath = target
+        ? this._resolvePath(chapter.path, target)
+        : chapter.path;
+      const anchor =
+        (fragment && anchors.get(`${targetPath}#${fragment}`)) ||
+        anchors.get(targetPath);
+      if (anchor) link.setAttribute("href", `#${anchor}`);
+      else link.removeAttribute("href");
+    }
+    for (const image of chapter.root.querySelectorAll("img[src]")) {
+      const src = image.getAttribute("src") || "";
+      if (!/^[a-z][a-z0-9+.-]*:/i.test(src))
+        image.setAttribute("src", path.posix.basename(src));
+    }
+  }
+
+  /**
+   * Builds the table of contents list, with links to the anchors of the entries.
+   * @param {TocEntry[]} entries - The entries
+   * @param {Map<string, string>} anchors - The anchors from _assignAnchors
+   * @returns {ListNode} The list
+   * @private
+   */
+  private _tocList(entries: TocEntry[], anchors: Map<string, string>): ListNode {
+    const items: ListItemNode[] = entries.map((entry) => {
+      const anchor =
+        (entry.fragment && anchors.get(`${entry.path}#${entry.fragment}`)) ||
+        anchors.get(entry.path);
+      return {
+        type: "listItem",
+        text: anchor ? `[${entry.label}](#${anchor})` : entry.label,
+        ...(entry.children.length
+          ? { children: [this._tocList(entry.children, anchors)] }
+          : {}),
+      };
+    });
+    return { type: "list", ordered: false, items };
+  }
+
+  /**
+   * Finds the label of the first table of contents entry pointing to a chapter.
+   * @param {TocEntry[]} entries - The entries
+   * @param {string} chapterPath - Path of the chapter
+   * @returns {string | null} The label, or null if no entry points to the chapter
+   * @private
+   */
+  private _tocLabel(entries: TocEntry[], chapterPath: string): string | null {
+    for (const entry of entries) {
+      if (entry.path === chapterPath) return entry.label;
+      const label = this._tocLabel(entry.children, chapterPath);
+      if (label) return label;
+    }
+    return null;
+  }
+
+  /**
+   * Resolves a relative reference of a file in the container to a container path.
+   * @param {string} basePath - Path of the file containing the reference
+   * @param {string} href - The reference, URL-encoded
+   * @returns {string} The container path
+   * @private
+   */
+  private _resolvePath(basePath: string, href: string): string {
+    let decoded = href;
+    try {
+      decoded = decodeURIComponent(href);
+    } catch (error) {
+      // Keep malformed references as they are
+    }
+    return path.posix.normalize(
+      path.posix.join(path.posix.dirname(basePath), decoded)
+    );
+  }
+
+  /**
+   * Escapes text for use in HTML.
+   * @param {string} text - The text
+   * @returns {string} The escaped text
+   * @private
+   */
+  private _escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+
+  /**
+   * Reads and parses an XML file of the container.
+   * @param {EpubPackage} epub - The EPUB container
+   * @param {string} filePath - Path of the file
+   * @returns {Promise<Document | null>} The parsed file, or null if it doesn't exist
+   * @private
+   */
+  private async _readXml(
+    epub: EpubPackage,
+    filePath: string
+  ): Promise<Document | null> {
+    const file = epub.get(filePath);
+    if (!file) return null;
+    const content = (await file.buffer()).toString("utf-8");
+    return new DOMParser().parseFromString(content, "text/xml");
+  }
+}
@@ -1,11 +1,17 @@
 import { parse } from "node-html-parser";
 import fs from "fs";
+import { pathToFileURL } from "url";
 import CustomMarkdownConverter from "./customMarkdown";
+import type { TurndownOptions } from "./customMarkdown";
 import DocumentConverter from "../converters/document";
+import { htmlToDocumentNodes } from "../utils/htmlDocument";
+import { extractArticle } from "../utils/readability";
+import { renderMarkdown } from "../utils/markdownRenderer";
 import type {
   DocumentConverterResult,
   ConversionOptions,
 } from "../types/document";
+import type { BlockNode, DocumentNode } from "../types/documentModel";
 
 /**
  * Converts HTML files to Markdown format.
@@ -36,6 +42,10 @@ export default class HtmlConverter extends DocumentConverter {
    * @param {string} localPath - Path to the local HTML file
    * @param {ConversionOptions} options - Conversion options
    * @param {string} [options.fileExtension] - File extension (must be .html or .htm)
+   * @param {string} [options.complexTables] - Keep tables with merged or nested cells as "html"
+   * @param {boolean} [options.readability] - Only convert the main content of the page
+   * @param {string} [options.url] - URL of the page, relative links and images are resolved against it
+   * @param {string} [options.relativeLinksTo] - Rewrite links relative to this URL or path of the Markdown
    * @returns {Promise<DocumentConverterResult>} Conversion result or null if:
    *   - File extension is not .html or .htm
    *   - File cannot be read
@@ -51,7 +61,19 @@ export default class HtmlConverter extends DocumentConverter {
     }
 
     const content = await fs.promises.readFile(localPath, "utf-8");
-    return this._convert(content);
+    // Links of local files can only be rewritten relative to another location once resolved
+    const baseUrl =
+      options.url ||
+      (options.relativeLinksTo ? pathToFileURL(localPath).href : undefined);
+    return this._convert(
+      content,
+      {
+        complexTables: options.complexTables,
+        baseUrl,
+        relativeTo: options.relativeLinksTo,
+      },
+      options.readability
+    );
   }
 
   /**
@@ -59,33 +81,85 @@ export default class HtmlConverter extends DocumentConverter {
    * Internal method used by both direct HTML conversion and other converters.
    *
    * @param {string} htmlContent - Raw HTML content to convert
-   * @returns {DocumentConverterResult} Object containing title and converted markdown content
+   * @param {TurndownOptions} [markdownOptions={}] - Options of the Markdown conversion, e.g. to keep images
+   * @param {boolean} [readability=false] - Only convert the main content of the page, with its
+   *   byline, publication date and lead image, if it can be told apart from the rest of the page
+   * @returns {DocumentConverterResult} Object containing title, converted markdown content and the document tree
    *
    * @remarks
    * - Removes all <script> and <style> elements before conversion
+   * - Resolves links and images against `<base href>`, itself resolved against `markdownOptions.baseUrl`
    * - Attempts to extract content from <body> first, falls back to entire document
+   * - In readability mode, converts the main content found by `extractArticle` instead of
+   *   the body and falls back to the body if there is none
    * - Preserves document title if available
-   * - Trims whitespace from the final markdown
+   * - Reads the document language and author from `<html lang>` and `<meta name="author">`
+   * - Renders the markdown from the document tree, so both always agree
    *
    * @protected
    */
-  protected _convert(htmlContent: string): DocumentConverterResult {
+  protected _convert(
+    htmlContent: string,
+    markdownOptions: TurndownOptions = {},
+    readability: boolean = false
+  ): DocumentConverterResult {
     // Parse the HTML
     const root = parse(htmlContent);
+    // Read before the scripts are removed, the article metadata may be JSON-LD
+    const article = readability ? extractArticle(root) : null;
 
     // Remove javascript and style blocks
     root.querySelectorAll("script, style").forEach((el) => el.remove());
 
+    const baseHref = root.querySelector("base[href]")?.getAttribute("href");
+    if (baseHref) {
+      try {
+        markdownOptions = {
+          ...markdownOptions,
+          baseUrl: new URL(baseHref, markdownOptions.baseUrl).href,
+        };
+      } catch (error) {
+        // A relative <base> without base URL of the page, links stay relative
+      }
+    }
+
     // Convert to markdown
-    const markdownConverter = new CustomMarkdownConverter();
-    const bodyElm = root.querySelector("body");
-    const webpageText = bodyElm
-      ? markdownConverter.convert(bodyElm.innerHTML)
-      : markdownConverter.convert(root.innerHTML);
+    const markdownConverter = new CustomMarkdownConverter(markdownOptions);
+    const contentElm = article?.content || root.querySelector("body") || root;
+    const title = root.querySelector("title")?.text || null;
+    const language = root.querySelector("html")?.getAttribute("lang");
+    const author =
+      article?.byline ||
+      root.querySelector('meta[name="author"]')?.getAttribute("content");
 
+    // The byline, date and lead image of an article are written above its content
+    const articleBlocks: BlockNode[] = [];
+    if (article?.byline)
+      articleBlocks.push({ type: "paragraph", text: `**Author:** ${article.byline}` });
+    if (article?.publishedAt)
+      articleBlocks.push({
+        type: "paragraph",
+        text: `**Published:** ${article.publishedAt}`,
+      });
+    const leadImageSource =
+      article?.leadImage && markdownConverter.resolveUrl(article.leadImage.src);
+    if (article?.leadImage && leadImageSource)
+      articleBlocks.push({ type: "image", ...article.leadImage, src: leadImageSource });
+
+    const document: DocumentNode = {
+      type: "document",
+      title,
+      children: [...articleBlocks, ...htmlToDocumentNodes(contentElm, markdownConverter)],
+    };
     return {
-      title: root.querySelector("title")?.text || null,
-      textContent: webpageText.trim(),
+      title,
+      textContent: renderMarkdown(document),
+      metadata: {
+        author: author || undefined,
+        createdAt: article?.publishedAt,
+        language: language || undefined,
+      },
+      document,
     };
   }
 }
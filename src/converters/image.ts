@@ -1,12 +1,12 @@
 import fs from "fs";
 import mime from "mime-types";
-import tesseract from "node-tesseract-ocr";
 import type {
   ConversionOptions,
   DocumentConverterResult,
 } from "../types/document";
 import MediaConverter from "./media";
-import type { LlmCall, Message } from "../types/markitdown";
+import { recognizeText } from "../utils/ocr";
+import { describeImage } from "../utils/imageDescription";
 
 /**
  * Converts images to markdown format with enhanced content extraction.
@@ -58,6 +58,7 @@ export default class ImageConverter extends MediaConverter {
    * @param {ConversionOptions} options - Conversion options
    * @param {string} [options.fileExtension] - File extension (must be .jpg, .jpeg, or .png)
    * @param {LlmCall} [options.llmCall] - Callback function for LLM image description
+   * @param {string[]} [options.ocrLanguages] - Tesseract language codes used for OCR
    * @returns {Promise<DocumentConverterResult>} Conversion result or null if:
    *   - File is not a supported image type
    *   - File cannot be read
@@ -105,77 +106,25 @@ export default class ImageConverter extends MediaConverter {
       });
     }
 
-    try {
-      const text = await tesseract.recognize(localPath);
-      if (text) mdContent += `\n# Text:\n\n${text.trim()}`;
-    } catch (error) {
-      // User doesn't have tesseract installed
+    if (options.ocr !== "never") {
+      const text = await recognizeText(localPath, {
+        languages: options.ocrLanguages,
+      });
+      if (text) mdContent += `\n# Text:\n\n${text}`;
     }
 
-    const description = await this._getLlmDescription({
-      localPath,
-      fileExtension: extension,
-      llmCall: options.llmCall,
-    });
+    const description = await describeImage(
+      await fs.promises.readFile(localPath),
+      mime.lookup(extension) || "image/jpeg",
+      options.llmCall,
+      "Write a detailed caption for this base64 image string."
+    );
     if (description) mdContent += `\n\n# Description:\n\n${description.trim()}`;
 
     return {
       title: null,
       textContent: mdContent,
+      metadata: this._toDocumentMetadata(metadata),
     };
   }
-
-  /**
-   * Gets an AI-generated description of the image using the provided LLM callback.
-   *
-   * @param {Object} params - Parameters for LLM description generation
-   * @param {string} params.localPath - Path to the image file
-   * @param {string} params.fileExtension - File extension for MIME type determination
-   * @param {LlmCall} params.llmCall - Callback function for LLM processing
-   * @returns {Promise<string | null>} Generated description or null if:
-   *   - LLM callback is not provided
-   *   - Image processing fails
-   *   - LLM call fails
-   *
-   * @private
-   */
-  private async _getLlmDescription({
-    localPath,
-    fileExtension,
-    llmCall,
-  }: {
-    localPath: string;
-    fileExtension: string;
-    llmCall: LlmCall;
-  }) {
-    if (typeof llmCall !== "function") return null;
-    try {
-      const imageBase64 = fs.readFileSync(localPath, { encoding: "base64" });
-      const contentType = mime.lookup(fileExtension) || "image/jpeg";
-      const dataUri = `data:${contentType};base64,${imageBase64}`;
-
-      const messages: Message[] = [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: "Write a detailed caption for this base64 image string.",
-            },
-            { type: "image_url", image_url: { url: dataUri } },
-          ],
-        },
-      ];
-
-      const response = await llmCall({
-        messages,
-        imageBase64: imageBase64,
-      });
-
-      return response;
-    } catch (err) {
-      console.error("error making llmCall: ", err);
-      return null;
-    }
-  }
 }
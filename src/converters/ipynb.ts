@@ -1,5 +1,11 @@
 import fs from "fs";
 import DocumentConverter from "../converters/document";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import type {
+  BlockNode,
+  DocumentNode,
+  HeadingNode,
+} from "../types/documentModel";
 import type {
   ConversionOptions,
   DocumentConverterResult,
@@ -79,18 +85,17 @@ export default class IpynbConverter extends DocumentConverter {
    * Processes both markdown and code cells, including their outputs.
    *
    * @param {JupyterNotebook} notebookContent - Parsed Jupyter notebook content
-   * @returns {DocumentConverterResult} Converted document with title and markdown content
+   * @returns {DocumentConverterResult} Converted document with title, markdown content and document tree
    * @throws {Error} If conversion process fails
    * @private
    */
   private _convert(notebookContent: JupyterNotebook): DocumentConverterResult {
     try {
-      let mdOutput: string[] = [];
+      const blocks: BlockNode[] = [];
       let title: string | null = null;
 
       notebookContent.cells.forEach((cell) => {
         if (cell.cell_type === "markdown") {
-          const markdownText = cell.source.join("");
           // Set the first `# Heading` as title if not already found
           if (!title) {
             for (const line of cell.source) {
@@ -100,42 +105,51 @@ export default class IpynbConverter extends DocumentConverter {
               }
             }
           }
-          mdOutput.push(markdownText);
+          blocks.push(...this._markdownCellBlocks(cell.source.join("")));
         } else if (cell.cell_type === "code") {
-          mdOutput.push("```python\n" + cell.source.join("") + "\n```");
+          blocks.push({
+            type: "code",
+            language: "python",
+            value: cell.source.join(""),
+          });
           // Process output (if any)
           if (cell.outputs && cell.outputs.length > 0) {
             cell.outputs.forEach((output) => {
               if (output.output_type === "stream") {
-                mdOutput.push("```\n" + output.text?.join("") + "\n```");
+                blocks.push({ type: "code", value: `${output.text?.join("")}` });
               } else if (
                 output.output_type === "execute_result" &&
                 output.data &&
                 output.data["text/plain"]
               ) {
-                mdOutput.push(
-                  "```\n" + output.data["text/plain"].join("") + "\n```"
-                );
+                blocks.push({
+                  type: "code",
+                  value: output.data["text/plain"].join(""),
+                });
               } else if (
                 output.output_type === "display_data" &&
                 output.data &&
                 output.data["image/png"]
               ) {
                 const imgData = output.data["image/png"];
-                mdOutput.push(`![Image](data:image/png;base64,${imgData})`);
+                blocks.push({
+                  type: "image",
+                  alt: "Image",
+                  src: `data:image/png;base64,${imgData}`,
+                });
               }
             });
           }
         }
       });
 
-      const mdText = mdOutput.join("\n\n");
       title =
         notebookContent.metadata?.name ||
         notebookContent.metadata?.title ||
         title;
 
-      return { title, textContent: mdText };
+      const document: DocumentNode = { type: "document", title, children: blocks };
+      return { title, textContent: renderMarkdown(document), document };
     } catch (error) {
       throw new Error(
         `Error converting .ipynb file: ${
@@ -144,4 +158,42 @@ export default class IpynbConverter extends DocumentConverter {
       );
     }
   }
+
+  /**
+   * Splits the source of a markdown cell into heading nodes and the markdown between them,
+   * leaving headings inside fenced code untouched.
+   *
+   * @param {string} markdownText - Source of the markdown cell
+   * @returns {BlockNode[]} Heading and markdown nodes of the cell
+   * @private
+   */
+  private _markdownCellBlocks(markdownText: string): BlockNode[] {
+    const blocks: BlockNode[] = [];
+    let pendingLines: string[] = [];
+    let inFence = false;
+
+    const flushPending = () => {
+      const value = pendingLines.join("\n");
+      if (value.trim()) blocks.push({ type: "markdown", value });
+      pendingLines = [];
+    };
+
+    for (const line of markdownText.split("\n")) {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      const heading = !inFence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (heading && heading[1] && heading[2]) {
+        flushPending();
+        blocks.push({
+          type: "heading",
+          level: heading[1].length as HeadingNode["level"],
+          text: heading[2],
+        });
+      } else {
+        pendingLines.push(line);
+      }
+    }
+    flushPending();
+
+    return blocks;
+  }
 }
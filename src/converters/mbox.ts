@@ -0,0 +1,96 @@
+import fs from "fs";
+import EmlConverter from "./eml";
+import type { EmailMessage } from "./eml";
+import DocumentConverter from "./document";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+} from "../types/document";
+import type { DocumentNode } from "../types/documentModel";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import { parseMimeMessage, splitMbox } from "../utils/mime";
+
+/**
+ * Converts mbox mailboxes (.mbox), e.g. Thunderbird folders or Gmail exports, to Markdown format.
+ * Each message is converted like an EML file into a section of its own, ordered by date.
+ *
+ * @extends EmlConverter
+ *
+ * @example
+ * ```typescript
+ * const mboxConverter = new MboxConverter();
+ * let result = await mboxConverter.convert('Inbox.mbox', {
+ *   fileExtension: '.mbox'
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('Inbox.mbox');
+ * ```
+ */
+export default class MboxConverter extends EmlConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts an mbox file to Markdown format.
+   *
+   * @param {string} localPath - Path to the mbox file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @param {boolean} [options.convertAttachments] - Convert the attachments with the parent converters
+   * @returns {Promise<DocumentConverterResult>} The converted messages, or null if the file is not an mbox file
+   */
+  override async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = options.fileExtension || "";
+    if (extension.toLowerCase() !== ".mbox") {
+      return null;
+    }
+
+    const messages: EmailMessage[] = [];
+    for (const raw of splitMbox(await fs.promises.readFile(localPath))) {
+      messages.push(await this._convertMessage(parseMimeMessage(raw), 2, options));
+    }
+    // Oldest message first, messages without a date keep their mailbox order at the end
+    const time = (createdAt: string | undefined) =>
+      createdAt ? Date.parse(createdAt) : Infinity;
+    const sorted = messages
+      .map((message, index) => ({ message, index }))
+      .sort(
+        (a, b) =>
+          time(a.message.metadata.createdAt) -
+            time(b.message.metadata.createdAt) || a.index - b.index
+      )
+      .map(({ message }) => message);
+
+    const document: DocumentNode = {
+      type: "document",
+      title: null,
+      children: sorted.map((message, index) => ({
+        type: "section",
+        kind: "message",
+        name: message.subject || undefined,
+        number: index + 1,
+        children: message.blocks,
+      })),
+    };
+    const dates = sorted
+      .map((message) => message.metadata.createdAt)
+      .filter((date): date is string => !!date);
+
+    return {
+      title: null,
+      textContent: renderMarkdown(document).trim(),
+      document,
+      metadata: {
+        createdAt: dates[0],
+        modifiedAt: dates[dates.length - 1],
+        extra: { messageCount: messages.length },
+      },
+    };
+  }
+}
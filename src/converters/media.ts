@@ -3,7 +3,24 @@ import DocumentConverter from "../converters/document";
 import type {
   ConversionOptions,
   DocumentConverterResult,
+  DocumentMetadata,
 } from "../types/document";
+import { normalizeMetadataValue, toIsoDate } from "../utils/metadata";
+
+/**
+ * Exiftool tags describing the file on disk rather than the media, left out of the metadata.
+ */
+const FILE_SYSTEM_TAGS = [
+  "SourceFile",
+  "errors",
+  "warnings",
+  "Directory",
+  "FileName",
+  "FilePermissions",
+  "FileAccessDate",
+  "FileInodeChangeDate",
+  "FileModifyDate",
+];
 
 /**
  * Abstract base class for media converters.
@@ -16,6 +33,7 @@ import type {
  * const converter = new MediaConverter();
  *
  * const metadata = await converter._getMetadata('video.mp4');
+ * const documentMetadata = converter._toDocumentMetadata(metadata);
  * ```
  */
 export default abstract class MediaConverter extends DocumentConverter {
@@ -55,4 +73,34 @@ export default abstract class MediaConverter extends DocumentConverter {
       exiftool.end();
     }
   }
+
+  /**
+   * Maps exiftool tags to the metadata of the conversion result.
+   * All tags describing the media are kept in `extra`, with dates as ISO strings.
+   * @param {Record<string, any> | null} tags - Tags returned by _getMetadata
+   * @returns {DocumentMetadata | undefined} The metadata, or undefined if there are no tags
+   */
+  _toDocumentMetadata(
+    tags: Record<string, any> | null
+  ): DocumentMetadata | undefined {
+    if (!tags) return undefined;
+    const author = tags.Artist || tags.Author || tags.Creator;
+    const extra: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(tags)) {
+      if (FILE_SYSTEM_TAGS.includes(key)) continue;
+      const normalized = normalizeMetadataValue(value);
+      if (normalized !== undefined) extra[key] = normalized;
+    }
+
+    return {
+      author: author ? String(author) : undefined,
+      createdAt: toIsoDate(
+        tags.DateTimeOriginal || tags.CreateDate || tags.MediaCreateDate
+      ),
+      modifiedAt: toIsoDate(tags.ModifyDate || tags.MediaModifyDate),
+      language: tags.Language ? String(tags.Language) : undefined,
+      mimeType: tags.MIMEType,
+      extra,
+    };
+  }
 }
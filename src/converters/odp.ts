@@ -0,0 +1,160 @@
+import OpenDocumentConverter from "./openDocument";
+import type { OpenDocumentContext } from "./openDocument";
+import DocumentConverter from "./document";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+} from "../types/document";
+import type { BlockNode, DocumentNode } from "../types/documentModel";
+import { renderMarkdown } from "../utils/markdownRenderer";
+
+/**
+ * Converts OpenDocument presentations (.odp) to Markdown format.
+ * Slides are converted like PowerPoint slides: a `## Slide N: Title` heading,
+ * the text, lists, tables, charts and pictures of the slide and its speaker notes.
+ *
+ * @extends OpenDocumentConverter
+ *
+ * @example
+ * ```typescript
+ * const odpConverter = new OdpConverter();
+ * let result = await odpConverter.convert('presentation.odp', {
+ *   fileExtension: '.odp'
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('presentation.odp');
+ * ```
+ */
+export default class OdpConverter extends OpenDocumentConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts an ODP file to Markdown format, with the same layout as PptxConverter:
+   * a `## Slide N: Title` heading per slide and speaker notes under `### Notes`.
+   *
+   * @param {string} localPath - Path to the ODP file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @param {LlmCall} [options.llmCall] - Callback function for LLM picture descriptions
+   * @returns {Promise<DocumentConverterResult>} The converted slides, or null if the file is not an ODP file
+   */
+  async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = options.fileExtension || "";
+    if (extension.toLowerCase() !== ".odp") {
+      return null;
+    }
+
+    try {
+      const opened = await this._openDocument(localPath, options);
+      if (!opened) return null;
+      const { content, context } = opened;
+      const body = content.getElementsByTagName("office:presentation")[0];
+      if (!body) return null;
+
+      const pages = this._childElements(body, "draw:page");
+      const document: DocumentNode = { type: "document", title: null, children: [] };
+      for (const [index, page] of pages.entries()) {
+        document.children.push(await this._slideSection(page, index + 1, context));
+      }
+      const { title, metadata } = await this._readMetadata(context.package);
+      document.title = title;
+
+      return {
+        title,
+        textContent: renderMarkdown(document).trim(),
+        document,
+        metadata: { ...metadata, extra: { slideCount: pages.length } },
+      };
+    } catch (error) {
+      console.error("Error converting ODP file:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Converts a slide to a section with its heading, shapes and notes.
+   * @param {Element} page - The `draw:page` element
+   * @param {number} number - 1-based slide number
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {Promise<BlockNode>} The slide section
+   * @private
+   */
+  private async _slideSection(
+    page: Element,
+    number: number,
+    context: OpenDocumentContext
+  ): Promise<BlockNode> {
+    let title = "";
+    const blocks: BlockNode[] = [];
+    for (const shape of this._shapes(page)) {
+      if (this._isSkippedPresentationElement(shape)) continue;
+      if (shape.getAttribute("presentation:class") === "title" && !title) {
+        title = (shape.textContent || "").replace(/\s+/g, " ").trim();
+        continue;
+      }
+      blocks.push(...(await this._shapeBlocks(shape, context)));
+    }
+
+    const notesPage = this._childElements(page, "presentation:notes")[0];
+    const notes: BlockNode[] = [];
+    for (const shape of this._shapes(notesPage)) {
+      if (shape.getAttribute("presentation:class") === "notes")
+        notes.push(...(await this._shapeBlocks(shape, context)));
+    }
+
+    return {
+      type: "section",
+      kind: "slide",
+      name: title || undefined,
+      number,
+      children: [
+        {
+          type: "heading",
+          level: 2,
+          text: title ? `Slide ${number}: ${title}` : `Slide ${number}`,
+        },
+        ...blocks,
+        ...(notes.length
+          ? [{ type: "heading", level: 3, text: "Notes" } as const, ...notes]
+          : []),
+      ],
+    };
+  }
+
+  /**
+   * Converts a shape of a slide to blocks. Frames hold text boxes, tables, charts and
+   * pictures, other shapes like rectangles may hold text directly.
+   * @param {Element} shape - The shape
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {Promise<BlockNode[]>} The blocks of the shape
+   * @private
+   */
+  private async _shapeBlocks(
+    shape: Element,
+    context: OpenDocumentContext
+  ): Promise<BlockNode[]> {
+    if (shape.tagName === "draw:frame") return this._frameBlocks(shape, context);
+    return this._blocks(this._childElements(shape), context);
+  }
+
+  /**
+   * Lists the shapes of a slide or notes page in drawing order, flattening groups.
+   * @param {Element | undefined} page - The `draw:page` or `presentation:notes` element
+   * @returns {Element[]} The shapes
+   * @private
+   */
+  private _shapes(page: Element | undefined): Element[] {
+    return this._childElements(page).flatMap((child) => {
+      if (child.tagName === "draw:g") return this._shapes(child);
+      if (!child.tagName.startsWith("draw:")) return [];
+      return [child];
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import OpenDocumentConverter from "./openDocument";
+import DocumentConverter from "./document";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+} from "../types/document";
+import type { DocumentNode } from "../types/documentModel";
+import { renderMarkdown } from "../utils/markdownRenderer";
+
+/**
+ * Converts OpenDocument text files (.odt) to Markdown format.
+ * Headings, emphasis, links, lists, tables and images are kept, footnotes and
+ * endnotes become Markdown footnotes at the end of the document.
+ *
+ * @extends OpenDocumentConverter
+ *
+ * @example
+ * ```typescript
+ * const odtConverter = new OdtConverter();
+ * let result = await odtConverter.convert('report.odt', {
+ *   fileExtension: '.odt'
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('report.odt');
+ * ```
+ */
+export default class OdtConverter extends OpenDocumentConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts an ODT file to Markdown format.
+   *
+   * @param {string} localPath - Path to the ODT file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @param {LlmCall} [options.llmCall] - Callback function for LLM image descriptions
+   * @returns {Promise<DocumentConverterResult>} The converted document with its title from the
+   *   document properties, or null if the file is not an ODT file
+   */
+  async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = options.fileExtension || "";
+    if (extension.toLowerCase() !== ".odt") {
+      return null;
+    }
+
+    try {
+      const opened = await this._openDocument(localPath, options);
+      if (!opened) return null;
+      const { content, context } = opened;
+      const body = content.getElementsByTagName("office:text")[0];
+      if (!body) return null;
+
+      const blocks = await this._blocks(this._childElements(body), context);
+      const { title, metadata } = await this._readMetadata(context.package);
+      const document: DocumentNode = {
+        type: "document",
+        title,
+        children: [...blocks, ...this._noteBlocks(context)],
+      };
+
+      return {
+        title,
+        textContent: renderMarkdown(document).trim(),
+        document,
+        metadata,
+      };
+    } catch (error) {
+      console.error("Error converting ODT file:", error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,638 @@
+import path from "path";
+import mime from "mime-types";
+import unzipper from "unzipper";
+import { DOMParser } from "xmldom";
+import DocumentConverter from "./document";
+import type { ConversionOptions, DocumentMetadata } from "../types/document";
+import type {
+  BlockNode,
+  ListItemNode,
+  ListNode,
+  TableNode,
+} from "../types/documentModel";
+import { escapeMarkdown, renderMarkdown } from "../utils/markdownRenderer";
+import { toIsoDate } from "../utils/metadata";
+import { describeImage } from "../utils/imageDescription";
+
+/**
+ * Presentation classes of frames which repeat on every slide and are left out.
+ */
+const SKIPPED_PRESENTATION_CLASSES = ["page-number", "date-time", "footer", "header"];
+
+// The parts of an OpenDocument package, the ZIP entries keyed by their path.
+export type OpenDocumentPackage = Map<string, unzipper.File>;
+
+// A paragraph or text style, with the properties inherited from its parent styles resolved.
+type OpenDocumentStyle = {
+  displayName: string;
+  bold: boolean;
+  italic: boolean;
+  // Outline level of paragraphs with the style, 0 if they are no headings
+  outlineLevel: number;
+};
+
+// The styles used to convert the content of an OpenDocument file.
+export type OpenDocumentStyles = {
+  styles: Map<string, OpenDocumentStyle>;
+  // Whether each level of a list style is numbered, by list style name
+  listStyles: Map<string, boolean[]>;
+};
+
+// State while converting the body of an OpenDocument file.
+export type OpenDocumentContext = {
+  package: OpenDocumentPackage;
+  styles: OpenDocumentStyles;
+  options: ConversionOptions;
+  // Footnotes and endnotes in document order
+  notes: string[];
+};
+
+/**
+ * Abstract base class for OpenDocument converters (.odt, .odp).
+ * Reads the package, its styles and metadata and converts the shared text content:
+ * headings, paragraphs with emphasis and links, lists, tables, notes, images and charts.
+ *
+ * @abstract
+ */
+export default abstract class OpenDocumentConverter extends DocumentConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Opens an OpenDocument package and parses its content and styles.
+   * @param {string} localPath - Path to the OpenDocument file
+   * @param {ConversionOptions} options - Conversion options
+   * @returns {Promise<{ content: Document; context: OpenDocumentContext } | null>} The content
+   *   and the conversion context, or null if the package has no content
+   * @protected
+   */
+  protected async _openDocument(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<{ content: Document; context: OpenDocumentContext } | null> {
+    const directory = await unzipper.Open.file(localPath);
+    const odf: OpenDocumentPackage = new Map(
+      directory.files.map((file) => [file.path, file])
+    );
+    const content = await this._readXml(odf, "content.xml");
+    if (!content) return null;
+    // Automatic styles of the content take precedence over those of headers and footers
+    const styles = this._readStyles([
+      await this._readXml(odf, "styles.xml"),
+      content,
+    ]);
+    return {
+      content,
+      context: { package: odf, styles, options, notes: [] },
+    };
+  }
+
+  /**
+   * Reads the title and metadata of the document from `meta.xml`.
+   * @param {OpenDocumentPackage} odf - The OpenDocument package
+   * @returns {Promise<{ title: string | null; metadata: DocumentMetadata }>} The title and metadata
+   * @protected
+   */
+  protected async _readMetadata(
+    odf: OpenDocumentPackage
+  ): Promise<{ title: string | null; metadata: DocumentMetadata }> {
+    const meta = await this._readXml(odf, "meta.xml");
+    const field = (tagName: string) =>
+      meta?.getElementsByTagName(tagName)[0]?.textContent?.trim() || undefined;
+    const statistics = meta?.getElementsByTagName("meta:document-statistic")[0];
+    const pageCount = Number(statistics?.getAttribute("meta:page-count"));
+
+    return {
+      title: field("dc:title") || null,
+      metadata: {
+        author: field("dc:creator") || field("meta:initial-creator"),
+        createdAt: toIsoDate(field("meta:creation-date")),
+        modifiedAt: toIsoDate(field("dc:date")),
+        language: field("dc:language"),
+        pageCount: pageCount || undefined,
+      },
+    };
+  }
+
+  /**
+   * Converts block level elements, e.g. the children of `office:text` or of a text box.
+   * @param {Element[]} elements - The elements
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {Promise<BlockNode[]>} The blocks
+   * @protected
+   */
+  protected async _blocks(
+    elements: Element[],
+    context: OpenDocumentContext
+  ): Promise<BlockNode[]> {
+    const blocks: BlockNode[] = [];
+    for (const element of elements) {
+      switch (element.tagName) {
+        case "text:h":
+        case "text:p": {
+          const frames: Element[] = [];
+          const text = this._inlineText(element, context, frames).trim();
+          const level = this._headingLevel(element, context);
+          if (text) {
+            blocks.push(
+              level
+                ? {
+                    type: "heading",
+                    level: Math.min(level, 6) as 1 | 2 | 3 | 4 | 5 | 6,
+                    text: text.replace(/\s+/g, " "),
+                  }
+                : { type: "paragraph", text }
+            );
+          }
+          for (const frame of frames) {
+            blocks.push(...(await this._frameBlocks(frame, context)));
+          }
+          break;
+        }
+        case "text:list":
+          // Numbered headings are wrapped in lists, keep them as headings
+          if (element.getElementsByTagName("text:h").length) {
+            for (const item of this._childElements(element)) {
+              blocks.push(...(await this._blocks(this._childElements(item), context)));
+            }
+          } else {
+            const list = await this._listNode(element, context, 0, null);
+            if (list.items.length) blocks.push(list);
+          }
+          break;
+        case "table:table":
+          blocks.push(await this._tableNode(element, context));
+          break;
+        case "draw:frame":
+        case "draw:a":
+          blocks.push(...(await this._frameBlocks(element, context)));
+          break;
+        case "text:section":
+        case "text:index-body":
+          blocks.push(...(await this._blocks(this._childElements(element), context)));
+          break;
+        case "text:table-of-content":
+        case "text:alphabetical-index":
+        case "text:illustration-index":
+        case "text:table-index":
+        case "text:bibliography": {
+          const body = this._childElements(element, "text:index-body")[0];
+          if (body) blocks.push(...(await this._blocks([body], context)));
+          break;
+        }
+      }
+    }
+    return blocks;
+  }
+
+  /**
+   * Converts the content of a frame: an image, a text box, a table or an embedded chart.
+   * @param {Element} frame - A `draw:frame` element, or a `draw:a` link around one
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {Promise<BlockNode[]>} The blocks of the frame
+   * @protected
+   */
+  protected async _frameBlocks(
+    frame: Element,
+    context: OpenDocumentContext
+  ): Promise<BlockNode[]> {
+    if (frame.tagName === "draw:a") {
+      const inner = this._childElements(frame, "draw:frame");
+      return (
+        await Promise.all(inner.map((child) => this._frameBlocks(child, context)))
+      ).flat();
+    }
+
+    const textBox = this._childElements(frame, "draw:text-box")[0];
+    if (textBox) return this._blocks(this._childElements(textBox), context);
+    const table = this._childElements(frame, "table:table")[0];
+    if (table) return [await this._tableNode(table, context)];
+    const object = this._childElements(frame, "draw:object")[0];
+    if (object) return this._chartBlocks(object, context);
+    const image = this._childElements(frame, "draw:image")[0];
+    if (image) return this._imageBlocks(frame, image, context);
+    return [];
+  }
+
+  /**
+   * Gets the text of a paragraph as inline Markdown. Bold and italic spans become emphasis,
+   * links become Markdown links and notes become footnote references. Plain text is
+   * escaped so characters like `*` or a leading `#` stay literal.
+   * @param {Element} element - The paragraph or span
+   * @param {OpenDocumentContext} context - The conversion context
+   * @param {Element[]} frames - Collects the frames anchored in the paragraph
+   * @returns {string} The text
+   * @protected
+   */
+  protected _inlineText(
+    element: Element,
+    context: OpenDocumentContext,
+    frames: Element[]
+  ): string {
+    let text = "";
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType === 3) {
+        // Consecutive white space collapses, `text:s` holds the spaces which don't
+        text += escapeMarkdown((child.nodeValue || "").replace(/\s+/g, " "));
+        continue;
+      }
+      if (child.nodeType !== 1) continue;
+      const node = child as Element;
+      switch (node.tagName) {
+        case "text:s":
+          text += " ".repeat(Number(node.getAttribute("text:c")) || 1);
+          break;
+        case "text:tab":
+          text += "\t";
+          break;
+        case "text:line-break":
+          text += "\n";
+          break;
+        case "text:span": {
+          const style = context.styles.styles.get(
+            node.getAttribute("text:style-name") || ""
+          );
+          let span = this._inlineText(node, context, frames);
+          if (style?.italic) span = this._emphasize(span, "_");
+          if (style?.bold) span = this._emphasize(span, "**");
+          text += span;
+          break;
+        }
+        case "text:a": {
+          const href = node.getAttribute("xlink:href") || "";
+          const label = this._inlineText(node, context, frames);
+          text += href && label.trim() ? `[${label.trim()}](${href})` : label;
+          break;
+        }
+        case "text:note": {
+          const body = this._childElements(node, "text:note-body")[0];
+          const noteText = this._childElements(body)
+            .map((paragraph) => this._inlineText(paragraph, context, []).trim())
+            .filter(Boolean)
+            .join(" ");
+          context.notes.push(noteText);
+          text += `[^${context.notes.length}]`;
+          break;
+        }
+        case "draw:frame":
+        case "draw:a":
+          frames.push(node);
+          break;
+        // Comments, tracked deletions and bookmarks don't belong to the text
+        case "office:annotation":
+        case "office:annotation-end":
+        case "text:change":
+        case "text:bookmark":
+        case "text:bookmark-start":
+        case "text:bookmark-end":
+        case "text:soft-page-break":
+          break;
+        default:
+          text += this._inlineText(node, context, frames);
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Converts a list to a list node, nested lists become children of their item.
+   * @param {Element} list - A `text:list` element
+   * @param {OpenDocumentContext} context - The conversion context
+   * @param {number} level - Nesting level of the list, 0 for top level lists
+   * @param {string | null} styleName - List style inherited from the enclosing list
+   * @returns {Promise<ListNode>} The list
+   * @protected
+   */
+  protected async _listNode(
+    list: Element,
+    context: OpenDocumentContext,
+    level: number,
+    styleName: string | null
+  ): Promise<ListNode> {
+    const listStyle = list.getAttribute("text:style-name") || styleName;
+    const items: ListItemNode[] = [];
+    for (const item of this._childElements(list)) {
+      if (item.tagName !== "text:list-item" && item.tagName !== "text:list-header")
+        continue;
+      let text = "";
+      const children: BlockNode[] = [];
+      for (const child of this._childElements(item)) {
+        if (child.tagName === "text:list") {
+          const nested = await this._listNode(child, context, level + 1, listStyle);
+          if (nested.items.length) children.push(nested);
+        } else if (!text && !children.length && child.tagName === "text:p") {
+          const frames: Element[] = [];
+          text = this._inlineText(child, context, frames).trim();
+          for (const frame of frames) {
+            children.push(...(await this._frameBlocks(frame, context)));
+          }
+        } else {
+          children.push(...(await this._blocks([child], context)));
+        }
+      }
+      if (!text && !children.length) continue;
+      items.push({
+        type: "listItem",
+        text,
+        ...(children.length ? { children } : {}),
+      });
+    }
+    return {
+      type: "list",
+      ordered: !!context.styles.listStyles.get(listStyle || "")?.[level],
+      items,
+    };
+  }
+
+  /**
+   * Converts a table to a table node, the first row becomes the header.
+   * Repeated cells are expanded and cells covered by merged cells are left empty.
+   * @param {Element} table - A `table:table` element
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {Promise<TableNode>} The table
+   * @protected
+   */
+  protected async _tableNode(
+    table: Element,
+    context: OpenDocumentContext
+  ): Promise<TableNode> {
+    const rowElements: Element[] = [];
+    const collectRows = (parent: Element) => {
+      for (const child of this._childElements(parent)) {
+        if (child.tagName === "table:table-row") rowElements.push(child);
+        else if (
+          ["table:table-header-rows", "table:table-rows", "table:table-row-group"].includes(
+            child.tagName
+          )
+        )
+          collectRows(child);
+      }
+    };
+    collectRows(table);
+
+    const rows: string[][] = [];
+    for (const rowElement of rowElements) {
+      const row: string[] = [];
+      for (const cell of this._childElements(rowElement)) {
+        if (cell.tagName !== "table:table-cell" && cell.tagName !== "table:covered-table-cell")
+          continue;
+        const blocks =
+          cell.tagName === "table:table-cell"
+            ? await this._blocks(this._childElements(cell), context)
+            : [];
+        const text = blocks
+          .map((block) => renderMarkdown(block).trim())
+          .filter(Boolean)
+          .join("\n");
+        // Spreadsheet-like tables repeat empty cells up to the last column
+        const repeated = Number(cell.getAttribute("table:number-columns-repeated")) || 1;
+        row.push(...Array(text ? repeated : Math.min(repeated, 64)).fill(text));
+      }
+      const repeated = Number(rowElement.getAttribute("table:number-rows-repeated")) || 1;
+      for (let i = 0; i < Math.min(repeated, 64); i++) rows.push(row);
+    }
+
+    // Drop trailing empty rows and columns, e.g. of chart data tables
+    while (rows.length && rows.at(-1)!.every((cell) => !cell)) rows.pop();
+    const columnCount = rows.reduce((max, row) => {
+      let count = row.length;
+      while (count && !row[count - 1]) count--;
+      return Math.max(max, count);
+    }, 0);
+    const padded = rows.map((row) =>
+      Array.from({ length: columnCount }, (_, i) => row[i] ?? "")
+    );
+    return { type: "table", header: padded[0] ?? null, rows: padded.slice(1) };
+  }
+
+  /**
+   * Converts an embedded chart to a heading and a table of its data,
+   * with a row per category and a column per series.
+   * @param {Element} object - A `draw:object` element
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {Promise<BlockNode[]>} The chart blocks, empty if the object is no chart
+   * @protected
+   */
+  protected async _chartBlocks(
+    object: Element,
+    context: OpenDocumentContext
+  ): Promise<BlockNode[]> {
+    const objectPath = path.posix.normalize(
+      (object.getAttribute("xlink:href") || "").replace(/^\.\//, "")
+    );
+    const chartContent = await this._readXml(
+      context.package,
+      `${objectPath}/content.xml`
+    );
+    const chart = chartContent?.getElementsByTagName("chart:chart")[0];
+    if (!chart) return [];
+
+    const titleElement = this._childElements(chart, "chart:title")[0];
+    const title = titleElement?.textContent?.replace(/\s+/g, " ").trim() || "";
+    const blocks: BlockNode[] = [
+      { type: "heading", level: 3, text: title ? `Chart: ${title}` : "Chart" },
+    ];
+    const data = chart.getElementsByTagName("table:table")[0];
+    if (data) {
+      const table = await this._tableNode(data, context);
+      if (table.header) table.header[0] ||= "Category";
+      if (table.header || table.rows.length) blocks.push(table);
+    }
+    return blocks;
+  }
+
+  /**
+   * Converts an image to an image node with the frame's description as alt text,
+   * or an LLM description if `llmCall` is configured.
+   * @param {Element} frame - The `draw:frame` element
+   * @param {Element} image - The `draw:image` element
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {Promise<BlockNode[]>} The image node
+   * @protected
+   */
+  protected async _imageBlocks(
+    frame: Element,
+    image: Element,
+    context: OpenDocumentContext
+  ): Promise<BlockNode[]> {
+    const imagePath = (image.getAttribute("xlink:href") || "").replace(/^\.\//, "");
+    let alt =
+      this._childElements(frame, "svg:desc")[0]?.textContent ||
+      this._childElements(frame, "svg:title")[0]?.textContent ||
+      frame.getAttribute("draw:name") ||
+      "";
+    const file = context.package.get(imagePath);
+    if (file && typeof context.options.llmCall === "function") {
+      alt =
+        (await describeImage(
+          await file.buffer(),
+          mime.lookup(imagePath) || "image/png",
+          context.options.llmCall
+        )) || alt;
+    }
+
+    return [
+      {
+        type: "image",
+        src: imagePath ? path.posix.basename(imagePath) : "",
+        alt: alt.replace(/\s+/g, " ").trim() || undefined,
+      },
+    ];
+  }
+
+  /**
+   * Builds the footnote definitions of the notes collected while converting.
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {BlockNode[]} A paragraph per note
+   * @protected
+   */
+  protected _noteBlocks(context: OpenDocumentContext): BlockNode[] {
+    return context.notes.map((note, index) => ({
+      type: "paragraph",
+      text: `[^${index + 1}]: ${note}`,
+    }));
+  }
+
+  /**
+   * Checks whether a frame or shape repeats on every slide, e.g. the slide number.
+   * @param {Element} element - The frame or shape
+   * @returns {boolean} True if the element is left out
+   * @protected
+   */
+  protected _isSkippedPresentationElement(element: Element): boolean {
+    return SKIPPED_PRESENTATION_CLASSES.includes(
+      element.getAttribute("presentation:class") || ""
+    );
+  }
+
+  /**
+   * Gets the heading level of a paragraph, from `text:h` or its paragraph style.
+   * @param {Element} paragraph - A `text:h` or `text:p` element
+   * @param {OpenDocumentContext} context - The conversion context
+   * @returns {number} The heading level, 0 if the paragraph is no heading
+   * @private
+   */
+  private _headingLevel(paragraph: Element, context: OpenDocumentContext): number {
+    const style = context.styles.styles.get(
+      paragraph.getAttribute("text:style-name") || ""
+    );
+    if (paragraph.tagName === "text:h") {
+      return (
+        Number(paragraph.getAttribute("text:outline-level")) ||
+        style?.outlineLevel ||
+        1
+      );
+    }
+    if (style?.outlineLevel) return style.outlineLevel;
+    return style && /^title$/i.test(style.displayName) ? 1 : 0;
+  }
+
+  /**
+   * Wraps text in an emphasis marker, keeping surrounding white space outside of it.
+   * @param {string} text - The text
+   * @param {string} marker - The marker, e.g. "**"
+   * @returns {string} The emphasized text
+   * @private
+   */
+  private _emphasize(text: string, marker: string): string {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (!match[2]) return text;
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+  }
+
+  /**
+   * Reads the paragraph, text and list styles of the style parts, later parts win.
+   * Inherited properties are resolved through the parent styles.
+   * @param {(Document | null)[]} parts - The parsed `styles.xml` and `content.xml`
+   * @returns {OpenDocumentStyles} The styles
+   * @private
+   */
+  private _readStyles(parts: (Document | null)[]): OpenDocumentStyles {
+    const elements = new Map<string, Element>();
+    const listStyles = new Map<string, boolean[]>();
+    for (const part of parts) {
+      for (const style of Array.from(part?.getElementsByTagName("style:style") || [])) {
+        elements.set(style.getAttribute("style:name") || "", style);
+      }
+      for (const listStyle of Array.from(part?.getElementsByTagName("text:list-style") || [])) {
+        const levels: boolean[] = [];
+        for (const level of this._childElements(listStyle)) {
+          const index = (Number(level.getAttribute("text:level")) || 1) - 1;
+          levels[index] = level.tagName === "text:list-level-style-number";
+        }
+        listStyles.set(listStyle.getAttribute("style:name") || "", levels);
+      }
+    }
+
+    const styles = new Map<string, OpenDocumentStyle>();
+    const resolve = (name: string, seen: Set<string>): OpenDocumentStyle | undefined => {
+      if (styles.has(name)) return styles.get(name);
+      const element = elements.get(name);
+      if (!element || seen.has(name)) return undefined;
+      seen.add(name);
+      const parent = resolve(element.getAttribute("style:parent-style-name") || "", seen);
+      const properties = this._childElements(element, "style:text-properties")[0];
+      const weight = properties?.getAttribute("fo:font-weight");
+      const fontStyle = properties?.getAttribute("fo:font-style");
+      const outlineLevel = element.getAttribute("style:default-outline-level");
+      const style: OpenDocumentStyle = {
+        displayName:
+          element.getAttribute("style:display-name") ||
+          (element.getAttribute("style:name") || "").replace(/_20_/g, " "),
+        bold: weight ? weight === "bold" || Number(weight) >= 600 : !!parent?.bold,
+        italic: fontStyle
+          ? fontStyle === "italic" || fontStyle === "oblique"
+          : !!parent?.italic,
+        outlineLevel:
+          outlineLevel !== null && outlineLevel !== ""
+            ? Number(outlineLevel) || 0
+            : parent?.outlineLevel || 0,
+      };
+      // Automatic styles are named P1, T1 etc., they take the name of the style they are based on
+      const isAutomatic =
+        (element.parentNode as Element | null)?.tagName === "office:automatic-styles";
+      if (parent && isAutomatic) style.displayName = parent.displayName;
+      styles.set(name, style);
+      return style;
+    };
+    for (const name of elements.keys()) resolve(name, new Set());
+    return { styles, listStyles };
+  }
+
+  /**
+   * Reads and parses an XML part of the package.
+   * @param {OpenDocumentPackage} odf - The OpenDocument package
+   * @param {string} partPath - Path of the part
+   * @returns {Promise<Document | null>} The parsed part, or null if it doesn't exist
+   * @protected
+   */
+  protected async _readXml(
+    odf: OpenDocumentPackage,
+    partPath: string
+  ): Promise<Document | null> {
+    const file = odf.get(partPath);
+    if (!file) return null;
+    const content = (await file.buffer()).toString("utf-8");
+    return new DOMParser().parseFromString(content, "text/xml");
+  }
+
+  /**
+   * Gets the child elements of an element, optionally only those with the given tag name.
+   * @param {Element | undefined} element - The parent element
+   * @param {string} [tagName] - Tag name including the namespace prefix, e.g. "text:p"
+   * @returns {Element[]} The child elements
+   * @protected
+   */
+  protected _childElements(
+    element: Element | undefined,
+    tagName?: string
+  ): Element[] {
+    return Array.from(element?.childNodes || []).filter(
+      (child): child is Element =>
+        child.nodeType === 1 &&
+        (!tagName || (child as Element).tagName === tagName)
+    );
+  }
+}
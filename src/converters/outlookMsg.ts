@@ -1,21 +1,46 @@
 import fs from "fs";
+import iconv from "iconv-lite";
+import XLSX from "xlsx";
 import kenjiunoMsgReader from "@kenjiuno/msgreader";
+import type { FieldsData } from "@kenjiuno/msgreader";
 import DocumentConverter from "../converters/document";
+import HtmlConverter from "./html";
+import RtfConverter from "./rtf";
 import type {
   DocumentConverterResult,
   ConversionOptions,
 } from "../types/document";
+import { toIsoDate } from "../utils/metadata";
+import { convertAttachment } from "../utils/attachments";
+import { decompressRtf } from "../utils/compressedRtf";
+import { renderMarkdown, shiftHeadings } from "../utils/markdownRenderer";
 
 // @kenjiuno/msgreader exports an object with key "default" for commonjs which we need to handle in our cjs version
 const MsgReader = ("default" in kenjiunoMsgReader
   ? kenjiunoMsgReader.default
   : kenjiunoMsgReader) as unknown as typeof kenjiunoMsgReader;
 
+/**
+ * Labels of the `PidTagImportance` values.
+ */
+const IMPORTANCE_LABELS = ["Low", "Normal", "High"];
+
+/**
+ * Lines which start the quoted message of a reply or forward, as written by Outlook,
+ * Gmail and other clients.
+ */
+const QUOTE_START_PATTERNS = [
+  /^-{2,}\s*(Original Message|Forwarded message)\s*-{2,}$/i,
+  /^On .+ wrote:$/,
+  /^_{10,}$/,
+];
+
 /**
  * Converts Outlook MSG files (.msg) to markdown format.
- * Extracts email metadata (sender, receiver, subject) and content including attachments.
+ * Extracts email metadata (sender, recipients, subject, dates, importance) and content including attachments.
+ * HTML bodies are converted through the HTML pipeline, compressed RTF bodies through RtfConverter.
  *
- * @extends DocumentConverter
+ * @extends HtmlConverter
  *
  * @example
  * ```typescript
@@ -29,7 +54,7 @@ const MsgReader = ("default" in kenjiunoMsgReader
  * let result = await converter.convert('outlook.msg');
  * ```
  */
-export default class OutlookMsgConverter extends DocumentConverter {
+export default class OutlookMsgConverter extends HtmlConverter {
   constructor(
     priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
   ) {
@@ -41,10 +66,12 @@ export default class OutlookMsgConverter extends DocumentConverter {
    *
    * @param {string} localPath - Path to the .msg file
    * @param {ConversionOptions} options - Conversion options including file extension
+   * @param {boolean} [options.convertAttachments] - Convert the attachments with the parent converters
+   * @param {boolean} [options.collapseQuotedReplies] - Replace the quoted messages of replies and forwards with a note
    * @returns {Promise<DocumentConverterResult>} Object containing email subject as title and formatted markdown as textContent
    * @throws {Error} If the file cannot be read or parsed
    */
-  async convert(
+  override async convert(
     localPath: string,
     options: ConversionOptions
   ): Promise<DocumentConverterResult> {
@@ -57,31 +84,95 @@ export default class OutlookMsgConverter extends DocumentConverter {
       const msgData = msgReader.getFileData();
 
       const subject = msgData.subject || "No Subject";
-      const sender = msgData.senderEmail || "Unknown Sender";
-      const receiver =
-        (msgData.recipients && msgData.recipients[0]?.email) ||
-        "Unknown Receiver";
-      const body = msgData.body || "No Message Body";
+      const senderEmail = msgData.senderSmtpAddress || msgData.senderEmail;
+      const sender = senderEmail
+        ? this._formatMailbox(msgData.senderName, senderEmail)
+        : msgData.senderName || "Unknown Sender";
+      const recipientsOfType = (type: "to" | "cc" | "bcc") =>
+        (msgData.recipients || []).filter(
+          (recipient) => (recipient.recipType || "to") === type
+        );
+      const formatRecipients = (recipients: FieldsData[]) =>
+        recipients
+          .map((recipient) =>
+            this._formatMailbox(
+              recipient.name,
+              recipient.smtpAddress || recipient.email
+            )
+          )
+          .filter((recipient) => recipient)
+          .join(", ");
+      const sentAt = toIsoDate(msgData.clientSubmitTime);
+      const receivedAt = toIsoDate(msgData.messageDeliveryTime);
+      const importance = this._readImportance(msgFileBuffer);
+      let body = this._body(msgData) || "No Message Body";
+      if (options.collapseQuotedReplies) body = this._collapseQuotedReply(body);
       const attachments = msgData.attachments || [];
 
       let mdContent = `# Email Message\n\n`;
       mdContent += `**From:** ${sender}\n\n`;
-      mdContent += `**To:** ${receiver}\n\n`;
+      mdContent += `**To:** ${formatRecipients(recipientsOfType("to")) || "Unknown Receiver"}\n\n`;
+      const cc = formatRecipients(recipientsOfType("cc"));
+      if (cc) mdContent += `**Cc:** ${cc}\n\n`;
+      const bcc = formatRecipients(recipientsOfType("bcc"));
+      if (bcc) mdContent += `**Bcc:** ${bcc}\n\n`;
       mdContent += `**Subject:** ${subject}\n\n`;
+      if (sentAt) mdContent += `**Sent:** ${sentAt}\n\n`;
+      if (receivedAt) mdContent += `**Received:** ${receivedAt}\n\n`;
+      if (importance !== null && importance !== 1)
+        mdContent += `**Importance:** ${IMPORTANCE_LABELS[importance]}\n\n`;
 
       // Add Attachments if available
       if (attachments.length > 0) {
         mdContent += `## Attachments:\n\n`;
         attachments.forEach((attachment) => {
-          mdContent += `- ${attachment.fileName} (${attachment.contentLength} bytes)\n`;
+          mdContent += `- ${this._attachmentName(attachment)} (${attachment.contentLength} bytes)\n`;
         });
       }
 
       mdContent += `\n## Content:\n${body}\n\n`;
 
+      if (options.convertAttachments) {
+        for (const attachment of attachments) {
+          // Hidden attachments are the inline pictures of the body
+          if (attachment.attachmentHidden) continue;
+          const name = this._attachmentName(attachment);
+          const { content } = msgReader.getAttachment(attachment);
+          const converted = await convertAttachment(name, content, options);
+          if (converted)
+            mdContent += `## Attachment: ${name}\n\n${this._nestedMarkdown(converted)}\n\n`;
+        }
+      }
+
+      const addressesOfType = (type: "to" | "cc" | "bcc") =>
+        recipientsOfType(type)
+          .map(
+            (recipient) =>
+              recipient.smtpAddress || recipient.email || recipient.name
+          )
+          .filter((recipient): recipient is string => !!recipient);
+
       return {
         title: subject,
         textContent: mdContent.trim(),
+        metadata: {
+          author: msgData.senderName || msgData.senderEmail || undefined,
+          createdAt: sentAt || toIsoDate(msgData.creationTime),
+          modifiedAt: toIsoDate(msgData.lastModificationTime),
+          extra: {
+            from: msgData.senderEmail || msgData.senderSmtpAddress,
+            to: addressesOfType("to"),
+            cc: addressesOfType("cc"),
+            bcc: addressesOfType("bcc"),
+            receivedAt,
+            importance:
+              importance !== null ? IMPORTANCE_LABELS[importance] : undefined,
+            messageId: msgData.messageId,
+            attachments: attachments.map((attachment) =>
+              this._attachmentName(attachment)
+            ),
+          },
+        },
       };
     } catch (error) {
       throw new Error(
@@ -91,4 +182,151 @@ export default class OutlookMsgConverter extends DocumentConverter {
       );
     }
   }
+
+  /**
+   * Converts the richest body of a message: the HTML body, the compressed RTF body
+   * (which often encapsulates HTML) or the plain text body.
+   * @param {FieldsData} msgData - The message
+   * @returns {string} The body as Markdown, empty if the message has no body
+   * @private
+   */
+  private _body(msgData: FieldsData): string {
+    try {
+      if (msgData.html?.length) {
+        // PidTagHtml is binary, in the code page of the message
+        const codePage = msgData.internetCodepage || msgData.messageCodepage;
+        const encoding =
+          codePage === 65001 ? "utf-8" : codePage ? `cp${codePage}` : "utf-8";
+        const html = iconv.decode(
+          Buffer.from(msgData.html),
+          iconv.encodingExists(encoding) ? encoding : "utf-8"
+        );
+        const text = this._nestedMarkdown(this._convert(html));
+        if (text) return text;
+      }
+      if (msgData.bodyHtml) {
+        const text = this._nestedMarkdown(this._convert(msgData.bodyHtml));
+        if (text) return text;
+      }
+      if (msgData.compressedRtf?.length) {
+        const rtf = decompressRtf(msgData.compressedRtf);
+        const text = this._nestedMarkdown(new RtfConverter().convertRtf(rtf));
+        if (text) return text;
+      }
+    } catch (error) {
+      // Fall back to the plain text body
+    }
+    return (msgData.body || "").trim();
+  }
+
+  /**
+   * Renders a converted body or attachment with its headings below the level 2 heading
+   * it is written under, `## Content:` or `## Attachment:`.
+   * @param {DocumentConverterResult} result - The converted body or attachment
+   * @returns {string} The Markdown, empty if nothing was converted
+   * @private
+   */
+  private _nestedMarkdown(result: DocumentConverterResult): string {
+    if (!result) return "";
+    const blocks = shiftHeadings(
+      result.document?.children || [{ type: "markdown", value: result.textContent }],
+      2
+    );
+    return renderMarkdown({ type: "document", title: null, children: blocks }).trim();
+  }
+
+  /**
+   * Replaces the quoted message of a reply or forward with a note. The quote starts with
+   * a line like "-----Original Message-----", "On ... wrote:", the "From:" and "Sent:"
+   * header block Outlook writes, or a block of `>` quoted lines which ends the body.
+   * @param {string} body - The body as Markdown
+   * @returns {string} The body without the quoted message
+   * @private
+   */
+  private _collapseQuotedReply(body: string): string {
+    const lines = body.split("\n");
+    const isHeader = (line: string | undefined, name: string) =>
+      new RegExp(`^(\\*\\*)?${name}:(\\*\\*)?\\s`).test((line || "").trim());
+    let start = lines.findIndex((line, index) => {
+      const text = line.trim();
+      if (QUOTE_START_PATTERNS.some((pattern) => pattern.test(text))) return true;
+      // Outlook's header block, the Sent or Date line follows the From line within a few lines
+      return (
+        index > 0 &&
+        isHeader(text, "From") &&
+        lines
+          .slice(index + 1, index + 6)
+          .some((next) => isHeader(next, "Sent") || isHeader(next, "Date"))
+      );
+    });
+    if (start === -1) {
+      // Trailing `>` quoted lines, e.g. of plain text replies
+      let end = lines.length;
+      while (end > 0 && !lines[end - 1]!.trim()) end--;
+      start = end;
+      while (start > 0 && /^>|^\s*$/.test(lines[start - 1]!)) start--;
+      while (start < end && !lines[start]!.trim()) start++;
+      if (start === end || !lines.slice(start, end).some((line) => line.startsWith(">")))
+        return body;
+    }
+    // Lines like "On ... wrote:" and the rule Outlook puts above its header block belong to the quote
+    let previous = start - 1;
+    while (previous >= 0 && !lines[previous]!.trim()) previous--;
+    if (previous >= 0 && /wrote:$|^(-{3,}|_{3,}|\*{3,})$/.test(lines[previous]!.trim()))
+      start = previous;
+    const reply = lines.slice(0, start).join("\n").trim();
+    return `${reply}\n\n_[Quoted message collapsed]_`.trim();
+  }
+
+  /**
+   * Gets the file name of an attachment. msgreader leaves it undefined for attachments
+   * without a name, which fall back to their display name.
+   * @param {FieldsData} attachment - The attachment
+   * @returns {string} The file name, or "attachment" if the attachment has no name
+   * @private
+   */
+  private _attachmentName(attachment: FieldsData): string {
+    return attachment.fileName || attachment.name || "attachment";
+  }
+
+  /**
+   * Formats a mailbox as `Name <address>`, or just the address if the name is missing
+   * or the address itself.
+   * @param {string | undefined} name - The display name
+   * @param {string | undefined} address - The email address
+   * @returns {string} The formatted mailbox, empty if both are missing
+   * @private
+   */
+  private _formatMailbox(name?: string, address?: string): string {
+    if (!address) return name || "";
+    if (!name || name === address) return address;
+    return `${name} <${address}>`;
+  }
+
+  /**
+   * Reads the importance of a message (`PidTagImportance`), which msgreader doesn't map,
+   * from the fixed size properties of the message's property stream.
+   * @param {Buffer} buffer - The MSG file
+   * @returns {number | null} 0 for low, 1 for normal and 2 for high importance,
+   *   or null if the message has no importance
+   * @private
+   */
+  private _readImportance(buffer: Buffer): number | null {
+    try {
+      const container = XLSX.CFB.read(buffer, { type: "buffer" });
+      const stream = XLSX.CFB.find(container, "/__properties_version1.0");
+      if (!stream?.content) return null;
+      const properties = Buffer.from(stream.content as Uint8Array);
+      // The property stream of the top level message starts with a 32 byte header
+      for (let offset = 32; offset + 16 <= properties.length; offset += 16) {
+        if (properties.readUInt32LE(offset) === 0x00170003) {
+          const importance = properties.readInt32LE(offset + 8);
+          return importance >= 0 && importance <= 2 ? importance : null;
+        }
+      }
+    } catch (error) {
+      // Not readable as compound file, msgreader reports the error
+    }
+    return null;
+  }
 }
@@ -4,7 +4,27 @@ import DocumentConverter from "../converters/document";
 import type {
   DocumentConverterResult,
   ConversionOptions,
+  DocumentMetadata,
 } from "../types/document";
+import type {
+  BlockNode,
+  DocumentNode,
+  SectionNode,
+} from "../types/documentModel";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import {
+  extractPageLayout,
+  layoutPagesToBlocks,
+  type PdfPageLayout,
+} from "../utils/pdfLayout";
+import { normalizeMetadataValue, toIsoDate } from "../utils/metadata";
+import { lastSelectedPage, parsePageRanges } from "../utils/pageRanges";
+import { rasterizePdfPage, recognizeText } from "../utils/ocr";
+
+/**
+ * Marks page content which was recognized with OCR rather than read from the text layer.
+ */
+const OCR_MARKER = "<!-- Text recognized with OCR -->";
 
 /**
  * Converts PDF files to Markdown format.
@@ -18,6 +38,19 @@ import type {
  *   fileExtension: '.pdf'
  * });
  *
+ * // Only convert the first five pages and page 9
+ * let excerpt = await pdfConverter.convert('document.pdf', {
+ *   fileExtension: '.pdf',
+ *   pages: '1-5,9'
+ * });
+ *
+ * // OCR every page of a scan in English and German
+ * let scan = await pdfConverter.convert('scan.pdf', {
+ *   fileExtension: '.pdf',
+ *   ocr: 'always',
+ *   ocrLanguages: ['eng', 'deu']
+ * });
+ *
  * // Using Markitdown
  * const converter = new Markitdown();
  * let result = await converter.convert('document.pdf');
@@ -31,12 +64,21 @@ export default class PdfConverter extends DocumentConverter {
   }
   /**
    * Converts a PDF file to Markdown format.
-   * Uses pdf-parse to Extract text from PDF file.
+   * Uses pdf-parse to read each page, every page becomes a section with a `## Page N`
+   * heading so the page of any text can be traced back. The text is rebuilt from the
+   * page layout: paragraphs are reflowed, headings, lists and ruled tables are recognized,
+   * two column pages are read column by column and running headers and footers are removed.
+   * Pages without a text layer, e.g. scans, are rendered with pdftoppm and run through
+   * tesseract (or the llmCall vision path), their text follows an OCR marker comment.
    *
    * @param {string} localPath - Path to the local PDF file
    * @param {ConversionOptions} options - Conversion options
+   * @param {string} [options.pages] - Pages to convert, e.g. "1-5,9" or "10-" (all pages by default)
+   * @param {number} [options.maxPages] - Maximum number of pages to convert
+   * @param {"auto" | "always" | "never"} [options.ocr] - When to OCR pages ("auto" by default)
+   * @param {string[]} [options.ocrLanguages] - Tesseract language codes used for OCR
    * @returns {Promise<DocumentConverterResult>} A promise that resolves to the conversion result
-   * @throws {Error} If the file cannot be read or parsed
+   * @throws {Error} If the page range is invalid
    */
   async convert(
     localPath: string,
@@ -46,18 +88,186 @@ export default class PdfConverter extends DocumentConverter {
     if (extension.toLowerCase() !== ".pdf") {
       return null;
     }
+
+    const pageRanges = options.pages ? parsePageRanges(options.pages) : null;
+    const maxPages = Math.max(0, options.maxPages || 0);
+    const isSelected = (pageNumber: number) =>
+      !pageRanges ||
+      pageRanges.some(
+        ([start, end]) => pageNumber >= start && pageNumber <= end
+      );
+    const lastPage = lastSelectedPage(pageRanges, maxPages);
+
     try {
       const buffer = fs.readFileSync(localPath);
+      const pages: PdfPageLayout[] = [];
       const data = await pdf(buffer, {
         version: "default",
+        // pdf-parse stops after `max` pages, 0 renders all of them
+        max: lastPage,
+        pagerender: async (pageData) => {
+          const pageNumber = pageData.pageIndex + 1;
+          if (!isSelected(pageNumber)) return "";
+          if (maxPages && pages.length >= maxPages) return "";
+          pages.push(await extractPageLayout(pageData));
+          return "";
+        },
       });
+
+      const title = data.info?.Title?.trim() || null;
+      const pageBlocks = layoutPagesToBlocks(pages);
+      const ocrMode = options.ocr || "auto";
+      const ocrPages = pages
+        .filter(
+          (page) =>
+            ocrMode === "always" ||
+            (ocrMode === "auto" && !this._hasTextLayer(page))
+        )
+        .map((page) => page.number);
+      const ocrBlocks = await this._recognizePages(
+        localPath,
+        ocrPages,
+        options
+      );
+      const document: DocumentNode = {
+        type: "document",
+        title,
+        children: pages.map(
+          (page, index): SectionNode => ({
+            type: "section",
+            kind: "page",
+            number: page.number,
+            children: [
+              { type: "heading", level: 2, text: `Page ${page.number}` },
+              ...(ocrBlocks.get(page.number) || pageBlocks[index] || []),
+            ],
+          })
+        ),
+      };
+
+      const metadata = this._getMetadata(data);
+      if (pages.length !== data.numpages)
+        metadata.extra = {
+          ...metadata.extra,
+          convertedPages: pages.map((page) => page.number),
+        };
+      if (ocrBlocks.size)
+        metadata.extra = { ...metadata.extra, ocrPages: [...ocrBlocks.keys()] };
+
       return {
-        title: null,
-        textContent: data.text,
+        title,
+        textContent: renderMarkdown(document),
+        document,
+        metadata,
       };
     } catch (error) {
       console.error("Error parsing PDF:", error);
       return null;
     }
   }
+
+  /**
+   * Checks whether a page has a text layer, scanned pages usually have none
+   * or only whitespace and stray glyphs.
+   *
+   * @param {PdfPageLayout} page - The page layout
+   * @returns {boolean} True if the page has any letters or digits
+   * @private
+   */
+  private _hasTextLayer(page: PdfPageLayout): boolean {
+    return page.elements.some(
+      (element) =>
+        element.kind === "table" || /[\p{L}\p{N}]/u.test(element.line.text)
+    );
+  }
+
+  /**
+   * Renders the given pages to images and recognizes their text.
+   * Pages without recognized text are skipped. Without pdftoppm no page can be rendered,
+   * so none is recognized, not even with `options.llmCall`.
+   *
+   * @param {string} localPath - Path to the local PDF file
+   * @param {number[]} pageNumbers - 1-based numbers of the pages to recognize
+   * @param {ConversionOptions} options - Conversion options
+   * @returns {Promise<Map<number, BlockNode[]>>} The blocks of each recognized page
+   * @private
+   */
+  private async _recognizePages(
+    localPath: string,
+    pageNumbers: number[],
+    options: ConversionOptions
+  ): Promise<Map<number, BlockNode[]>> {
+    const recognized = new Map<number, BlockNode[]>();
+    for (const pageNumber of pageNumbers) {
+      let imagePath: string;
+      try {
+        imagePath = await rasterizePdfPage(localPath, pageNumber);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          console.warn(
+            "pdftoppm (poppler-utils) is not installed, skipping OCR of all PDF pages, also with llmCall"
+          );
+          break;
+        }
+        console.error(`Error rendering PDF page ${pageNumber}:`, error);
+        continue;
+      }
+
+      try {
+        const text = await recognizeText(imagePath, {
+          languages: options.ocrLanguages,
+          llmCall: options.llmCall,
+        });
+        if (!text) continue;
+        recognized.set(pageNumber, [
+          { type: "markdown", value: OCR_MARKER },
+          ...text.split(/\n\s*\n/).flatMap((paragraph): BlockNode[] => {
+            const line = paragraph
+              .replace(/(\p{L})-\s*\n\s*(\p{Ll})/gu, "$1$2")
+              .replace(/\s*\n\s*/g, " ")
+              .trim();
+            return line ? [{ type: "paragraph", text: line }] : [];
+          }),
+        ]);
+      } finally {
+        fs.rmSync(imagePath, { force: true });
+      }
+    }
+    return recognized;
+  }
+
+  /**
+   * Extracts the metadata of a parsed PDF from its document information dictionary
+   * and XMP metadata. The raw values of both are kept in `extra`.
+   *
+   * @param {Awaited<ReturnType<typeof pdf>>} data - Result of pdf-parse
+   * @returns {DocumentMetadata} The metadata of the PDF
+   * @private
+   */
+  private _getMetadata(
+    data: Awaited<ReturnType<typeof pdf>>
+  ): DocumentMetadata {
+    const info: Record<string, any> = data.info || {};
+    const xmp: Record<string, any> =
+      typeof data.metadata?.getAll === "function" ? data.metadata.getAll() : {};
+
+    const extra: Record<string, unknown> = {};
+    const normalizedInfo = normalizeMetadataValue(info);
+    if (normalizedInfo && Object.keys(normalizedInfo).length)
+      extra.info = normalizedInfo;
+    if (Object.keys(xmp).length) extra.xmp = normalizeMetadataValue(xmp);
+
+    return {
+      author: info.Author || xmp["dc:creator"] || undefined,
+      createdAt: toIsoDate(
+        info.CreationDate || xmp["xmp:createdate"] || xmp["xap:createdate"]
+      ),
+      modifiedAt: toIsoDate(
+        info.ModDate || xmp["xmp:modifydate"] || xmp["xap:modifydate"]
+      ),
+      pageCount: data.numpages,
+      language: xmp["dc:language"] || undefined,
+      extra,
+    };
+  }
 }
@@ -0,0 +1,509 @@
+import fs from "fs";
+import XLSX from "xlsx";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+} from "../types/document";
+import type {
+  BlockNode,
+  DocumentNode,
+  ListItemNode,
+  ListNode,
+} from "../types/documentModel";
+import DocumentConverter from "./document";
+import { renderMarkdown } from "../utils/markdownRenderer";
+
+/**
+ * Record types of the PowerPoint binary format used to find the slide text, see [MS-PPT] 2.13.24.
+ */
+const RECORD_TYPES = {
+  DOCUMENT: 0x03e8,
+  SLIDE: 0x03ee,
+  SLIDE_ATOM: 0x03ef,
+  NOTES: 0x03f0,
+  SLIDE_PERSIST_ATOM: 0x03f3,
+  OUTLINE_TEXT_REF_ATOM: 0x0f9e,
+  TEXT_HEADER_ATOM: 0x0f9f,
+  TEXT_CHARS_ATOM: 0x0fa0,
+  STYLE_TEXT_PROP_ATOM: 0x0fa1,
+  TEXT_BYTES_ATOM: 0x0fa8,
+  SLIDE_LIST_WITH_TEXT: 0x0ff0,
+  USER_EDIT_ATOM: 0x0ff5,
+  PERSIST_DIRECTORY_ATOM: 0x1772,
+};
+
+/**
+ * Text types of TextHeaderAtom, see [MS-PPT] 2.13.33.
+ */
+const TEXT_TYPES = {
+  TITLE: 0,
+  BODY: 1,
+  NOTES: 2,
+  CENTER_BODY: 5,
+  CENTER_TITLE: 6,
+  HALF_BODY: 7,
+  QUARTER_BODY: 8,
+};
+
+// A record of the PowerPoint Document stream.
+type PptRecord = {
+  type: number;
+  instance: number;
+  // Offset of the record data, after the 8 byte header
+  start: number;
+  end: number;
+  isContainer: boolean;
+};
+
+/**
+ * Sizes of the optional fields of TextPFException by the bits of its mask, in field order,
+ * see [MS-PPT] 2.9.18. Tab stops (bit 20) have a variable size and are handled separately.
+ */
+const PARAGRAPH_FIELDS: [mask: number, size: number][] = [
+  [0x000f, 2], // bulletFlags
+  [0x0080, 2], // bulletChar
+  [0x0010, 2], // bulletFontRef
+  [0x0040, 2], // bulletSize
+  [0x0020, 4], // bulletColor
+  [0x0800, 2], // textAlignment
+  [0x1000, 2], // lineSpacing
+  [0x2000, 2], // spaceBefore
+  [0x4000, 2], // spaceAfter
+  [0x0100, 2], // leftMargin
+  [0x0400, 2], // indent
+  [0x8000, 2], // defaultTabSize
+];
+
+// A text of a slide with the type of the placeholder or shape holding it.
+type PptText = {
+  type: number;
+  text: string;
+  // Indent level of each paragraph, from the style atom following the text
+  levels: number[];
+};
+
+/**
+ * Converts legacy PowerPoint presentations (.ppt, PowerPoint 97-2003) to Markdown format.
+ * Reads the OLE2 compound file and converts each slide in presentation order, with its
+ * title as heading, body text as bullet lists, other text as paragraphs and speaker notes.
+ *
+ * @extends DocumentConverter
+ *
+ * @example
+ * ```typescript
+ * const pptConverter = new PptConverter();
+ * let result = await pptConverter.convert('presentation.ppt', {
+ *   fileExtension: '.ppt'
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('presentation.ppt');
+ * ```
+ */
+export default class PptConverter extends DocumentConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts a PPT file to Markdown format, with the same layout as PptxConverter:
+   * a `## Slide N: Title` heading per slide and speaker notes under `### Notes`.
+   *
+   * @param {string} localPath - Path to the PPT file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @returns {Promise<DocumentConverterResult>} The converted slides, or null if the file is not a readable PPT file
+   */
+  async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = options.fileExtension || "";
+    if (extension.toLowerCase() !== ".ppt") {
+      return null;
+    }
+
+    try {
+      const container = XLSX.CFB.read(fs.readFileSync(localPath), {
+        type: "buffer",
+      });
+      const stream = XLSX.CFB.find(container, "PowerPoint Document");
+      const currentUser = XLSX.CFB.find(container, "Current User");
+      if (!stream?.content || !currentUser?.content) return null;
+      const data = Buffer.from(stream.content as Uint8Array);
+
+      const { persistOffsets, documentOffset } = this._readPersistDirectory(
+        data,
+        Buffer.from(currentUser.content as Uint8Array)
+      );
+      const documentRecord = this._readRecord(data, documentOffset);
+      if (documentRecord?.type !== RECORD_TYPES.DOCUMENT) return null;
+
+      // Slide lists hold the persist ids of the slides (instance 0) and notes (instance 2)
+      const slideLists = this._children(data, documentRecord).filter(
+        (record) => record.type === RECORD_TYPES.SLIDE_LIST_WITH_TEXT
+      );
+      const slideList = slideLists.find((record) => record.instance === 0);
+      const notesList = slideLists.find((record) => record.instance === 2);
+
+      const notesBySlideId = new Map<number, PptText[]>();
+      for (const entry of notesList ? this._slideListEntries(data, notesList) : []) {
+        const notes = this._readRecord(data, persistOffsets.get(entry.persistId));
+        if (notes?.type !== RECORD_TYPES.NOTES) continue;
+        notesBySlideId.set(entry.slideId, [
+          ...entry.texts,
+          ...this._shapeTexts(data, notes),
+        ]);
+      }
+
+      const document: DocumentNode = { type: "document", title: null, children: [] };
+      const entries = slideList ? this._slideListEntries(data, slideList) : [];
+      entries.forEach((entry, index) => {
+        const slide = this._readRecord(data, persistOffsets.get(entry.persistId));
+        if (slide?.type !== RECORD_TYPES.SLIDE) return;
+        const texts = [...entry.texts, ...this._shapeTexts(data, slide)];
+        const notes = notesBySlideId.get(this._notesId(data, slide)) || [];
+        document.children.push(this._slideSection(index + 1, texts, notes));
+      });
+
+      return {
+        title: null,
+        textContent: renderMarkdown(document).trim(),
+        document,
+        metadata: { extra: { slideCount: entries.length } },
+      };
+    } catch (error) {
+      console.error("Error parsing PPT:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Builds the section of a slide from its texts.
+   * @param {number} number - 1-based slide number
+   * @param {PptText[]} texts - Texts of the slide
+   * @param {PptText[]} notes - Texts of the notes slide
+   * @returns {BlockNode} The slide section
+   * @private
+   */
+  private _slideSection(
+    number: number,
+    texts: PptText[],
+    notes: PptText[]
+  ): BlockNode {
+    const isTitle = (text: PptText) =>
+      text.type === TEXT_TYPES.TITLE || text.type === TEXT_TYPES.CENTER_TITLE;
+    const title = texts.find(isTitle)?.text.replace(/\s+/g, " ").trim() || "";
+
+    const blocks = texts
+      .filter((text) => !isTitle(text))
+      .flatMap((text) => this._textBlocks(text));
+    const noteBlocks = notes
+      .filter((text) => text.type === TEXT_TYPES.NOTES)
+      .flatMap((text) => this._textBlocks(text));
+
+    return {
+      type: "section",
+      kind: "slide",
+      name: title || undefined,
+      number,
+      children: [
+        {
+          type: "heading",
+          level: 2,
+          text: title ? `Slide ${number}: ${title}` : `Slide ${number}`,
+        },
+        ...blocks,
+        ...(noteBlocks.length
+          ? [{ type: "heading", level: 3, text: "Notes" } as const, ...noteBlocks]
+          : []),
+      ],
+    };
+  }
+
+  /**
+   * Converts a text to blocks. Body placeholder paragraphs become a bullet list,
+   * other paragraphs stay paragraphs.
+   * @param {PptText} text - The text, paragraphs are separated by carriage returns
+   * @returns {BlockNode[]} The blocks
+   * @private
+   */
+  private _textBlocks(text: PptText): BlockNode[] {
+    const paragraphs = text.text
+      .split("\r")
+      // Vertical tabs are line breaks within a paragraph
+      .map((paragraph, index) => ({
+        text: paragraph.replace(/[\v\s]+/g, " ").trim(),
+        level: text.levels[index] ?? 0,
+      }))
+      .filter((paragraph) => paragraph.text);
+    if (!paragraphs.length) return [];
+
+    const isBody = [
+      TEXT_TYPES.BODY,
+      TEXT_TYPES.HALF_BODY,
+      TEXT_TYPES.QUARTER_BODY,
+    ].includes(text.type);
+    if (isBody) return [this._listNode(paragraphs)];
+    return paragraphs.map((paragraph) => ({
+      type: "paragraph",
+      text: paragraph.text,
+    }));
+  }
+
+  /**
+   * Builds a bullet list from paragraphs, nesting the deeper indent levels.
+   * @param {{ text: string; level: number }[]} paragraphs - The paragraphs of a body text
+   * @returns {ListNode} The list
+   * @private
+   */
+  private _listNode(paragraphs: { text: string; level: number }[]): ListNode {
+    const level = paragraphs.reduce(
+      (min, paragraph) => Math.min(min, paragraph.level),
+      Infinity
+    );
+    const items: ListItemNode[] = [];
+    for (let i = 0; i < paragraphs.length; ) {
+      const paragraph = paragraphs[i]!;
+      let end = i + 1;
+      while (paragraphs[end] && paragraphs[end]!.level > level) end++;
+      const nested = paragraphs.slice(i + 1, end);
+      // Deeper paragraphs before the first item of the level get an item of their own
+      const text = paragraph.level === level ? paragraph.text : "";
+      const children = paragraph.level === level ? nested : paragraphs.slice(i, end);
+      items.push({
+        type: "listItem",
+        text,
+        ...(children.length ? { children: [this._listNode(children)] } : {}),
+      });
+      i = end;
+    }
+    return { type: "list", ordered: false, items };
+  }
+
+  /**
+   * Reads the indent level of each paragraph from a StyleTextPropAtom.
+   * @param {Buffer} data - The PowerPoint Document stream
+   * @param {PptRecord} record - The StyleTextPropAtom following the text
+   * @param {string} text - The text the atom applies to
+   * @returns {number[]} The indent level of each paragraph
+   * @private
+   */
+  private _paragraphLevels(data: Buffer, record: PptRecord, text: string): number[] {
+    const levels: number[] = [];
+    const paragraphCount = text.split("\r").length;
+    // The paragraph runs come first, each with its character count and indent level
+    let position = record.start;
+    let covered = 0;
+    while (covered <= text.length && position + 10 <= record.end) {
+      const count = data.readUInt32LE(position);
+      const level = data.readUInt16LE(position + 4);
+      const mask = data.readUInt32LE(position + 6);
+      position += 10;
+      for (const [bits, size] of PARAGRAPH_FIELDS) {
+        if (mask & bits) position += size;
+      }
+      if (mask & 0x100000) {
+        position += 2 + data.readUInt16LE(position) * 4;
+      }
+      // fontAlign, the wrap flags and textDirection
+      if (mask & 0x010000) position += 2;
+      if (mask & 0x0e0000) position += 2;
+      if (mask & 0x200000) position += 2;
+
+      const runText = text.slice(covered, covered + count);
+      const runParagraphs = Math.max(1, runText.split("\r").length - (runText.endsWith("\r") ? 1 : 0));
+      for (let i = 0; i < runParagraphs && levels.length < paragraphCount; i++) {
+        levels.push(level);
+      }
+      covered += count;
+      if (!count) break;
+    }
+    return levels;
+  }
+
+  /**
+   * Reads the persist directory, which maps persist ids to offsets of records in the
+   * PowerPoint Document stream, by following the user edits from the current one.
+   * @param {Buffer} data - The PowerPoint Document stream
+   * @param {Buffer} currentUser - The Current User stream
+   * @returns {Object} The offsets by persist id and the offset of the document record
+   * @private
+   */
+  private _readPersistDirectory(
+    data: Buffer,
+    currentUser: Buffer
+  ): { persistOffsets: Map<number, number>; documentOffset: number } {
+    const persistOffsets = new Map<number, number>();
+    let documentPersistId: number | null = null;
+    let editOffset = currentUser.readUInt32LE(16);
+    const visited = new Set<number>();
+
+    while (!visited.has(editOffset)) {
+      visited.add(editOffset);
+      const userEdit = this._readRecord(data, editOffset);
+      if (userEdit?.type !== RECORD_TYPES.USER_EDIT_ATOM) break;
+      // The most recent edit comes first and wins
+      documentPersistId ??= data.readUInt32LE(userEdit.start + 16);
+
+      const directory = this._readRecord(
+        data,
+        data.readUInt32LE(userEdit.start + 12)
+      );
+      if (directory?.type === RECORD_TYPES.PERSIST_DIRECTORY_ATOM) {
+        let position = directory.start;
+        while (position + 4 <= directory.end) {
+          const entry = data.readUInt32LE(position);
+          const persistId = entry & 0xfffff;
+          const count = entry >>> 20;
+          position += 4;
+          for (let i = 0; i < count && position + 4 <= directory.end; i++) {
+            if (!persistOffsets.has(persistId + i))
+              persistOffsets.set(persistId + i, data.readUInt32LE(position));
+            position += 4;
+          }
+        }
+      }
+
+      const lastEdit = data.readUInt32LE(userEdit.start + 8);
+      if (!lastEdit) break;
+      editOffset = lastEdit;
+    }
+
+    return {
+      persistOffsets,
+      documentOffset: persistOffsets.get(documentPersistId ?? 0) ?? 0,
+    };
+  }
+
+  /**
+   * Lists the slides of a slide list with the texts stored in the list itself.
+   * @param {Buffer} data - The PowerPoint Document stream
+   * @param {PptRecord} slideList - A SlideListWithText record
+   * @returns {Object[]} The persist id, slide id and texts of each slide
+   * @private
+   */
+  private _slideListEntries(
+    data: Buffer,
+    slideList: PptRecord
+  ): { persistId: number; slideId: number; texts: PptText[] }[] {
+    const entries: { persistId: number; slideId: number; texts: PptText[] }[] = [];
+    let textType = TEXT_TYPES.BODY;
+    for (const record of this._children(data, slideList)) {
+      if (record.type === RECORD_TYPES.SLIDE_PERSIST_ATOM) {
+        entries.push({
+          persistId: data.readUInt32LE(record.start),
+          slideId: data.readUInt32LE(record.start + 12),
+          texts: [],
+        });
+      } else if (record.type === RECORD_TYPES.TEXT_HEADER_ATOM) {
+        textType = data.readUInt32LE(record.start);
+      } else if (record.type === RECORD_TYPES.STYLE_TEXT_PROP_ATOM) {
+        const text = entries.at(-1)?.texts.at(-1);
+        if (text) text.levels = this._paragraphLevels(data, record, text.text);
+      } else {
+        const text = this._atomText(data, record);
+        if (text !== null)
+          entries.at(-1)?.texts.push({ type: textType, text, levels: [] });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Collects the texts stored in the shapes of a slide or notes container.
+   * @param {Buffer} data - The PowerPoint Document stream
+   * @param {PptRecord} container - The slide or notes record
+   * @returns {PptText[]} The texts in drawing order
+   * @private
+   */
+  private _shapeTexts(data: Buffer, container: PptRecord): PptText[] {
+    const texts: PptText[] = [];
+    let textType = TEXT_TYPES.BODY;
+    const visit = (record: PptRecord) => {
+      if (record.isContainer) {
+        this._children(data, record).forEach(visit);
+      } else if (record.type === RECORD_TYPES.TEXT_HEADER_ATOM) {
+        textType = data.readUInt32LE(record.start);
+      } else if (record.type === RECORD_TYPES.STYLE_TEXT_PROP_ATOM) {
+        const text = texts.at(-1);
+        if (text) text.levels = this._paragraphLevels(data, record, text.text);
+      } else {
+        const text = this._atomText(data, record);
+        if (text !== null) texts.push({ type: textType, text, levels: [] });
+      }
+    };
+    this._children(data, container).forEach(visit);
+    return texts;
+  }
+
+  /**
+   * Gets the notes id of a slide from its SlideAtom.
+   * @param {Buffer} data - The PowerPoint Document stream
+   * @param {PptRecord} slide - The slide record
+   * @returns {number} The slide id of the notes, 0 if the slide has no notes
+   * @private
+   */
+  private _notesId(data: Buffer, slide: PptRecord): number {
+    const slideAtom = this._children(data, slide).find(
+      (record) => record.type === RECORD_TYPES.SLIDE_ATOM
+    );
+    return slideAtom ? data.readUInt32LE(slideAtom.start + 16) : 0;
+  }
+
+  /**
+   * Reads the text of a TextCharsAtom (UTF-16) or TextBytesAtom (Latin-1).
+   * @param {Buffer} data - The PowerPoint Document stream
+   * @param {PptRecord} record - The record
+   * @returns {string | null} The text, or null if the record is no text atom
+   * @private
+   */
+  private _atomText(data: Buffer, record: PptRecord): string | null {
+    const bytes = data.subarray(record.start, record.end);
+    if (record.type === RECORD_TYPES.TEXT_CHARS_ATOM)
+      return bytes.toString("utf16le");
+    if (record.type === RECORD_TYPES.TEXT_BYTES_ATOM)
+      return bytes.toString("latin1");
+    return null;
+  }
+
+  /**
+   * Reads the header of the record at an offset.
+   * @param {Buffer} data - The PowerPoint Document stream
+   * @param {number | undefined} offset - Offset of the record
+   * @returns {PptRecord | null} The record, or null if the offset is out of bounds
+   * @private
+   */
+  private _readRecord(data: Buffer, offset: number | undefined): PptRecord | null {
+    if (offset === undefined || offset + 8 > data.length) return null;
+    const versionAndInstance = data.readUInt16LE(offset);
+    const start = offset + 8;
+    return {
+      type: data.readUInt16LE(offset + 2),
+      instance: versionAndInstance >> 4,
+      start,
+      end: Math.min(data.length, start + data.readUInt32LE(offset + 4)),
+      isContainer: (versionAndInstance & 0x0f) === 0x0f,
+    };
+  }
+
+  /**
+   * Lists the child records of a container record.
+   * @param {Buffer} data - The PowerPoint Document stream
+   * @param {PptRecord} container - The container record
+   * @returns {PptRecord[]} The child records
+   * @private
+   */
+  private _children(data: Buffer, container: PptRecord): PptRecord[] {
+    const children: PptRecord[] = [];
+    let offset = container.start;
+    while (offset + 8 <= container.end) {
+      const record = this._readRecord(data, offset);
+      if (!record) break;
+      children.push(record);
+      offset = record.end;
+    }
+    return children;
+  }
+}
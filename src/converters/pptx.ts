@@ -1,19 +1,57 @@
-import nodePptxParser from "node-pptx-parser";
+import path from "path";
+import mime from "mime-types";
+import unzipper from "unzipper";
+import { DOMParser } from "xmldom";
 import type {
   ConversionOptions,
   DocumentConverterResult,
 } from "../types/document";
+import type {
+  BlockNode,
+  DocumentNode,
+  ListItemNode,
+  ListNode,
+  TableNode,
+} from "../types/documentModel";
+import type { LlmCall } from "../types/markitdown";
 import DocumentConverter from "./document";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import { describeImage } from "../utils/imageDescription";
 
-// node-pptx-parser exports an object with key "default" for commonjs which we need to handle in our cjs version just like @kenjiuno/msgreader package.
-const PptxParser = ("default" in nodePptxParser
-  ? nodePptxParser.default
-  : nodePptxParser) as unknown as typeof nodePptxParser;
+/**
+ * Placeholder types which hold the slide title.
+ */
+const TITLE_PLACEHOLDERS = ["title", "ctrTitle"];
+
+/**
+ * Placeholder types which repeat on every slide and are left out.
+ */
+const SKIPPED_PLACEHOLDERS = ["dt", "sldNum", "hdr"];
+
+/**
+ * Placeholder types whose paragraphs are bulleted unless they opt out with `a:buNone`.
+ */
+const BODY_PLACEHOLDERS = ["body", "obj"];
+
+// A part of the PPTX package, the ZIP entries keyed by their path.
+type PptxPackage = Map<string, unzipper.File>;
+
+// A relationship of a part, keyed by its id in PptxRelationships.
+type PptxRelationship = { type: string; target: string };
+type PptxRelationships = Map<string, PptxRelationship>;
+
+// A paragraph of a text body, with its bullet and indentation level.
+type TextParagraph = {
+  text: string;
+  level: number;
+  bullet: "none" | "bullet" | "number";
+};
 
 /**
  * Converts PowerPoint PPTX files to markdown format.
- * Only supports .pptx files (modern PowerPoint format), not .ppt files.
- * Each slide is converted to a markdown section with its text content preserved.
+ * Only supports .pptx files (modern PowerPoint format), .ppt files are handled by PptConverter.
+ * Each slide is parsed from its XML and becomes a section with the slide title as heading,
+ * followed by the text, bullet lists, tables, charts, pictures and speaker notes of the slide.
  *
  * @extends DocumentConverter
  *
@@ -37,12 +75,18 @@ export default class PptxConverter extends DocumentConverter {
   }
   /**
    * Converts a PPTX file to markdown format.
-   * Extracts text from each slide and organizes them in order.
-   * Slides are sorted by their ID to maintain presentation order.
+   * Slides are converted in presentation order (`ppt/presentation.xml`):
+   * - The title placeholder becomes the `## Slide N: Title` heading
+   * - Body placeholders and bulleted text become nested lists by indent level
+   * - Tables become Markdown tables, charts list their series data in a table
+   * - Pictures become images with their alt text, or a description by `llmCall` with `pptxImages: "describe"`
+   * - Speaker notes are added under a `### Notes` heading
    *
    * @param {string} localPath - Path to the PPTX file
    * @param {ConversionOptions} options - Conversion options including file extension
-   * @returns {Promise<DocumentConverterResult>} Object containing formatted markdown as textContent (title is null), or returns null for unsupported file types (.ppt files or non-PowerPoint files)
+   * @param {string} [options.pptxImages] - Keep the "alt" text of pictures or "describe" them
+   * @param {LlmCall} [options.llmCall] - Callback function for LLM picture descriptions
+   * @returns {Promise<DocumentConverterResult>} Object containing formatted markdown as textContent (title is null), or returns null for non-PPTX files
    * @throws {Error} If the file cannot be read or parsed
    */
   async convert(
@@ -51,34 +95,528 @@ export default class PptxConverter extends DocumentConverter {
   ): Promise<DocumentConverterResult> {
     // Bail if not an PPTX file
     const extension = options.fileExtension || "";
-    if (extension.toLowerCase() === ".ppt") {
-      console.warn("PPT files are not supported. Please use PPTX files.");
-      return null;
-    }
     if (extension.toLowerCase() !== ".pptx") {
       return null;
     }
 
-    const pptxParser = new PptxParser(localPath);
-    const pptxSlides = await pptxParser.extractText();
+    const directory = await unzipper.Open.file(localPath);
+    const pptx: PptxPackage = new Map(
+      directory.files.map((file) => [file.path, file])
+    );
 
-    const sortedSlides = pptxSlides.sort((a, b) => {
-      const aId = a.id.substring(3); // remove the "rId" prefix
-      const bId = b.id.substring(3); // remove the "rId" prefix
-      return Number(aId) - Number(bId);
-    });
-    let mdContent = "";
+    const presentationPath = "ppt/presentation.xml";
+    const presentation = await this._readXml(pptx, presentationPath);
+    const presentationRels = await this._readRelationships(
+      pptx,
+      presentationPath
+    );
+    if (!presentation) return null;
 
-    sortedSlides.forEach((slide, index) => {
-      const slideName =
-        slide.path?.split("/").pop()?.split(".")[0] || `Slide ${index}`;
-      mdContent += `\n## ${slideName} - ${slide.id}\n`;
-      mdContent += slide.text ? slide.text : "Empty Slide...";
+    // Slide order is the order of p:sldId elements, not the order of their ids
+    const slidePaths = Array.from(
+      presentation.getElementsByTagName("p:sldId")
+    ).flatMap((slideId) => {
+      const relationship = presentationRels.get(
+        slideId.getAttribute("r:id") || ""
+      );
+      return relationship ? [relationship.target] : [];
     });
 
+    const document: DocumentNode = { type: "document", title: null, children: [] };
+    for (const [index, slidePath] of slidePaths.entries()) {
+      const number = index + 1;
+      const slide = await this._readXml(pptx, slidePath);
+      if (!slide) continue;
+      const rels = await this._readRelationships(pptx, slidePath);
+
+      let title = "";
+      const blocks: BlockNode[] = [];
+      for (const shape of this._shapes(slide)) {
+        const placeholder = this._placeholderType(shape);
+        if (placeholder && TITLE_PLACEHOLDERS.includes(placeholder) && !title) {
+          title = this._textParagraphs(shape)
+            .map((paragraph) => paragraph.text)
+            .join(" ")
+            .trim();
+          continue;
+        }
+        blocks.push(
+          ...(await this._shapeBlocks(shape, placeholder, rels, pptx, options))
+        );
+      }
+
+      const notes = await this._notesBlocks(rels, pptx);
+      document.children.push({
+        type: "section",
+        kind: "slide",
+        name: title || undefined,
+        number,
+        children: [
+          {
+            type: "heading",
+            level: 2,
+            text: title ? `Slide ${number}: ${title}` : `Slide ${number}`,
+          },
+          ...blocks,
+          ...(notes.length
+            ? [{ type: "heading", level: 3, text: "Notes" } as const, ...notes]
+            : []),
+        ],
+      });
+    }
+
     return {
       title: null,
-      textContent: mdContent.replace(/\n\n\n/g, "\n").trim(),
+      textContent: renderMarkdown(document).trim(),
+      document,
+      metadata: { extra: { slideCount: slidePaths.length } },
+    };
+  }
+
+  /**
+   * Converts a shape of a slide to blocks.
+   *
+   * @param {Element} shape - A `p:sp`, `p:graphicFrame` or `p:pic` element
+   * @param {string | null} placeholder - The placeholder type of the shape, if any
+   * @param {PptxRelationships} rels - Relationships of the slide
+   * @param {PptxPackage} pptx - The PPTX package
+   * @param {ConversionOptions} options - Conversion options
+   * @returns {Promise<BlockNode[]>} The blocks of the shape
+   * @private
+   */
+  private async _shapeBlocks(
+    shape: Element,
+    placeholder: string | null,
+    rels: PptxRelationships,
+    pptx: PptxPackage,
+    options: ConversionOptions
+  ): Promise<BlockNode[]> {
+    switch (shape.tagName) {
+      case "p:sp":
+        if (placeholder && SKIPPED_PLACEHOLDERS.includes(placeholder))
+          return [];
+        return this._textBlocks(
+          this._textParagraphs(
+            shape,
+            !!placeholder && BODY_PLACEHOLDERS.includes(placeholder)
+          )
+        );
+      case "p:pic":
+        return this._pictureBlocks(
+          shape,
+          rels,
+          pptx,
+          options.pptxImages === "describe" ? options.llmCall : undefined
+        );
+      case "p:graphicFrame": {
+        const table = shape.getElementsByTagName("a:tbl")[0];
+        if (table) return [this._tableNode(table)];
+        const chart = shape.getElementsByTagName("c:chart")[0];
+        const chartRel = rels.get(chart?.getAttribute("r:id") || "");
+        if (chartRel) return this._chartBlocks(chartRel.target, pptx);
+        const diagram = shape.getElementsByTagName("dgm:relIds")[0];
+        const diagramRel = rels.get(diagram?.getAttribute("r:dm") || "");
+        if (diagramRel) return this._diagramBlocks(diagramRel.target, pptx);
+        return [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Lists the shapes of a slide in drawing order, flattening groups.
+   * @param {Document} slide - The slide XML
+   * @returns {Element[]} The `p:sp`, `p:pic` and `p:graphicFrame` elements
+   * @private
+   */
+  private _shapes(slide: Document): Element[] {
+    const collect = (group: Element | undefined): Element[] =>
+      this._childElements(group).flatMap((child) =>
+        child.tagName === "p:grpSp" ? collect(child) : [child]
+      );
+    return collect(slide.getElementsByTagName("p:spTree")[0]);
+  }
+
+  /**
+   * Gets the placeholder type of a shape. Placeholders without a type are body placeholders.
+   * @param {Element} shape - The shape
+   * @returns {string | null} The placeholder type, or null if the shape is no placeholder
+   * @private
+   */
+  private _placeholderType(shape: Element): string | null {
+    const placeholder = shape.getElementsByTagName("p:ph")[0];
+    if (!placeholder) return null;
+    return placeholder.getAttribute("type") || "body";
+  }
+
+  /**
+   * Reads the paragraphs of a shape's text body with their bullets and indent levels.
+   * @param {Element} shape - The shape
+   * @param {boolean} [bulleted=false] - Whether paragraphs are bulleted by default
+   * @returns {TextParagraph[]} The non-empty paragraphs
+   * @private
+   */
+  private _textParagraphs(
+    shape: Element,
+    bulleted: boolean = false
+  ): TextParagraph[] {
+    const body = shape.getElementsByTagName("p:txBody")[0];
+    return this._childElements(body, "a:p").flatMap((paragraph) => {
+      const text = this._paragraphText(paragraph);
+      if (!text) return [];
+      const properties = this._childElements(paragraph, "a:pPr")[0];
+      const propertyNames = this._childElements(properties).map(
+        (child) => child.tagName
+      );
+      const bullet = propertyNames.includes("a:buNone")
+        ? "none"
+        : propertyNames.includes("a:buAutoNum")
+        ? "number"
+        : bulleted || propertyNames.includes("a:buChar")
+        ? "bullet"
+        : "none";
+      return [
+        {
+          text,
+          level: Number(properties?.getAttribute("lvl")) || 0,
+          bullet,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Gets the text of a paragraph, line breaks become spaces.
+   * @param {Element} paragraph - An `a:p` element
+   * @returns {string} The trimmed text
+   * @private
+   */
+  private _paragraphText(paragraph: Element): string {
+    return this._childElements(paragraph)
+      .map((child) => {
+        if (child.tagName === "a:br") return " ";
+        if (child.tagName !== "a:r" && child.tagName !== "a:fld") return "";
+        return this._childElements(child, "a:t")
+          .map((text) => text.textContent || "")
+          .join("");
+      })
+      .join("")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  /**
+   * Groups paragraphs into paragraph blocks and (nested) lists.
+   * @param {TextParagraph[]} paragraphs - The paragraphs of a text body
+   * @returns {BlockNode[]} The blocks
+   * @private
+   */
+  private _textBlocks(paragraphs: TextParagraph[]): BlockNode[] {
+    const blocks: BlockNode[] = [];
+    for (let i = 0; i < paragraphs.length; ) {
+      const paragraph = paragraphs[i]!;
+      if (paragraph.bullet === "none") {
+        blocks.push({ type: "paragraph", text: paragraph.text });
+        i++;
+        continue;
+      }
+      let end = i;
+      while (paragraphs[end] && paragraphs[end]!.bullet !== "none") end++;
+      blocks.push(this._listNode(paragraphs.slice(i, end)));
+      i = end;
+    }
+    return blocks;
+  }
+
+  /**
+   * Builds a list from bulleted paragraphs, deeper levels become nested lists
+   * of the item before them.
+   * @param {TextParagraph[]} paragraphs - Consecutive bulleted paragraphs
+   * @returns {ListNode} The list
+   * @private
+   */
+  private _listNode(paragraphs: TextParagraph[]): ListNode {
+    const level = Math.min(...paragraphs.map((paragraph) => paragraph.level));
+    const items: ListItemNode[] = [];
+    for (let i = 0; i < paragraphs.length; ) {
+      const paragraph = paragraphs[i]!;
+      let end = i + 1;
+      while (paragraphs[end] && paragraphs[end]!.level > level) end++;
+      const nested = paragraphs.slice(i + 1, end);
+      // Deeper paragraphs before the first item of the level get an item of their own
+      const text = paragraph.level === level ? paragraph.text : "";
+      const children = paragraph.level === level ? nested : paragraphs.slice(i, end);
+      items.push({
+        type: "listItem",
+        text,
+        ...(children.length ? { children: [this._listNode(children)] } : {}),
+      });
+      i = end;
+    }
+    return {
+      type: "list",
+      ordered: paragraphs[0]!.bullet === "number",
+      items,
     };
   }
+
+  /**
+   * Converts an `a:tbl` element to a table, the first row becomes the header.
+   * Cells covered by merged cells are left empty.
+   * @param {Element} table - The table element
+   * @returns {TableNode} The table
+   * @private
+   */
+  private _tableNode(table: Element): TableNode {
+    const rows = this._childElements(table, "a:tr").map((row) =>
+      this._childElements(row, "a:tc").map((cell) => {
+        if (cell.getAttribute("hMerge") || cell.getAttribute("vMerge"))
+          return "";
+        const body = this._childElements(cell, "a:txBody")[0];
+        return this._childElements(body, "a:p")
+          .map((paragraph) => this._paragraphText(paragraph))
+          .filter(Boolean)
+          .join("\n");
+      })
+    );
+    return { type: "table", header: rows[0] ?? null, rows: rows.slice(1) };
+  }
+
+  /**
+   * Converts a chart part to a heading and a table of its series data,
+   * with a row per category and a column per series.
+   * @param {string} chartPath - Path of the chart part
+   * @param {PptxPackage} pptx - The PPTX package
+   * @returns {Promise<BlockNode[]>} The chart blocks
+   * @private
+   */
+  private async _chartBlocks(
+    chartPath: string,
+    pptx: PptxPackage
+  ): Promise<BlockNode[]> {
+    const chart = await this._readXml(pptx, chartPath);
+    if (!chart) return [];
+
+    const titleElement = chart.getElementsByTagName("c:title")[0];
+    const title = titleElement
+      ? Array.from(titleElement.getElementsByTagName("a:t"))
+          .map((text) => text.textContent || "")
+          .join("")
+          .trim()
+      : "";
+
+    const cachedValues = (element: Element | undefined) => {
+      const values: string[] = [];
+      for (const point of Array.from(
+        element?.getElementsByTagName("c:pt") || []
+      )) {
+        const value = point.getElementsByTagName("c:v")[0]?.textContent || "";
+        values[Number(point.getAttribute("idx")) || 0] = value;
+      }
+      return values;
+    };
+
+    const series = Array.from(chart.getElementsByTagName("c:ser")).map(
+      (ser, index) => {
+        const name = this._childElements(ser, "c:tx")[0];
+        return {
+          name:
+            name?.getElementsByTagName("c:v")[0]?.textContent ||
+            `Series ${index + 1}`,
+          categories: cachedValues(
+            this._childElements(ser, "c:cat")[0] ||
+              this._childElements(ser, "c:xVal")[0]
+          ),
+          values: cachedValues(
+            this._childElements(ser, "c:val")[0] ||
+              this._childElements(ser, "c:yVal")[0]
+          ),
+        };
+      }
+    );
+
+    const categories = series.find((ser) => ser.categories.length)?.categories;
+    const rowCount = Math.max(0, ...series.map((ser) => ser.values.length));
+    const rows = Array.from({ length: rowCount }, (_, i) => [
+      categories?.[i] ?? String(i + 1),
+      ...series.map((ser) => ser.values[i] ?? ""),
+    ]);
+
+    const blocks: BlockNode[] = [
+      { type: "heading", level: 3, text: title ? `Chart: ${title}` : "Chart" },
+    ];
+    if (series.length) {
+      blocks.push({
+        type: "table",
+        header: ["Category", ...series.map((ser) => ser.name)],
+        rows,
+      });
+    }
+    return blocks;
+  }
+
+  /**
+   * Lists the text of the nodes of a SmartArt diagram.
+   * @param {string} dataPath - Path of the diagram data part
+   * @param {PptxPackage} pptx - The PPTX package
+   * @returns {Promise<BlockNode[]>} A list of the node texts, if any
+   * @private
+   */
+  private async _diagramBlocks(
+    dataPath: string,
+    pptx: PptxPackage
+  ): Promise<BlockNode[]> {
+    const data = await this._readXml(pptx, dataPath);
+    const items = Array.from(data?.getElementsByTagName("dgm:pt") || [])
+      .filter((point) => (point.getAttribute("type") || "node") === "node")
+      .map((point) =>
+        Array.from(point.getElementsByTagName("a:p"))
+          .map((paragraph) => this._paragraphText(paragraph))
+          .filter(Boolean)
+          .join(" ")
+      )
+      .filter(Boolean);
+    if (!items.length) return [];
+    return [
+      {
+        type: "list",
+        ordered: false,
+        items: items.map((text) => ({ type: "listItem", text })),
+      },
+    ];
+  }
+
+  /**
+   * Converts a picture to an image node with its alt text as alt, or
+   * an LLM description if `llmCall` is given for `pptxImages: "describe"`.
+   * @param {Element} picture - The `p:pic` element
+   * @param {PptxRelationships} rels - Relationships of the slide
+   * @param {PptxPackage} pptx - The PPTX package
+   * @param {LlmCall} [llmCall] - Callback function for LLM picture descriptions
+   * @returns {Promise<BlockNode[]>} The image node
+   * @private
+   */
+  private async _pictureBlocks(
+    picture: Element,
+    rels: PptxRelationships,
+    pptx: PptxPackage,
+    llmCall?: LlmCall
+  ): Promise<BlockNode[]> {
+    const properties = picture.getElementsByTagName("p:cNvPr")[0];
+    const blip = picture.getElementsByTagName("a:blip")[0];
+    const imagePath = rels.get(blip?.getAttribute("r:embed") || "")?.target;
+
+    let alt =
+      properties?.getAttribute("descr") ||
+      properties?.getAttribute("title") ||
+      properties?.getAttribute("name") ||
+      "";
+    const image = imagePath ? pptx.get(imagePath) : undefined;
+    if (image && typeof llmCall === "function") {
+      alt =
+        (await describeImage(
+          await image.buffer(),
+          mime.lookup(imagePath!) || "image/png",
+          llmCall,
+          "Write a detailed alt text for this image from a presentation slide."
+        )) || alt;
+    }
+
+    return [
+      {
+        type: "image",
+        src: imagePath ? path.posix.basename(imagePath) : "",
+        alt: alt.replace(/\s+/g, " ").trim() || undefined,
+      },
+    ];
+  }
+
+  /**
+   * Reads the speaker notes of a slide from its notes slide.
+   * @param {PptxRelationships} rels - Relationships of the slide
+   * @param {PptxPackage} pptx - The PPTX package
+   * @returns {Promise<BlockNode[]>} The blocks of the notes, empty if the slide has none
+   * @private
+   */
+  private async _notesBlocks(
+    rels: PptxRelationships,
+    pptx: PptxPackage
+  ): Promise<BlockNode[]> {
+    const notesRel = [...rels.values()].find((rel) =>
+      rel.type.endsWith("/notesSlide")
+    );
+    const notes = notesRel ? await this._readXml(pptx, notesRel.target) : null;
+    if (!notes) return [];
+    return this._shapes(notes)
+      .filter((shape) => this._placeholderType(shape) === "body")
+      .flatMap((shape) => this._textBlocks(this._textParagraphs(shape)));
+  }
+
+  /**
+   * Reads and parses an XML part of the package.
+   * @param {PptxPackage} pptx - The PPTX package
+   * @param {string} partPath - Path of the part
+   * @returns {Promise<Document | null>} The parsed part, or null if it doesn't exist
+   * @private
+   */
+  private async _readXml(
+    pptx: PptxPackage,
+    partPath: string
+  ): Promise<Document | null> {
+    const file = pptx.get(partPath);
+    if (!file) return null;
+    const content = (await file.buffer()).toString("utf-8");
+    return new DOMParser().parseFromString(content, "text/xml");
+  }
+
+  /**
+   * Reads the relationships of a part with their targets resolved to package paths.
+   * @param {PptxPackage} pptx - The PPTX package
+   * @param {string} partPath - Path of the part
+   * @returns {Promise<PptxRelationships>} The relationships by id
+   * @private
+   */
+  private async _readRelationships(
+    pptx: PptxPackage,
+    partPath: string
+  ): Promise<PptxRelationships> {
+    const directory = path.posix.dirname(partPath);
+    const rels = await this._readXml(
+      pptx,
+      `${directory}/_rels/${path.posix.basename(partPath)}.rels`
+    );
+    const relationships: PptxRelationships = new Map();
+    for (const rel of Array.from(
+      rels?.getElementsByTagName("Relationship") || []
+    )) {
+      if (rel.getAttribute("TargetMode") === "External") continue;
+      const target = rel.getAttribute("Target") || "";
+      relationships.set(rel.getAttribute("Id") || "", {
+        type: rel.getAttribute("Type") || "",
+        target: target.startsWith("/")
+          ? target.slice(1)
+          : path.posix.normalize(`${directory}/${target}`),
+      });
+    }
+    return relationships;
+  }
+
+  /**
+   * Gets the child elements of an element, optionally only those with the given tag name.
+   * @param {Element | undefined} element - The parent element
+   * @param {string} [tagName] - Tag name including the namespace prefix, e.g. "a:p"
+   * @returns {Element[]} The child elements
+   * @private
+   */
+  private _childElements(
+    element: Element | undefined,
+    tagName?: string
+  ): Element[] {
+    return Array.from(element?.childNodes || []).filter(
+      (child): child is Element =>
+        child.nodeType === 1 &&
+        (!tagName || (child as Element).tagName === tagName)
+    );
+  }
 }
@@ -5,7 +5,10 @@ import type {
   DocumentConverterResult,
   ConversionOptions,
 } from "../types/document";
+import type { BlockNode, DocumentNode } from "../types/documentModel";
 import HtmlConverter from "./html";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import { toIsoDate } from "../utils/metadata";
 
 /**
  * Converts RSS, Atom, and XML feeds to markdown format.
@@ -87,7 +90,7 @@ export default class RSSConverter extends HtmlConverter {
    * Extracts feed metadata and entries, including titles, summaries, and content.
    *
    * @param {Document} doc - Parsed XML document
-   * @returns {DocumentConverterResult} Formatted markdown content
+   * @returns {DocumentConverterResult} Formatted markdown content and document tree
    * @private
    */
   private _parseAtomType(doc: Document): DocumentConverterResult {
@@ -100,24 +103,22 @@ export default class RSSConverter extends HtmlConverter {
       const link = this._getDataByTagName(root as HTMLElement, "link");
       const entries = root?.getElementsByTagName("entry") || [];
 
-      let mdText = `# ${title}\n`;
-      if (subtitle) {
-        mdText += `${subtitle}\n`;
-      }
-      if (updated) {
-        mdText += `Updated on: ${updated}\n`;
-      }
-      if (id) {
-        mdText += `ID: ${id}\n`;
-      }
+      const blocks: BlockNode[] = [
+        { type: "heading", level: 1, text: `${title}` },
+      ];
+      if (subtitle) blocks.push({ type: "paragraph", text: subtitle });
+      if (updated)
+        blocks.push({ type: "paragraph", text: `Updated on: ${updated}` });
+      if (id) blocks.push({ type: "paragraph", text: `ID: ${id}` });
       if (link) {
-        mdText += `Link: ${(link as unknown as Element).getAttribute(
-          "href"
-        )}\n`;
+        blocks.push({
+          type: "paragraph",
+          text: `Link: ${(link as unknown as Element).getAttribute("href")}`,
+        });
       }
 
       // Iterate over each entry in the Atom feed and extract the title, summary, updated, content, id, and link
-      for (const entry of Array.from(entries)) {
+      Array.from(entries).forEach((entry, index) => {
         const entryTitle = this._getDataByTagName(
           entry as HTMLElement,
           "title"
@@ -137,20 +138,54 @@ export default class RSSConverter extends HtmlConverter {
         const entryId = this._getDataByTagName(entry as HTMLElement, "id");
         const entryLink = this._getDataByTagName(entry as HTMLElement, "link");
 
-        if (entryTitle) mdText += `\n## ${entryTitle}\n`;
-        if (entryUpdated) mdText += `Updated on: ${entryUpdated}\n`;
-        if (entrySummary) mdText += this._parseContent(entrySummary) + "\n";
-        if (entryContent) mdText += this._parseContent(entryContent) + "\n";
-        if (entryId) mdText += `ID: ${entryId}\n`;
+        const entryBlocks: BlockNode[] = [];
+        if (entryTitle)
+          entryBlocks.push({ type: "heading", level: 2, text: entryTitle });
+        if (entryUpdated)
+          entryBlocks.push({
+            type: "paragraph",
+            text: `Updated on: ${entryUpdated}`,
+          });
+        if (entrySummary) entryBlocks.push(...this._parseContent(entrySummary));
+        if (entryContent) entryBlocks.push(...this._parseContent(entryContent));
+        if (entryId)
+          entryBlocks.push({ type: "paragraph", text: `ID: ${entryId}` });
         if (entryLink)
-          mdText += `Link: ${(entryLink as unknown as Element).getAttribute(
-            "href"
-          )}\n`;
-      }
+          entryBlocks.push({
+            type: "paragraph",
+            text: `Link: ${(entryLink as unknown as Element).getAttribute(
+              "href"
+            )}`,
+          });
+
+        blocks.push({
+          type: "section",
+          kind: "item",
+          name: entryTitle || undefined,
+          number: index + 1,
+          children: entryBlocks,
+        });
+      });
 
+      const author = this._getChildElement(root, "author");
+      const linkHref = this._getChildElement(root, "link")?.getAttribute("href");
+
+      const document: DocumentNode = { type: "document", title, children: blocks };
       return {
         title: title,
-        textContent: mdText,
+        textContent: renderMarkdown(document),
+        document,
+        metadata: {
+          author: author?.getElementsByTagName("name")[0]?.textContent || undefined,
+          modifiedAt: toIsoDate(updated),
+          language: root?.getAttribute("xml:lang") || undefined,
+          extra: {
+            feedType: "atom",
+            id: id || undefined,
+            link: linkHref || undefined,
+            entryCount: entries.length,
+          },
+        },
       };
     } catch (error) {
       console.error("Atom parsing error: ", error);
@@ -163,7 +198,7 @@ export default class RSSConverter extends HtmlConverter {
    * Extracts channel metadata and items, including titles, descriptions, and content.
    *
    * @param {Document} doc - Parsed XML document
-   * @returns {DocumentConverterResult} Formatted markdown content
+   * @returns {DocumentConverterResult} Formatted markdown content and document tree
    * @private
    */
   private _parseRssType(doc: Document): DocumentConverterResult {
@@ -190,13 +225,18 @@ export default class RSSConverter extends HtmlConverter {
       );
       const items = channel.getElementsByTagName("item");
 
-      let mdText = "";
-      if (channelTitle) mdText += `# ${channelTitle}\n`;
-      if (channelUpdated) mdText += `Updated on: ${channelUpdated}\n`;
-      if (channelDescription) mdText += `${channelDescription}\n`;
-      if (channelLink) mdText += `ID: ${channelLink}\n`;
+      const blocks: BlockNode[] = [];
+      if (channelTitle)
+        blocks.push({ type: "heading", level: 1, text: channelTitle });
+      if (channelUpdated)
+        blocks.push({ type: "paragraph", text: `Updated on: ${channelUpdated}` });
+      if (channelDescription)
+        blocks.push({ type: "paragraph", text: channelDescription });
+      if (channelLink)
+        blocks.push({ type: "paragraph", text: `ID: ${channelLink}` });
+
       // Iterate over each item in the RSS feed and extract the title, description, pubDate, content, and link
-      for (const item of Array.from(items)) {
+      Array.from(items).forEach((item, index) => {
         const title = this._getDataByTagName(item as HTMLElement, "title");
         const description = this._getDataByTagName(
           item as HTMLElement,
@@ -209,18 +249,49 @@ export default class RSSConverter extends HtmlConverter {
         );
         const link = this._getDataByTagName(item as HTMLElement, "link");
 
-        if (title) mdText += `\n## ${title}.\n`;
-        if (pubDate) mdText += `Published on: ${pubDate}.\n`;
-        if (description) mdText += this._parseContent(description) + ".\n";
-        if (content) mdText += this._parseContent(content) + ".\n";
-        if (link) mdText += `ID: ${link}.\n`;
+        const itemBlocks: BlockNode[] = [];
+        if (title) itemBlocks.push({ type: "heading", level: 2, text: title });
+        if (pubDate)
+          itemBlocks.push({ type: "paragraph", text: `Published on: ${pubDate}` });
+        if (description) itemBlocks.push(...this._parseContent(description));
+        if (content) itemBlocks.push(...this._parseContent(content));
+        if (link) itemBlocks.push({ type: "paragraph", text: `ID: ${link}` });
 
-        mdText += "\n";
-      }
+        blocks.push({
+          type: "section",
+          kind: "item",
+          name: title || undefined,
+          number: index + 1,
+          children: itemBlocks,
+        });
+      });
 
+      const document: DocumentNode = {
+        type: "document",
+        title: channelTitle,
+        children: blocks,
+      };
       return {
         title: channelTitle,
-        textContent: mdText,
+        textContent: renderMarkdown(document),
+        document,
+        metadata: {
+          author:
+            this._getChildElement(channel, "managingEditor")?.textContent ||
+            undefined,
+          createdAt: toIsoDate(
+            this._getChildElement(channel, "pubDate")?.textContent
+          ),
+          modifiedAt: toIsoDate(channelUpdated),
+          language:
+            this._getChildElement(channel, "language")?.textContent ||
+            undefined,
+          extra: {
+            feedType: "rss",
+            link: channelLink || undefined,
+            itemCount: items.length,
+          },
+        },
       };
     } catch (error) {
       console.error("RSS parsing error:", error);
@@ -296,15 +367,15 @@ export default class RSSConverter extends HtmlConverter {
    * Parses HTML content within feed entries.
    *
    * @param {string} content - HTML content to parse
-   * @returns {string} Cleaned content
+   * @returns {BlockNode[]} Document blocks of the content
    * @private
    */
-  private _parseContent(content: string): string {
+  private _parseContent(content: string): BlockNode[] {
     try {
       const root = parse(content);
-      return this._convert(root.innerHTML) as unknown as string;
+      return this._convert(root.innerHTML)?.document?.children || [];
     } catch (error) {
-      return content;
+      return [{ type: "paragraph", text: content }];
     }
   }
 
@@ -326,4 +397,22 @@ export default class RSSConverter extends HtmlConverter {
     const firstChild = nodes[0]?.firstChild;
     return firstChild ? firstChild.nodeValue : null;
   }
+
+  /**
+   * Finds the first direct child element with the given tag name,
+   * ignoring elements with the same name inside feed items.
+   *
+   * @param {Element | undefined} element - Parent element to search
+   * @param {string} tagName - Tag name to find
+   * @returns {Element | undefined} The child element, if any
+   * @private
+   */
+  private _getChildElement(
+    element: Element | undefined,
+    tagName: string
+  ): Element | undefined {
+    return Array.from(element?.childNodes || []).find(
+      (child): child is Element => (child as Element).tagName === tagName
+    );
+  }
 }
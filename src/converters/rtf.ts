@@ -0,0 +1,766 @@
+import fs from "fs";
+import iconv from "iconv-lite";
+import HtmlConverter from "./html";
+import DocumentConverter from "./document";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+  DocumentMetadata,
+} from "../types/document";
+import type {
+  BlockNode,
+  DocumentNode,
+  ListItemNode,
+  ListNode,
+} from "../types/documentModel";
+import { escapeMarkdown, renderMarkdown } from "../utils/markdownRenderer";
+
+/**
+ * Destinations whose content is no document text: font, color and style tables,
+ * pictures, embedded objects, headers, footers and other document properties.
+ */
+const SKIPPED_DESTINATIONS = new Set([
+  "colortbl",
+  "pict",
+  "object",
+  "nonshppict",
+  "shpinst",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "generator",
+  "themedata",
+  "colorschememapping",
+  "latentstyles",
+  "datastore",
+  "xmlnstbl",
+  "filetbl",
+  "revtbl",
+  "pgdsctbl",
+  "bkmkstart",
+  "bkmkend",
+  "annotation",
+  "atnid",
+  "atnauthor",
+  "atndate",
+  "mmathPr",
+  "pnseclvl",
+  "pntxta",
+  "pntxtb",
+]);
+
+/**
+ * Fields of the `\info` group read into the result metadata.
+ */
+const INFO_FIELDS = new Set(["title", "author", "subject", "creatim", "revtim"]);
+
+/**
+ * Code pages of the font character sets (`\fcharset`), see the RTF specification.
+ */
+const CHARSET_CODE_PAGES: Record<number, number> = {
+  77: 10000,
+  128: 932,
+  129: 949,
+  134: 936,
+  136: 950,
+  161: 1253,
+  162: 1254,
+  163: 1258,
+  177: 1255,
+  178: 1256,
+  186: 1257,
+  204: 1251,
+  222: 874,
+  238: 1250,
+};
+
+/**
+ * Characters of control words which stand for a single character.
+ */
+const SYMBOL_WORDS: Record<string, string> = {
+  tab: "\t",
+  line: "\n",
+  emdash: "\u2014",
+  endash: "\u2013",
+  bullet: "\u2022",
+  lquote: "\u2018",
+  rquote: "\u2019",
+  ldblquote: "\u201c",
+  rdblquote: "\u201d",
+  emspace: " ",
+  enspace: " ",
+  qmspace: " ",
+};
+
+// Where the text of a group goes.
+type RtfDestination =
+  | "text"
+  | "skip"
+  | "fonttbl"
+  | "stylesheet"
+  | "info"
+  | "fldinst"
+  | "listtext"
+  | "footnote"
+  | "htmltag";
+
+// Character formatting and destination of a group, restored when the group ends.
+type RtfGroupState = {
+  destination: RtfDestination;
+  // Field of the `\info` group the text belongs to
+  infoField: string | null;
+  bold: boolean;
+  italic: boolean;
+  hidden: boolean;
+  // Within `\htmlrtf`, RTF text which is not part of an encapsulated HTML document
+  htmlSuppressed: boolean;
+  font: number;
+  // Number of fallback characters following a `\u` character
+  unicodeSkip: number;
+};
+
+// A run of text with the same formatting. Raw runs hold Markdown, e.g. links.
+type RtfRun = { text: string; bold: boolean; italic: boolean; raw?: boolean };
+
+// Properties of the paragraph being read, set by `\pard`, `\intbl`, `\ls` and others.
+type RtfParagraphProperties = {
+  inTable: boolean;
+  // List override of the paragraph, 0 if the paragraph is no list item
+  list: number;
+  listLevel: number;
+  // Outline level of headings, null for body text
+  outlineLevel: number | null;
+  style: number;
+};
+
+// A paragraph of the document with its text and properties.
+type RtfParagraph = RtfParagraphProperties & {
+  text: string;
+  // Number text of the list item, e.g. "1." or a bullet
+  listMarker: string | null;
+};
+
+// An open field, turned into a link when it ends if it is a hyperlink.
+type RtfField = { depth: number; instruction: string; runStart: number };
+
+/**
+ * Converts Rich Text Format (RTF) files to Markdown format.
+ * Paragraphs, bold and italic text, lists, tables, hyperlinks and footnotes are kept.
+ * Font, color and style tables, pictures and embedded objects are dropped.
+ * HTML encapsulated in RTF (`\fromhtml`), as written by Outlook, is converted through the HTML pipeline.
+ *
+ * @extends HtmlConverter
+ *
+ * @example
+ * ```typescript
+ * const rtfConverter = new RtfConverter();
+ * let result = await rtfConverter.convert('contract.rtf', {
+ *   fileExtension: '.rtf'
+ * });
+ *
+ * // Using Markitdown
+ * const converter = new Markitdown();
+ * let result = await converter.convert('contract.rtf');
+ * ```
+ */
+export default class RtfConverter extends HtmlConverter {
+  constructor(
+    priority: number = DocumentConverter.PRIORITY_SPECIFIC_FILE_FORMAT
+  ) {
+    super(priority);
+  }
+  /**
+   * Converts an RTF file to Markdown format.
+   *
+   * @param {string} localPath - Path to the RTF file
+   * @param {ConversionOptions} options - Conversion options including file extension
+   * @returns {Promise<DocumentConverterResult>} The converted document with the title and author
+   *   of its document properties, or null if the file is not an RTF file
+   */
+  override async convert(
+    localPath: string,
+    options: ConversionOptions
+  ): Promise<DocumentConverterResult> {
+    const extension = options.fileExtension || "";
+    if (extension.toLowerCase() !== ".rtf") {
+      return null;
+    }
+
+    // RTF is 7-bit ASCII, other characters are escaped, binary data maps byte to character
+    const rtf = (await fs.promises.readFile(localPath)).toString("latin1");
+    if (!rtf.startsWith("{\\rtf")) return null;
+    return this.convertRtf(rtf);
+  }
+
+  /**
+   * Converts RTF content to Markdown format.
+   * Used for RTF found inside other files as well, like the bodies of Outlook messages.
+   *
+   * @param {string} rtf - The RTF content, with each byte as a latin1 character
+   * @returns {DocumentConverterResult} The converted document with the title and author
+   *   of its document properties
+   */
+  convertRtf(rtf: string): DocumentConverterResult {
+    const { paragraphs, styles, notes, info, html } = this._parse(rtf);
+    if (html !== null) return this._convert(html);
+    const blocks = this._paragraphBlocks(paragraphs, styles);
+    notes.forEach((note, index) =>
+      blocks.push({ type: "paragraph", text: `[^${index + 1}]: ${escapeMarkdown(note)}` })
+    );
+
+    const title = info.title || null;
+    const document: DocumentNode = { type: "document", title, children: blocks };
+    const metadata: DocumentMetadata = {
+      author: info.author || undefined,
+      createdAt: info.creatim || undefined,
+      modifiedAt: info.revtim || undefined,
+      ...(info.subject ? { extra: { subject: info.subject } } : {}),
+    };
+    return {
+      title,
+      textContent: renderMarkdown(document).trim(),
+      document,
+      metadata,
+    };
+  }
+
+  /**
+   * Parses RTF into paragraphs, reading the font, style and info tables on the way.
+   * @param {string} rtf - The RTF content
+   * @returns {Object} The paragraphs, style names by number, footnotes and info fields
+   * @private
+   */
+  private _parse(rtf: string): {
+    paragraphs: RtfParagraph[];
+    styles: Map<number, string>;
+    notes: string[];
+    info: Record<string, string>;
+    html: string | null;
+  } {
+    const paragraphs: RtfParagraph[] = [];
+    const styles = new Map<number, string>();
+    const fontCodePages = new Map<number, number>();
+    const notes: string[] = [];
+    const info: Record<string, string> = {};
+    const dateParts: Record<string, number> = {};
+
+    let defaultCodePage = 1252;
+    let state: RtfGroupState = {
+      destination: "text",
+      infoField: null,
+      bold: false,
+      italic: false,
+      hidden: false,
+      htmlSuppressed: false,
+      font: -1,
+      unicodeSkip: 1,
+    };
+    const stack: RtfGroupState[] = [];
+    const emptyProperties = (): RtfParagraphProperties => ({
+      inTable: false,
+      list: 0,
+      listLevel: 0,
+      outlineLevel: null,
+      style: 0,
+    });
+    let properties = emptyProperties();
+    let runs: RtfRun[] = [];
+    let listMarker: string | null = null;
+    const fields: RtfField[] = [];
+    // State of the table definitions and footnotes being read
+    let fontNumber = 0;
+    let styleNumber = 0;
+    let styleName = "";
+    let note = "";
+    let noteDepth = -1;
+    let savedRuns: RtfRun[] = [];
+    let savedProperties = properties;
+    let groupStart = false;
+    let skipCount = 0;
+    let bytes: number[] = [];
+    // HTML document encapsulated by `\fromhtml`, e.g. the body of an Outlook message
+    let html: string | null = null;
+
+    const addText = (text: string) => {
+      if (!text) return;
+      if (html !== null && (state.destination === "text" || state.destination === "htmltag")) {
+        if (state.destination === "htmltag" || !state.htmlSuppressed) html += text;
+        return;
+      }
+      switch (state.destination) {
+        case "text":
+          if (state.hidden) return;
+          if (state.unicodeSkip && skipCount) return;
+          {
+            // Runs before an open field stay apart, its result may become a link
+            const last = runs.length > (fields.at(-1)?.runStart ?? 0) ? runs.at(-1) : undefined;
+            if (last && !last.raw && last.bold === state.bold && last.italic === state.italic)
+              last.text += text;
+            else runs.push({ text, bold: state.bold, italic: state.italic });
+          }
+          break;
+        case "footnote":
+          note += text;
+          break;
+        case "fldinst":
+          if (fields.length) fields.at(-1)!.instruction += text;
+          break;
+        case "listtext":
+          listMarker = (listMarker || "") + text;
+          break;
+        case "stylesheet":
+          styleName += text;
+          break;
+        case "info":
+          if (state.infoField) info[state.infoField] = (info[state.infoField] || "") + text;
+          break;
+      }
+    };
+    // Hex escaped bytes are decoded together, double-byte code pages need both bytes
+    const flushBytes = () => {
+      if (!bytes.length) return;
+      const codePage = fontCodePages.get(state.font) || defaultCodePage;
+      const encoding = iconv.encodingExists(`cp${codePage}`) ? `cp${codePage}` : "windows-1252";
+      const decoded = iconv.decode(Buffer.from(bytes), encoding);
+      bytes = [];
+      addText(decoded);
+    };
+    const endParagraph = (cellEnd: boolean) => {
+      const text = this._renderRuns(runs);
+      if (text.trim() || cellEnd || listMarker) {
+        paragraphs.push({
+          ...properties,
+          inTable: properties.inTable || cellEnd,
+          text,
+          listMarker,
+        });
+      }
+      runs = [];
+      listMarker = null;
+    };
+
+    let i = 0;
+    while (i < rtf.length) {
+      const char = rtf[i]!;
+      if (char === "{") {
+        flushBytes();
+        stack.push(state);
+        state = { ...state };
+        groupStart = true;
+        i++;
+        continue;
+      }
+      if (char === "}") {
+        flushBytes();
+        const depth = stack.length;
+        if (state.destination === "stylesheet" && styleName) {
+          styles.set(styleNumber, styleName.replace(/;\s*$/, "").trim());
+          styleName = "";
+        }
+        const field = fields.at(-1);
+        if (field && field.depth === depth) {
+          fields.pop();
+          const url = field.instruction.match(/HYPERLINK\s+"([^"]+)"/)?.[1];
+          const linked = runs.splice(field.runStart);
+          const label = this._renderRuns(linked).trim();
+          if (url && label && !/\\l\b/.test(field.instruction)) {
+            runs.push({ text: `[${label}](${url})`, bold: false, italic: false, raw: true });
+          } else runs.push(...linked);
+        }
+        if (depth === noteDepth) {
+          notes.push(note.replace(/\s+/g, " ").trim());
+          note = "";
+          noteDepth = -1;
+          runs = savedRuns;
+          properties = savedProperties;
+          runs.push({ text: `[^${notes.length}]`, bold: false, italic: false, raw: true });
+        }
+        if (state.infoField && (state.infoField === "creatim" || state.infoField === "revtim")) {
+          const { yr, mo = 1, dy = 1, hr = 0, min = 0 } = dateParts;
+          if (yr) info[state.infoField] = new Date(Date.UTC(yr, mo - 1, dy, hr, min)).toISOString();
+        }
+        state = stack.pop() || state;
+        groupStart = false;
+        i++;
+        continue;
+      }
+      if (char === "\r" || char === "\n") {
+        i++;
+        continue;
+      }
+      if (char !== "\\") {
+        let end = i;
+        while (end < rtf.length && !"\\{}\r\n".includes(rtf[end]!)) end++;
+        let text = rtf.slice(i, end);
+        i = end;
+        groupStart = false;
+        if (skipCount) {
+          const skipped = Math.min(skipCount, text.length);
+          text = text.slice(skipped);
+          skipCount -= skipped;
+        }
+        flushBytes();
+        addText(text);
+        continue;
+      }
+
+      // Control symbols: a backslash and one non-letter character
+      const next = rtf[i + 1] ?? "";
+      if (!/[a-zA-Z]/.test(next)) {
+        i += 2;
+        if (next === "'") {
+          const byte = parseInt(rtf.slice(i, i + 2), 16);
+          i += 2;
+          if (skipCount) {
+            skipCount--;
+          } else if (!isNaN(byte)) bytes.push(byte);
+          continue;
+        }
+        flushBytes();
+        if (next === "*") {
+          // Unknown destinations marked as ignorable are skipped
+          const word = rtf.slice(i).match(/^\\([a-zA-Z]+)/)?.[1] || "";
+          if (!["fldinst", "footnote", "listtext", "htmltag"].includes(word) && !INFO_FIELDS.has(word))
+            state.destination = "skip";
+          continue;
+        }
+        groupStart = false;
+        if (next === "~") addText("\u00a0");
+        else if (next === "_") addText("\u2011");
+        else if (next === "\\" || next === "{" || next === "}") addText(next);
+        else if (next === "\r" || next === "\n") endParagraph(false);
+        continue;
+      }
+
+      // Control words: letters, an optional numeric parameter and an optional space
+      const match = rtf.slice(i, i + 64).match(/^\\([a-zA-Z]+)(-?\d+)? ?/)!;
+      const word = match[1]!;
+      const parameter = match[2] === undefined ? null : Number(match[2]);
+      i += match[0].length;
+      const isDestination = groupStart;
+      groupStart = false;
+
+      if (word === "bin") {
+        flushBytes();
+        i += parameter || 0;
+        continue;
+      }
+      if (word !== "u") flushBytes();
+      if (state.destination === "skip") continue;
+
+      if (isDestination || word === "footnote" || word === "fldinst" || word === "listtext") {
+        if (SKIPPED_DESTINATIONS.has(word)) {
+          state.destination = "skip";
+          continue;
+        }
+        switch (word) {
+          case "fonttbl":
+          case "stylesheet":
+          case "info":
+          case "htmltag":
+            state.destination = word;
+            continue;
+          case "fldinst":
+          case "listtext":
+          case "pntext":
+            state.destination = word === "pntext" ? "listtext" : word;
+            if (word !== "fldinst") listMarker = "";
+            continue;
+          case "footnote":
+            if (state.destination !== "text") {
+              state.destination = "skip";
+              continue;
+            }
+            state.destination = "footnote";
+            noteDepth = stack.length;
+            savedRuns = runs;
+            savedProperties = properties;
+            runs = [];
+            properties = emptyProperties();
+            continue;
+        }
+        if (state.destination === "info" && INFO_FIELDS.has(word)) {
+          state.infoField = word;
+          if (word === "creatim" || word === "revtim")
+            Object.keys(dateParts).forEach((key) => delete dateParts[key]);
+          continue;
+        }
+      }
+
+      switch (state.destination) {
+        case "fonttbl":
+          if (word === "f") fontNumber = parameter ?? 0;
+          else if (word === "fcharset" && CHARSET_CODE_PAGES[parameter ?? 0])
+            fontCodePages.set(fontNumber, CHARSET_CODE_PAGES[parameter ?? 0]!);
+          else if (word === "cpg" && parameter) fontCodePages.set(fontNumber, parameter);
+          continue;
+        case "stylesheet":
+          if (word === "s") styleNumber = parameter ?? 0;
+          else if (word === "cs" || word === "ds" || word === "ts") styleNumber = -1;
+          continue;
+        case "info":
+          if (["yr", "mo", "dy", "hr", "min"].includes(word) && parameter !== null)
+            dateParts[word] = parameter;
+          continue;
+      }
+
+      switch (word) {
+        case "ansicpg":
+          defaultCodePage = parameter || defaultCodePage;
+          break;
+        case "mac":
+          defaultCodePage = 10000;
+          break;
+        case "pc":
+          defaultCodePage = 437;
+          break;
+        case "pca":
+          defaultCodePage = 850;
+          break;
+        case "f":
+          state.font = parameter ?? 0;
+          break;
+        case "uc":
+          state.unicodeSkip = parameter ?? 1;
+          break;
+        case "u": {
+          flushBytes();
+          const code = (parameter ?? 0) < 0 ? (parameter ?? 0) + 65536 : parameter ?? 0;
+          addText(String.fromCharCode(code));
+          skipCount = state.unicodeSkip;
+          break;
+        }
+        case "b":
+          state.bold = parameter !== 0;
+          break;
+        case "i":
+          state.italic = parameter !== 0;
+          break;
+        case "v":
+          state.hidden = parameter !== 0;
+          break;
+        case "fromhtml":
+          html = "";
+          break;
+        case "htmlrtf":
+          state.htmlSuppressed = parameter !== 0;
+          break;
+        case "plain":
+          state.bold = false;
+          state.italic = false;
+          state.hidden = false;
+          break;
+        case "pard":
+          properties = { ...emptyProperties() };
+          break;
+        case "intbl":
+          properties.inTable = true;
+          break;
+        case "itap":
+          properties.inTable = (parameter ?? 1) > 0;
+          break;
+        case "ls":
+          properties.list = parameter ?? 0;
+          break;
+        case "ilvl":
+          properties.listLevel = parameter ?? 0;
+          break;
+        case "outlinelevel":
+          properties.outlineLevel = parameter ?? 0;
+          break;
+        case "s":
+          properties.style = parameter ?? 0;
+          break;
+        case "par":
+        case "sect":
+        case "page":
+          if (html !== null) addText("\r\n");
+          else if (state.destination === "footnote") note += " ";
+          else endParagraph(false);
+          break;
+        case "cell":
+        case "nestcell":
+          endParagraph(true);
+          paragraphs.push({ ...properties, inTable: true, text: "", listMarker: null, list: -1 });
+          break;
+        case "row":
+        case "nestrow":
+          paragraphs.push({ ...properties, inTable: true, text: "", listMarker: null, list: -2 });
+          break;
+        case "field":
+          fields.push({ depth: stack.length, instruction: "", runStart: runs.length });
+          break;
+        default:
+          if (SYMBOL_WORDS[word]) addText(SYMBOL_WORDS[word]!);
+      }
+    }
+    endParagraph(false);
+    return { paragraphs, styles, notes, info, html };
+  }
+
+  /**
+   * Groups the paragraphs into headings, paragraphs, lists and tables.
+   * Cell and row ends are marked by paragraphs with the list numbers -1 and -2.
+   * @param {RtfParagraph[]} paragraphs - The paragraphs
+   * @param {Map<number, string>} styles - Style names by style number
+   * @returns {BlockNode[]} The blocks
+   * @private
+   */
+  private _paragraphBlocks(
+    paragraphs: RtfParagraph[],
+    styles: Map<number, string>
+  ): BlockNode[] {
+    const blocks: BlockNode[] = [];
+    let rows: string[][] = [];
+    let row: string[] = [];
+    let cell: string[] = [];
+    let listItems: RtfParagraph[] = [];
+
+    const flushTable = () => {
+      if (cell.length) row.push(cell.join("\n"));
+      if (row.length) rows.push(row);
+      if (rows.length) {
+        const columnCount = rows.reduce((count, cells) => Math.max(count, cells.length), 0);
+        const padded = rows.map((cells) =>
+          Array.from({ length: columnCount }, (_, i) => cells[i] ?? "")
+        );
+        blocks.push({
+          type: "table",
+          header: padded[0]!,
+          rows: padded.slice(1),
+        });
+      }
+      rows = [];
+      row = [];
+      cell = [];
+    };
+    const flushList = () => {
+      if (listItems.length) blocks.push(this._listNode(listItems));
+      listItems = [];
+    };
+
+    for (const paragraph of paragraphs) {
+      const text = paragraph.text.trim();
+      if (paragraph.inTable) {
+        flushList();
+        if (paragraph.list === -1) {
+          row.push(cell.join("\n"));
+          cell = [];
+        } else if (paragraph.list === -2) {
+          if (row.length) rows.push(row);
+          row = [];
+          cell = [];
+        } else if (text) {
+          cell.push(text);
+        }
+        continue;
+      }
+      flushTable();
+
+      if ((paragraph.list > 0 || paragraph.listMarker !== null) && text) {
+        // Another list override starts another list
+        if (listItems.length && listItems[0]!.list !== paragraph.list) flushList();
+        listItems.push(paragraph);
+        continue;
+      }
+      flushList();
+      if (!text) continue;
+
+      const level = this._headingLevel(paragraph, styles.get(paragraph.style) || "");
+      blocks.push(
+        level
+          ? {
+              type: "heading",
+              level: Math.min(level, 6) as 1 | 2 | 3 | 4 | 5 | 6,
+              text: text.replace(/\s+/g, " "),
+            }
+          : { type: "paragraph", text }
+      );
+    }
+    flushTable();
+    flushList();
+    return blocks;
+  }
+
+  /**
+   * Gets the heading level of a paragraph, from its outline level or heading style.
+   * @param {RtfParagraph} paragraph - The paragraph
+   * @param {string} styleName - Name of the paragraph style
+   * @returns {number} The heading level, 0 if the paragraph is no heading
+   * @private
+   */
+  private _headingLevel(paragraph: RtfParagraph, styleName: string): number {
+    if (paragraph.outlineLevel !== null && paragraph.outlineLevel < 9)
+      return paragraph.outlineLevel + 1;
+    if (/^title$/i.test(styleName)) return 1;
+    const match = styleName.match(/^heading\s*([1-9])$/i);
+    return match ? Number(match[1]) : 0;
+  }
+
+  /**
+   * Builds a list from list paragraphs, nesting the deeper levels. Items are numbered
+   * if their list text is a number or letter followed by a period or parenthesis.
+   * @param {RtfParagraph[]} paragraphs - Consecutive list paragraphs
+   * @returns {ListNode} The list
+   * @private
+   */
+  private _listNode(paragraphs: RtfParagraph[]): ListNode {
+    const level = paragraphs.reduce(
+      (min, paragraph) => Math.min(min, paragraph.listLevel),
+      Infinity
+    );
+    const items: ListItemNode[] = [];
+    for (let i = 0; i < paragraphs.length; ) {
+      const paragraph = paragraphs[i]!;
+      let end = i + 1;
+      while (paragraphs[end] && paragraphs[end]!.listLevel > level) end++;
+      const nested = paragraphs.slice(i + 1, end);
+      // Deeper paragraphs before the first item of the level get an item of their own
+      const text = paragraph.listLevel === level ? paragraph.text.trim() : "";
+      const children =
+        paragraph.listLevel === level ? nested : paragraphs.slice(i, end);
+      items.push({
+        type: "listItem",
+        text,
+        ...(children.length ? { children: [this._listNode(children)] } : {}),
+      });
+      i = end;
+    }
+    const marker = (paragraphs[0]!.listMarker || "").trim();
+    return {
+      type: "list",
+      ordered: /^\(?([0-9]+|[a-zA-Z]|[ivxlcIVXLC]+)[.)]$/.test(marker),
+      items,
+    };
+  }
+
+  /**
+   * Renders text runs as inline Markdown, bold and italic runs become emphasis.
+   * Plain text is escaped so characters like `*` or a leading `#` stay literal.
+   * @param {RtfRun[]} runs - The runs of a paragraph
+   * @returns {string} The text
+   * @private
+   */
+  private _renderRuns(runs: RtfRun[]): string {
+    return runs
+      .map((run) => {
+        const text = run.raw ? run.text : escapeMarkdown(run.text.replace(/\t/g, " "));
+        if (run.raw || (!run.bold && !run.italic)) return text;
+        // Keep surrounding white space outside of the emphasis markers
+        const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        if (!match[2]) return text;
+        const marker = run.bold && run.italic ? "***" : run.bold ? "**" : "_";
+        return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+      })
+      .join("")
+      .replace(/[ \u00a0]+\n/g, "\n");
+  }
+}
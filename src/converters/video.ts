@@ -120,6 +120,10 @@ export default class VideoConverter extends AudioConverter {
         fs.unlinkSync(tempPath);
       }
     }
-    return { title: null, textContent: mdContent.trim() };
+    return {
+      title: null,
+      textContent: mdContent.trim(),
+      metadata: this._toDocumentMetadata(metadata),
+    };
   }
 }
@@ -3,11 +3,24 @@ import type {
   ConversionOptions,
   DocumentConverterResult,
 } from "../types/document";
+import type {
+  BlockNode,
+  DocumentNode,
+  TableNode,
+} from "../types/documentModel";
 import DocumentConverter from "./document";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import {
+  gridRowLimit,
+  spreadsheetTableBlocks,
+  type SpreadsheetCell,
+} from "../utils/spreadsheet";
+import { extractVbaModules } from "../utils/vba";
 
 /**
- * XlsxConverter handles the conversion of Excel files (XLSX/XLS) to Markdown format.
- * Each sheet in the workbook is converted to a Markdown table with proper formatting.
+ * XlsxConverter handles the conversion of Excel files (XLSX/XLS) and OpenDocument
+ * spreadsheets (ODS) to Markdown format.
+ * Each visible sheet in the workbook is converted to a Markdown table with proper formatting.
  *
  * @extends DocumentConverter
  *
@@ -18,6 +31,12 @@ import DocumentConverter from "./document";
  *   fileExtension: ".xlsx"
  * })
  *
+ * // Include formulas, comments, defined names and macros
+ * let audit = await xlsxConverter.convert("budget.xlsm", {
+ *   fileExtension: ".xlsm",
+ *   spreadsheetAudit: true
+ * })
+ *
  * // Using Markitdown
  * const converter = new Markitdown();
  * let result = await converter.convert("file.xlsx");
@@ -30,68 +49,260 @@ export default class XlsxConverter extends DocumentConverter {
     super(priority);
   }
   /**
-   * Converts an Excel file to Markdown format.
-   * Each sheet is represented as a separate section with a Markdown table.
+   * Converts an Excel file or OpenDocument spreadsheet to Markdown format.
+   * Each visible sheet is represented as a separate section with a Markdown table built
+   * from the sheet's cell grid, so empty cells keep their column. Cells show their
+   * formatted value (dates, currencies, percentages) and merged cells repeat their value
+   * across the merged range. Hidden sheets, rows and columns are skipped.
+   * In audit mode hidden sheets are included with their heading marked as hidden, each
+   * sheet also lists its formulas and cell comments, followed by the defined names and
+   * VBA modules of the workbook.
    *
    * @override
    * @param {string} localPath - The local file path to the Excel file
    * @param {ConversionOptions} options - Conversion options including file extension
+   * @param {"auto" | "first" | "none"} [options.headerRow] - Whether the first row is the table header,
+   *   "auto" (default) uses it if most of its cells hold text
+   * @param {number} [options.maxRows] - Maximum number of rows per sheet
+   * @param {boolean} [options.spreadsheetAudit] - Include hidden sheets, append formulas, comments, defined names and VBA modules
    * @returns {Promise<DocumentConverterResult>} Object containing the converted markdown content, or returns null if the file is not an Excel file
    */
   override async convert(
     localPath: string,
     options: ConversionOptions
   ): Promise<DocumentConverterResult> {
-    // Bail if not an XLSX or XLS file
+    // Bail if not an XLSX, XLSM, XLS or ODS file
     const extension = options.fileExtension || "";
-    if (![".xlsx", ".xls"].includes(extension.toLowerCase())) {
+    if (![".xlsx", ".xlsm", ".xls", ".ods"].includes(extension.toLowerCase())) {
       return null;
     }
 
-    // Read the Excel workbook with VBA support enabled
-    const workbook = XLSX.readFile(localPath, { bookVBA: true });
-    let mdContent = "";
+    // Read the Excel workbook with VBA support enabled,
+    // cell styles are needed for the hidden flags of rows and columns
+    const workbook = XLSX.readFile(localPath, {
+      bookVBA: true,
+      cellStyles: true,
+    });
+    const document: DocumentNode = { type: "document", title: null, children: [] };
 
     // Process each sheet in the workbook
-    workbook.SheetNames.forEach((sheetName) => {
+    workbook.SheetNames.forEach((sheetName, index) => {
       const worksheet = workbook.Sheets[sheetName];
       if (!worksheet) return;
+      // 1 for hidden sheets, 2 for sheets only VBA can show ("very hidden")
+      const hidden = workbook.Workbook?.Sheets?.[index]?.Hidden || 0;
+      if (hidden && !options.spreadsheetAudit) return;
 
-      // Add sheet name as a heading
-      mdContent += `## ${sheetName}\n`;
-
-      // Convert sheet data to JSON format for easier processing
-      const tableContent = XLSX.utils.sheet_to_json(worksheet, {});
-
-      // Extract table structure from the first row
-      const firstRow = tableContent[0] as Record<string, unknown>;
-      const tableHead = Object.keys(firstRow);
-
-      // Convert each row to a pipe-separated string for markdown table format
-      const tableBody = tableContent.map((row: any) => {
-        const tableRow = Object.values(row)
-          .map((cell: any) => `${cell}`)
-          .join(" | ");
-        return tableRow;
+      // Each sheet becomes a section with its name as heading and its content as table
+      document.children.push({
+        type: "section",
+        kind: "sheet",
+        name: sheetName,
+        number: index + 1,
+        children: [
+          {
+            type: "heading",
+            level: 2,
+            text: hidden
+              ? `${sheetName} (${hidden === 2 ? "very hidden" : "hidden"})`
+              : sheetName,
+          },
+          ...this._sheetToBlocks(worksheet, options),
+          ...(options.spreadsheetAudit ? this._auditBlocks(worksheet) : []),
+        ],
       });
-
-      // Construct the markdown table with headers, separator line, and content
-      const mdTable = [
-        // Header row with column names
-        `|${tableHead.join("|")}`,
-        // Separator row with dashes
-        `${tableHead.map((key) => "-".repeat(key.length)).join("|")}`,
-        // Data rows
-        `${tableBody.map((row) => `|${row}|`).join("\n")}`,
-      ].join("\n");
-
-      mdContent += mdTable + "\n\n";
     });
 
+    if (options.spreadsheetAudit) {
+      document.children.push(
+        ...this._definedNameBlocks(workbook),
+        ...this._vbaBlocks(workbook)
+      );
+    }
+
     // Return the converted content without a title
     return {
       title: null,
-      textContent: mdContent.trim(),
+      textContent: renderMarkdown(document).trim(),
+      document,
     };
   }
+
+  /**
+   * Converts the cell grid of a worksheet to a table, see spreadsheetTableBlocks.
+   *
+   * @param {XLSX.WorkSheet} worksheet - The worksheet
+   * @param {ConversionOptions} options - Conversion options
+   * @returns {BlockNode[]} The table of the sheet, or no blocks if the sheet is empty
+   * @private
+   */
+  private _sheetToBlocks(
+    worksheet: XLSX.WorkSheet,
+    options: ConversionOptions
+  ): BlockNode[] {
+    if (!worksheet["!ref"]) return [];
+    const range = XLSX.utils.decode_range(worksheet["!ref"]);
+
+    // Merged ranges repeat the value of their top left cell
+    const mergedValues = new Map<string, string>();
+    for (const merge of worksheet["!merges"] || []) {
+      const value = this._cellText(
+        worksheet[XLSX.utils.encode_cell(merge.s)]
+      );
+      for (let r = merge.s.r; r <= merge.e.r; r++) {
+        for (let c = merge.s.c; c <= merge.e.c; c++) {
+          mergedValues.set(XLSX.utils.encode_cell({ r, c }), value);
+        }
+      }
+    }
+
+    const columns: number[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      if (!worksheet["!cols"]?.[c]?.hidden) columns.push(c);
+    }
+
+    // Only the rows shown in the table are built into cells, the others are counted
+    const rowLimit = gridRowLimit(options);
+    const grid: SpreadsheetCell[][] = [];
+    let filledRows = 0;
+    let omittedRows = 0;
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      if (worksheet["!rows"]?.[r]?.hidden) continue;
+      const row = columns.map((c) => {
+        const address = XLSX.utils.encode_cell({ r, c });
+        const cell: XLSX.CellObject | undefined = worksheet[address];
+        return {
+          text: mergedValues.get(address) ?? this._cellText(cell),
+          isText: cell?.t === "s",
+        };
+      });
+      if (!row.some((cell) => cell.text)) continue;
+      if (filledRows++ < rowLimit) grid.push(row);
+      else omittedRows++;
+    }
+
+    return spreadsheetTableBlocks(grid, options, omittedRows);
+  }
+
+  /**
+   * Lists the formulas behind computed cells and the cell comments of a worksheet,
+   * including cells in hidden rows and columns.
+   *
+   * @param {XLSX.WorkSheet} worksheet - The worksheet
+   * @returns {BlockNode[]} Tables of the formulas and comments, if the sheet has any
+   * @private
+   */
+  private _auditBlocks(worksheet: XLSX.WorkSheet): BlockNode[] {
+    const formulas: string[][] = [];
+    const comments: string[][] = [];
+    for (const address of Object.keys(worksheet)) {
+      if (address.startsWith("!")) continue;
+      const cell: XLSX.CellObject = worksheet[address];
+      if (cell.f) {
+        formulas.push([
+          cell.F && cell.F !== address ? `${address} (${cell.F})` : address,
+          `\`=${cell.f}\``,
+          this._cellText(cell),
+        ]);
+      }
+      for (const comment of cell.c || []) {
+        comments.push([address, comment.a || "", comment.t || ""]);
+      }
+    }
+
+    // Object keys are in insertion order, sort the cells by row and column
+    const byAddress = (a: string[], b: string[]) => {
+      const first = XLSX.utils.decode_cell(a[0]!.split(" ")[0]!);
+      const second = XLSX.utils.decode_cell(b[0]!.split(" ")[0]!);
+      return first.r - second.r || first.c - second.c;
+    };
+
+    const blocks: BlockNode[] = [];
+    if (formulas.length) {
+      blocks.push(
+        { type: "heading", level: 3, text: "Formulas" },
+        {
+          type: "table",
+          header: ["Cell", "Formula", "Value"],
+          rows: formulas.sort(byAddress),
+        }
+      );
+    }
+    if (comments.length) {
+      blocks.push(
+        { type: "heading", level: 3, text: "Comments" },
+        {
+          type: "table",
+          header: ["Cell", "Author", "Comment"],
+          rows: comments.sort(byAddress),
+        }
+      );
+    }
+    return blocks;
+  }
+
+  /**
+   * Lists the defined names (named ranges) of a workbook with their scope and reference.
+   *
+   * @param {XLSX.WorkBook} workbook - The workbook
+   * @returns {BlockNode[]} A table of the defined names, if the workbook has any
+   * @private
+   */
+  private _definedNameBlocks(workbook: XLSX.WorkBook): BlockNode[] {
+    const names = workbook.Workbook?.Names || [];
+    if (!names.length) return [];
+    const table: TableNode = {
+      type: "table",
+      header: ["Name", "Scope", "Refers To", "Comment"],
+      rows: names.map((name) => [
+        name.Name,
+        name.Sheet === undefined
+          ? "Workbook"
+          : workbook.SheetNames[name.Sheet] || String(name.Sheet),
+        name.Ref ? `\`${name.Ref}\`` : "",
+        name.Comment || "",
+      ]),
+    };
+    return [{ type: "heading", level: 2, text: "Defined Names" }, table];
+  }
+
+  /**
+   * Lists the VBA modules of a macro-enabled workbook with their source code.
+   *
+   * @param {XLSX.WorkBook} workbook - The workbook, read with `bookVBA`
+   * @returns {BlockNode[]} A heading and code block per module, if the workbook has macros
+   * @private
+   */
+  private _vbaBlocks(workbook: XLSX.WorkBook): BlockNode[] {
+    if (!workbook.vbaraw) return [];
+    const modules = extractVbaModules(workbook.vbaraw);
+    if (!modules.length) return [];
+    return [
+      { type: "heading", level: 2, text: "VBA Modules" },
+      ...modules.flatMap((module): BlockNode[] => [
+        {
+          type: "heading",
+          level: 3,
+          text: `${module.name} (${module.type} module)`,
+        },
+        { type: "code", language: "vba", value: module.source },
+      ]),
+    ];
+  }
+
+  /**
+   * Gets the display text of a cell: its formatted value, or the raw value if the cell
+   * has no number format. Hyperlinks become Markdown links.
+   *
+   * @param {XLSX.CellObject | undefined} cell - The cell
+   * @returns {string} The cell text, empty for missing cells
+   * @private
+   */
+  private _cellText(cell: XLSX.CellObject | undefined): string {
+    if (!cell || cell.t === "z") return "";
+    let text = cell.w ?? (cell.v === undefined ? "" : String(cell.v));
+    text = text.trim();
+    if (text && cell.l?.Target) text = `[${text}](${cell.l.Target})`;
+    return text;
+  }
 }
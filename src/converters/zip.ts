@@ -6,6 +6,12 @@ import type {
   DocumentConverterResult,
   ConversionOptions,
 } from "../types/document";
+import type {
+  BlockNode,
+  DocumentNode,
+  SectionNode,
+} from "../types/documentModel";
+import { renderMarkdown } from "../utils/markdownRenderer";
 
 /**
  * ZipConverter handles the conversion of ZIP archives to Markdown format.
@@ -41,6 +47,7 @@ export default class ZipConverter extends DocumentConverter {
    * @param {ConversionOptions} options - Conversion options including:
    *   - fileExtension: The file extension (must be .zip)
    *   - parentConverters: Array of available document converters for processing extracted files
+   *   - fileName: Name of the archive if it was converted from a buffer or stream
    * @returns {Promise<DocumentConverterResult>} Object containing:
    *   - Markdown content with results from all processed files
    *   - Error message if processing fails or no converters are available
@@ -72,9 +79,17 @@ export default class ZipConverter extends DocumentConverter {
       path.dirname(localPath),
       `extracted_${path.basename(localPath, ".zip")}`
     );
-    let mdContent = `Content from the zip file \`${path.basename(
-      localPath
-    )}\`:\n\n`;
+    const document: DocumentNode = {
+      type: "document",
+      title: null,
+      children: [
+        {
+          type: "paragraph",
+          // Buffers and streams are converted from a temporary file, named by the caller
+          text: `Content from the zip file \`${path.basename(options.fileName || localPath)}\`:`,
+        },
+      ],
+    };
 
     try {
       // Extract archive contents
@@ -84,14 +99,17 @@ export default class ZipConverter extends DocumentConverter {
         .promise();
 
       // Process extracted files
-      mdContent += await this.processDirectory(extractionDir, parentConverters);
+      document.children.push(
+        ...(await this.processDirectory(extractionDir, parentConverters))
+      );
 
       // Cleanup temporary directory
       fs.rmSync(extractionDir, { recursive: true, force: true });
 
       return {
         title: null,
-        textContent: mdContent.trim(),
+        textContent: renderMarkdown(document).trim(),
+        document,
       };
     } catch (error) {
       return {
@@ -111,7 +129,7 @@ export default class ZipConverter extends DocumentConverter {
    * @param {DocumentConverter[]} parentConverters - Conversion options
    * @param {string} [parentDirName] - The name of the parent directory (if present)
    *
-   * @returns {Promise<string>} The processed directory contents
+   * @returns {Promise<SectionNode[]>} A file section for each converted file
    *
    * @private
    */
@@ -119,22 +137,28 @@ export default class ZipConverter extends DocumentConverter {
     extractionDir: string,
     parentConverters: DocumentConverter[],
     parentDirName?: string
-  ): Promise<string> {
-    let mdContent = "";
+  ): Promise<SectionNode[]> {
+    const sections: SectionNode[] = [];
     // Process extracted files
     const files = fs.readdirSync(extractionDir, { withFileTypes: true });
     // Convert each file using appropriate converter
     for (const file of files) {
       if (file.isDirectory()) {
-        mdContent += await this.processDirectory(
-          path.join(extractionDir, file.name),
-          parentConverters,
-          parentDirName ? parentDirName + "/" + file.name : file.name // add parent directory name if present, else add current directory name
+        sections.push(
+          ...(await this.processDirectory(
+            path.join(extractionDir, file.name),
+            parentConverters,
+            parentDirName ? parentDirName + "/" + file.name : file.name // add parent directory name if present, else add current directory name
+          ))
         );
         continue;
       }
       const filePath = path.join(extractionDir, file.name);
       const fileExt = path.extname(file.name);
+      // add parent directory name if present
+      const entryPath = parentDirName
+        ? `${parentDirName}/${file.name}`
+        : file.name;
 
       // Try each available converter
       for (const converter of parentConverters) {
@@ -147,17 +171,24 @@ export default class ZipConverter extends DocumentConverter {
           parentConverters,
         });
 
-        // Add successful conversion to output
+        // Add successful conversion to output, keeping the structure of the file if known
         if (result) {
-          mdContent += `\n## File: `;
-          mdContent += parentDirName ? parentDirName + "/" : ""; // add parent directory name if present
-          mdContent += `${file.name}\n\n`; // add filename
-          mdContent += `${result.textContent}\n\n`; // add conversion result
+          sections.push({
+            type: "section",
+            kind: "file",
+            name: entryPath,
+            children: [
+              { type: "heading", level: 2, text: `File: ${entryPath}` },
+              ...(result.document?.children || [
+                { type: "markdown", value: result.textContent } as BlockNode,
+              ]),
+            ],
+          });
           break;
         }
       }
     }
 
-    return mdContent;
+    return sections;
   }
 }
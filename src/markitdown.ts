@@ -1,10 +1,22 @@
 import path from "path";
 import fs from "fs";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import { Blob } from "buffer";
 import axios, { type AxiosInstance, type AxiosResponse } from "axios";
 import tmp from "tmp";
+import iconv from "iconv-lite";
+import mime from "mime-types";
 import Ffmpeg from "fluent-ffmpeg";
-import type { LlmCall, MarkItDownOptions } from "./types/markitdown";
-import type { DocumentConverterResult } from "./types/document";
+import type {
+  ConvertSource,
+  LlmCall,
+  MarkItDownOptions,
+} from "./types/markitdown";
+import type {
+  DocumentConverterResult,
+  DocumentMetadata,
+} from "./types/document";
 import DocumentConverter from "./converters/document";
 import PlainTextConverter from "./converters/plainText";
 import HtmlConverter from "./converters/html";
@@ -14,7 +26,16 @@ import YouTubeConverter from "./converters/youtube";
 import BingSerpConverter from "./converters/bingSerp";
 import DocxConverter from "./converters/docx";
 import XlsxConverter from "./converters/xlsx";
+import CsvConverter from "./converters/csv";
 import PptxConverter from "./converters/pptx";
+import PptConverter from "./converters/ppt";
+import DocConverter from "./converters/doc";
+import OdtConverter from "./converters/odt";
+import OdpConverter from "./converters/odp";
+import EpubConverter from "./converters/epub";
+import RtfConverter from "./converters/rtf";
+import EmlConverter from "./converters/eml";
+import MboxConverter from "./converters/mbox";
 import AudioConverter from "./converters/audio";
 import VideoConverter from "./converters/video";
 import ImageConverter from "./converters/image";
@@ -23,6 +44,14 @@ import PdfConverter from "./converters/pdf";
 import ZipConverter from "./converters/zip";
 import OutlookMsgConverter from "./converters/outlookMsg";
 import DocumentIntelligenceConverter from "./converters/documentIntelligence";
+import {
+  detectFileExtensions,
+  extensionsFromHints,
+  parseCharset,
+  parseContentDispositionFileName,
+} from "./utils/detection";
+import { renderFrontMatter } from "./utils/metadata";
+import { parsePageRanges } from "./utils/pageRanges";
 
 declare global {
   var IS_FFMPEG_CAPABLE: boolean;
@@ -131,7 +160,16 @@ export default class MarkItDown {
     this.registerConverter(new BingSerpConverter());
     this.registerConverter(new DocxConverter());
     this.registerConverter(new XlsxConverter());
+    this.registerConverter(new CsvConverter());
     this.registerConverter(new PptxConverter());
+    this.registerConverter(new PptConverter());
+    this.registerConverter(new DocConverter());
+    this.registerConverter(new OdtConverter());
+    this.registerConverter(new OdpConverter());
+    this.registerConverter(new EpubConverter());
+    this.registerConverter(new RtfConverter());
+    this.registerConverter(new EmlConverter());
+    this.registerConverter(new MboxConverter());
     this.registerConverter(new AudioConverter());
     this.registerConverter(new VideoConverter());
     this.registerConverter(new ImageConverter());
@@ -143,15 +181,21 @@ export default class MarkItDown {
 
   /**
    * Converts a source to markdown format.
-   * @param {string | fs.ReadStream} source - The source to convert (URL, file path, or ReadStream)
+   * @param {ConvertSource} source - The source to convert (URL, file path, ReadStream, any Readable,
+   *   web ReadableStream, Buffer, Uint8Array, ArrayBuffer, Blob or File)
    * @param {Object} [options={}] - Conversion options
+   * @param {string} [options.fileName] - Optional file name of an in-memory or streamed source, used to pick a converter
+   * @param {string} [options.mimeType] - Optional MIME type of an in-memory or streamed source, used to pick a converter
+   * @param {boolean} [options.frontMatter=false] - Prepend the result metadata to the Markdown as YAML front matter
    * @returns {Promise<DocumentConverterResult>} The conversion result
-   * @throws {Error} When the source type is unsupported
+   * @throws {Error} When the source type is unsupported or the `pages` option is invalid
    */
   async convert(
-    source: string | fs.ReadStream,
+    source: ConvertSource,
     options: Record<string, any> = {}
   ): Promise<DocumentConverterResult> {
+    // Converter errors only make the next converter try, invalid options are reported here
+    if (options.pages) parsePageRanges(options.pages);
     options.parentConverters = this._pageConverters;
     options.requestsSession = this._requestsSession;
     options.llmCall = this._llmCall;
@@ -164,44 +208,91 @@ export default class MarkItDown {
       }
       return this.convertLocal(source, options);
     }
-    if (source instanceof fs.ReadStream) {
+    if (source instanceof Readable) {
       return this.convertStream(source, options);
     }
+    if (source instanceof ReadableStream) {
+      return this.convertStream(Readable.fromWeb(source), options);
+    }
+    if (source instanceof Uint8Array || source instanceof ArrayBuffer) {
+      return this.convertBuffer(source, options);
+    }
+    if (source instanceof Blob) {
+      options.fileName =
+        options.fileName || ("name" in source ? String(source.name) : null);
+      options.mimeType = options.mimeType || source.type || null;
+      return this.convertStream(
+        Readable.fromWeb(source.stream() as ReadableStream),
+        options
+      );
+    }
     throw new Error("Unsupported source type.");
   }
 
   /**
-   * Converts a File ReadStream to markdown.
-   * @param {fs.ReadStream} stream - The input stream to convert
+   * Converts an in-memory buffer to markdown.
+   * Uses the same format detection and temp file handling as convertStream.
+   * @param {Buffer | Uint8Array | ArrayBuffer} buffer - The file content to convert
+   * @param {Object} [options={}] - Conversion options
+   * @param {string} [options.fileName] - Optional file name to help determine the converter and name the source
+   * @param {string} [options.mimeType] - Optional MIME type to help determine the converter
+   * @returns {Promise<DocumentConverterResult>} The conversion result
+   */
+  async convertBuffer(
+    buffer: Buffer | Uint8Array | ArrayBuffer,
+    options: Record<string, any> = {}
+  ): Promise<DocumentConverterResult> {
+    const data = Buffer.isBuffer(buffer)
+      ? buffer
+      : buffer instanceof ArrayBuffer
+      ? Buffer.from(buffer)
+      : Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    // Readable.from emits a buffer as a single chunk instead of iterating its bytes
+    return this.convertStream(Readable.from(data), options);
+  }
+
+  /**
+   * Converts a readable stream to markdown.
+   * The stream is written to a temporary file whose format is determined from the
+   * file name and MIME type hints, the path of a file ReadStream and the file content.
+   * @param {Readable} stream - The input stream to convert
    * @param {Object} [options={}] - Conversion options
    * @param {string} [options.fileExtension] - Optional file extension to help determine the converter
+   * @param {string} [options.fileName] - Optional file name to help determine the converter and name the source
+   * @param {string} [options.mimeType] - Optional MIME type to help determine the converter
    * @returns {Promise<DocumentConverterResult>} The conversion result
    */
   async convertStream(
-    stream: fs.ReadStream,
-    options: { fileExtension?: string } = {}
+    stream: Readable,
+    options: Record<string, any> = {}
   ): Promise<DocumentConverterResult> {
-    const extensions = options.fileExtension ? [options.fileExtension] : [];
+    // Converters name the source by the file name rather than the temporary file
+    options.fileName =
+      options.fileName ||
+      (stream instanceof fs.ReadStream ? path.basename(String(stream.path)) : null);
+    const hintedExtensions = extensionsFromHints({
+      fileName: options.fileName,
+      mimeType: options.mimeType,
+    });
     const tempPath = tmp.fileSync({
       prefix: "markitdownjs-",
-      postfix: ".html",
     }).name;
-    let result: DocumentConverterResult = null;
 
     try {
       const writableStream = fs.createWriteStream(tempPath);
       await new Promise<void>((resolve, reject) => {
         stream.pipe(writableStream);
-        stream.on("end", resolve);
+        writableStream.on("finish", resolve);
+        writableStream.on("error", reject);
         stream.on("error", reject);
       });
 
-      const guessedExtensions = this._determineExtensions(tempPath, options);
-      guessedExtensions.forEach((ext) =>
-        this._convert(tempPath, [ext], options)
+      const extensions = await this._determineExtensions(
+        tempPath,
+        options,
+        hintedExtensions
       );
-
-      result = await this._convert(tempPath, extensions, options);
+      return await this._convert(tempPath, extensions, options);
     } finally {
       try {
         fs.unlinkSync(tempPath);
@@ -209,8 +300,6 @@ export default class MarkItDown {
         console.error("Error deleting temp file:", err);
       }
     }
-
-    return result;
   }
 
   /**
@@ -223,7 +312,7 @@ export default class MarkItDown {
     filePath: string,
     options: Record<string, any> = {}
   ): Promise<DocumentConverterResult> {
-    const extensions = this._determineExtensions(filePath, options);
+    const extensions = await this._determineExtensions(filePath, options);
     return this._convert(filePath, extensions, options);
   }
 
@@ -237,6 +326,7 @@ export default class MarkItDown {
     url: string,
     options: Record<string, any> = {}
   ): Promise<DocumentConverterResult> {
+    options.url = options.url || url;
     const response = await this._requestsSession.get(url, {
       responseType: "stream",
     });
@@ -245,6 +335,9 @@ export default class MarkItDown {
 
   /**
    * Converts an Axios response to markdown.
+   * The converter is chosen from the `Content-Disposition` file name, the `Content-Type`
+   * header and the URL path, falling back to detecting the format from the content.
+   * Text responses with a non UTF-8 charset are decoded before conversion.
    * @param {AxiosResponse} response - The Axios response to convert
    * @param {Object} [options={}] - Conversion options
    * @returns {Promise<DocumentConverterResult>} The conversion result
@@ -253,9 +346,18 @@ export default class MarkItDown {
     response: AxiosResponse,
     options: Record<string, any> = {}
   ): Promise<DocumentConverterResult> {
+    const contentType: string | undefined = response.headers["content-type"];
+    options.fileName =
+      options.fileName ||
+      parseContentDispositionFileName(response.headers["content-disposition"]);
+    const hintedExtensions = extensionsFromHints({
+      fileName: options.fileName,
+      mimeType: contentType,
+      url: response.request?.res?.responseUrl || response.config?.url,
+    });
+
     const tempFile = tmp.tmpNameSync({
       prefix: "markitdownjs-",
-      postfix: ".html",
     });
     try {
       const writer = fs.createWriteStream(tempFile);
@@ -265,23 +367,44 @@ export default class MarkItDown {
         writer.on("error", reject);
       });
 
-      return this._convert(
+      if (contentType && /^text\/|[+/](json|xml|html)\b/i.test(contentType))
+        this._decodeCharset(tempFile, parseCharset(contentType));
+
+      const extensions = await this._determineExtensions(
         tempFile,
-        this._determineExtensions(tempFile, options),
-        options
-      ).finally(() => {
-        try {
-          fs.unlinkSync(tempFile);
-        } catch (err) {
-          console.error("Error deleting temp file:", err);
-        }
-      });
+        options,
+        hintedExtensions
+      );
+      return await this._convert(tempFile, extensions, options);
     } catch (err) {
       console.error("Error converting response:", err);
       return null;
+    } finally {
+      try {
+        fs.unlinkSync(tempFile);
+      } catch (err) {
+        console.error("Error deleting temp file:", err);
+      }
     }
   }
 
+  /**
+   * Re-encodes a text file from the given charset to UTF-8 in place,
+   * since the converters read text files as UTF-8.
+   * @private
+   * @param {string} filePath - Path to the text file
+   * @param {string | null} charset - Charset the file is encoded with
+   */
+  private _decodeCharset(filePath: string, charset: string | null): void {
+    if (!charset || ["utf-8", "utf8", "us-ascii"].includes(charset)) return;
+    if (!iconv.encodingExists(charset)) {
+      console.warn(`Unknown charset "${charset}", reading content as UTF-8.`);
+      return;
+    }
+    const text = iconv.decode(fs.readFileSync(filePath), charset);
+    fs.writeFileSync(filePath, text, "utf-8");
+  }
+
   /**
    * Internal method to convert a file using the appropriate converter.
    * @private
@@ -307,7 +430,7 @@ export default class MarkItDown {
             ...options,
             fileExtension: ext,
           });
-          if (result) return result;
+          if (result) return this._withMetadata(result, converter, ext, options);
         } catch (error) {
           console.error(
             `Conversion failed for ${filePath} with ${ext}:`,
@@ -319,19 +442,67 @@ export default class MarkItDown {
     throw new Error(`Cannot convert ${filePath}. No suitable converter found.`);
   }
 
+  /**
+   * Completes the metadata of a conversion result with the converter name, the MIME type
+   * of the converted format and the source URL, and prepends the YAML front matter if requested.
+   * Metadata set by the converter takes precedence.
+   * @private
+   * @param {NonNullable<DocumentConverterResult>} result - The conversion result
+   * @param {DocumentConverter} converter - The converter which produced the result
+   * @param {string} extension - The file extension the result was converted as
+   * @param {Object} options - Conversion options
+   * @returns {DocumentConverterResult} The result with its metadata
+   */
+  private _withMetadata(
+    result: NonNullable<DocumentConverterResult>,
+    converter: DocumentConverter,
+    extension: string,
+    options: Record<string, any>
+  ): DocumentConverterResult {
+    const metadata: DocumentMetadata = {
+      converter: converter.constructor.name,
+    };
+    const mimeType = mime.lookup(extension);
+    if (mimeType) metadata.mimeType = mimeType;
+    if (options.url) metadata.sourceUrl = options.url;
+    for (const [key, value] of Object.entries(result.metadata || {})) {
+      if (value !== undefined)
+        (metadata as Record<string, unknown>)[key] = value;
+    }
+
+    const textContent = options.frontMatter
+      ? `${renderFrontMatter(result.title, metadata)}\n${result.textContent}`
+      : result.textContent;
+    return { ...result, textContent, metadata };
+  }
+
   /**
    * Determines the file extensions to try for conversion.
+   * Extensions given explicitly, hinted by the source or found in the file name are tried
+   * first, followed by the extensions detected from the file content.
    * @private
    * @param {string} filePath - Path to the file
    * @param {Object} options - Options containing potential file extension
-   * @returns {string[]} Array of possible file extensions
+   * @param {string[]} [hintedExtensions=[]] - Extensions derived from the source, e.g. HTTP headers
+   * @returns {Promise<string[]>} Array of possible file extensions, most likely first
    */
-  private _determineExtensions(
+  private async _determineExtensions(
     filePath: string,
-    options: Record<string, any>
-  ): string[] {
-    const ext = options.fileExtension || path.extname(filePath);
-    return ext ? [ext] : [];
+    options: Record<string, any>,
+    hintedExtensions: string[] = []
+  ): Promise<string[]> {
+    const extensions: string[] = [];
+    if (options.fileExtension) extensions.push(options.fileExtension);
+    extensions.push(...hintedExtensions);
+    if (path.extname(filePath)) extensions.push(path.extname(filePath));
+    extensions.push(...(await detectFileExtensions(filePath)));
+
+    // Remove duplicates while keeping the ranking
+    return extensions.filter(
+      (ext, index) =>
+        extensions.findIndex((e) => e.toLowerCase() === ext.toLowerCase()) ===
+        index
+    );
   }
 
   /**
@@ -354,7 +525,16 @@ export {
   BingSerpConverter,
   DocxConverter,
   XlsxConverter,
+  CsvConverter,
   PptxConverter,
+  PptConverter,
+  DocConverter,
+  OdtConverter,
+  OdpConverter,
+  EpubConverter,
+  RtfConverter,
+  EmlConverter,
+  MboxConverter,
   AudioConverter,
   VideoConverter,
   ImageConverter,
@@ -366,3 +546,24 @@ export {
 };
 export { default as CustomMarkdownConverter } from "./converters/customMarkdown";
 export { default as MediaConverter } from "./converters/media";
+export {
+  detectFileExtensions,
+  extensionsFromHints,
+  parseContentDispositionFileName,
+  parseCharset,
+  detectTextEncoding,
+} from "./utils/detection";
+export {
+  renderMarkdown,
+  renderMarkdownTable,
+  escapeTableCell,
+} from "./utils/markdownRenderer";
+export type * from "./types/documentModel";
+export type { DocumentMetadata } from "./types/document";
+export {
+  renderFrontMatter,
+  toIsoDate,
+  normalizeMetadataValue,
+} from "./utils/metadata";
+export { default as MarkdownChunker } from "./utils/chunker";
+export type { Chunk, ChunkSource, ChunkerOptions } from "./utils/chunker";
@@ -1,11 +1,30 @@
 import type { AxiosInstance } from "axios";
 import type DocumentConverter from "../converters/document";
 import type { MarkItDownOptions } from "./markitdown";
+import type { DocumentNode } from "./documentModel";
+
+// Metadata of a converted document. Dates are ISO 8601 strings.
+// Format specific fields which don't fit the common ones are kept in `extra`.
+export type DocumentMetadata = {
+  author?: string;
+  createdAt?: string;
+  modifiedAt?: string;
+  pageCount?: number;
+  language?: string;
+  sourceUrl?: string;
+  mimeType?: string;
+  // Name of the converter which produced the result, e.g. "PdfConverter"
+  converter?: string;
+  extra?: Record<string, unknown>;
+};
 
 // Represents the result of converting a document to text.
+// Converters which know the structure of the document also return it as a document tree.
 export type DocumentConverterResult = {
   title: string | null;
   textContent: string;
+  document?: DocumentNode;
+  metadata?: DocumentMetadata;
 } | null;
 
 // Represents the options passed to the converter for converting a document to text.
@@ -13,5 +32,65 @@ export type ConversionOptions = {
   fileExtension: string;
   parentConverters?: DocumentConverter[];
   url?: string;
+  // File name of a buffer, stream or download, which is converted from a temporary file
+  fileName?: string | null;
   requestsSession?: AxiosInstance;
+  // Prepend the result metadata to textContent as YAML front matter
+  frontMatter?: boolean;
+  // Pages of a PDF to convert, e.g. "1-5,9" (1-based, all pages by default)
+  pages?: string;
+  // Maximum number of PDF pages to convert, for huge files
+  maxPages?: number;
+  // OCR of PDF pages without a text layer: "auto" (default) only OCRs those pages,
+  // "always" OCRs every page and "never" disables it. Pages are rendered with pdftoppm,
+  // without it no page is OCRed, also not with llmCall
+  ocr?: "auto" | "always" | "never";
+  // Tesseract language codes used for OCR, e.g. ["eng", "deu"] (["eng"] by default)
+  ocrLanguages?: string[];
+  // Whether the first row of a spreadsheet is the table header,
+  // "auto" (default) uses it if most of its cells hold text
+  headerRow?: "auto" | "first" | "none";
+  // Maximum number of table rows per spreadsheet sheet, the rest is summarized
+  maxRows?: number;
+  // Include hidden sheets and append formulas, cell comments, defined names and VBA
+  // macros of spreadsheets, to audit how their values are computed
+  spreadsheetAudit?: boolean;
+  // Convert the attachments of email messages with the other converters and append
+  // them under `## Attachment: <name>` headings
+  convertAttachments?: boolean;
+  // Maximum nesting of converted attachments, e.g. 2 also converts the attachments
+  // of an attached message (2 by default)
+  maxAttachmentDepth?: number;
+  // Attachments larger than this many bytes are listed but not converted (25 MB by default)
+  maxAttachmentSize?: number;
+  // Nesting depth of the attachment being converted, set by the email converters
+  attachmentDepth?: number;
+  // Replace the quoted messages of email replies and forwards with a note
+  collapseQuotedReplies?: boolean;
+  // Render the footnotes and endnotes of DOCX files as Markdown footnotes
+  docxFootnotes?: boolean;
+  // Append the reviewer comments of DOCX files as Markdown footnotes
+  docxComments?: boolean;
+  // Text of DOCX tracked changes: "accepted" (default) with the insertions and without
+  // the deletions, "original" the text before the changes
+  docxTrackedChanges?: "accepted" | "original";
+  // Include the page headers and footers of DOCX files
+  docxHeadersFooters?: boolean;
+  // Images of DOCX files: "none" (default) keeps their alt text, "dataUri" embeds them,
+  // "directory" writes them to `imageDirectory` and "describe" replaces them with an llmCall description
+  docxImages?: "none" | "dataUri" | "directory" | "describe";
+  // Directory the images are written to, required for `docxImages: "directory"`
+  imageDirectory?: string;
+  // Pictures of PPTX files: "alt" (default) keeps their alt text, "describe" replaces it
+  // with an llmCall description, one call per picture
+  pptxImages?: "alt" | "describe";
+  // Tables with merged cells or nested tables in HTML based conversions: "markdown" (default)
+  // repeats merged cells and flattens nested tables, "html" keeps such tables as HTML
+  complexTables?: "markdown" | "html";
+  // Only convert the main content of web pages, like the text of an article, without
+  // navigation, headers, footers, sidebars and ads; pages without clear main content are converted whole
+  readability?: boolean;
+  // Rewrite the links and image sources of HTML based conversions relative to this URL or
+  // path, the location the Markdown is written to (a directory if it ends with a slash)
+  relativeLinksTo?: string;
 } & MarkItDownOptions;
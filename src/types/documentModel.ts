@@ -0,0 +1,105 @@
+// Typed intermediate representation of a converted document.
+// Converters can emit this tree alongside textContent so consumers don't have to re-parse Markdown.
+// Text fields hold inline Markdown (emphasis, links, code spans), block structure is expressed by the nodes.
+
+// Root of the document tree.
+export type DocumentNode = {
+  type: "document";
+  title?: string | null;
+  children: BlockNode[];
+};
+
+// Kind of boundary a section represents in the source document.
+export type SectionKind =
+  | "page"
+  | "slide"
+  | "sheet"
+  | "file"
+  | "chapter"
+  | "message"
+  | "item";
+
+// A boundary in the source document, e.g. a PDF page, a slide, a worksheet or a zip entry.
+export type SectionNode = {
+  type: "section";
+  kind: SectionKind;
+  // Name of the boundary, e.g. the sheet name or the zip entry path
+  name?: string;
+  // 1-based position of the boundary, e.g. the page or slide number
+  number?: number;
+  children: BlockNode[];
+};
+
+export type HeadingNode = {
+  type: "heading";
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  text: string;
+};
+
+export type ParagraphNode = {
+  type: "paragraph";
+  text: string;
+};
+
+export type ListItemNode = {
+  type: "listItem";
+  text: string;
+  // Nested blocks of the item, e.g. sub-lists
+  children?: BlockNode[];
+};
+
+export type ListNode = {
+  type: "list";
+  ordered: boolean;
+  start?: number;
+  items: ListItemNode[];
+};
+
+export type TableNode = {
+  type: "table";
+  // Header cells, or null if the table has no header row
+  header: string[] | null;
+  rows: string[][];
+};
+
+export type ImageNode = {
+  type: "image";
+  src: string;
+  alt?: string;
+  title?: string;
+};
+
+export type CodeBlockNode = {
+  type: "code";
+  language?: string;
+  value: string;
+};
+
+export type BlockquoteNode = {
+  type: "blockquote";
+  children: BlockNode[];
+};
+
+export type ThematicBreakNode = {
+  type: "thematicBreak";
+};
+
+// Markdown which is already rendered and kept as-is, e.g. a notebook markdown cell.
+export type MarkdownNode = {
+  type: "markdown";
+  value: string;
+};
+
+export type BlockNode =
+  | SectionNode
+  | HeadingNode
+  | ParagraphNode
+  | ListNode
+  | TableNode
+  | ImageNode
+  | CodeBlockNode
+  | BlockquoteNode
+  | ThematicBreakNode
+  | MarkdownNode;
+
+export type DocumentModelNode = DocumentNode | BlockNode | ListItemNode;
@@ -1,4 +1,7 @@
 import fs from "fs";
+import type { Readable } from "stream";
+import type { ReadableStream } from "stream/web";
+import type { Blob } from "buffer";
 import type { AxiosInstance } from "axios";
 
 type TextContent = {
@@ -38,3 +41,13 @@ export interface MarkItDownOptions {
   styleMap?: any;
   docintelEndpoint?: string | null;
 }
+
+// Sources accepted by MarkItDown.convert: a URL or file path, a stream, or in-memory content.
+export type ConvertSource =
+  | string
+  | Readable
+  | ReadableStream
+  | Buffer
+  | Uint8Array
+  | ArrayBuffer
+  | Blob;
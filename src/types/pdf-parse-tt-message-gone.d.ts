@@ -20,7 +20,7 @@ declare module "pdf-parse-tt-message-gone/lib/pdf-parse.js" {
       text: string;
     }
     interface Options {
-      pagerender?: ((pageData: any) => string) | undefined;
+      pagerender?: ((pageData: any) => string | Promise<string>) | undefined;
       max?: number | undefined;
       version?: Version | undefined;
     }
@@ -28,3 +28,13 @@ declare module "pdf-parse-tt-message-gone/lib/pdf-parse.js" {
 
   export default PdfParse;
 }
+
+declare module "pdf-parse-tt-message-gone/lib/pdf.js/v1.10.100/build/pdf.js" {
+  // The pdf.js build pdf-parse uses by default, only the parts used for layout analysis are typed
+  declare const pdfjs: {
+    PDFJS: { disableFontFace?: boolean; [key: string]: any };
+    OPS: Record<string, number>;
+  };
+
+  export default pdfjs;
+}
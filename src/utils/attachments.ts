@@ -0,0 +1,93 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type {
+  ConversionOptions,
+  DocumentConverterResult,
+} from "../types/document";
+import { detectFileExtensions } from "./detection";
+
+/**
+ * Default maximum nesting of converted attachments: the attachments of a message and
+ * the attachments of a message attached to it.
+ */
+const DEFAULT_MAX_ATTACHMENT_DEPTH = 2;
+
+/**
+ * Default size above which attachments are not converted, in bytes.
+ */
+const DEFAULT_MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Converts an email attachment with the parent converters, as ZipConverter does for
+ * archive entries. The attachment is written to a temporary file which is removed afterwards.
+ * Attachments nested deeper than `options.maxAttachmentDepth` or larger than
+ * `options.maxAttachmentSize` are not converted.
+ *
+ * @param {string} fileName - File name of the attachment
+ * @param {Uint8Array} content - Content of the attachment
+ * @param {ConversionOptions} options - Options of the conversion of the message
+ * @returns {Promise<DocumentConverterResult>} The converted attachment, or null if it is
+ *   over the limits or no converter can convert it
+ *
+ * @example
+ * ```typescript
+ * const result = await convertAttachment("report.pdf", content, options);
+ * if (result) markdown += `## Attachment: report.pdf\n\n${result.textContent}\n`;
+ * ```
+ */
+export async function convertAttachment(
+  fileName: string,
+  content: Uint8Array,
+  options: ConversionOptions
+): Promise<DocumentConverterResult> {
+  const depth = (options.attachmentDepth || 0) + 1;
+  if (depth > (options.maxAttachmentDepth ?? DEFAULT_MAX_ATTACHMENT_DEPTH))
+    return null;
+  if (content.length > (options.maxAttachmentSize ?? DEFAULT_MAX_ATTACHMENT_SIZE))
+    return null;
+
+  const parentConverters = [...(options.parentConverters || [])].sort(
+    (a, b) => a.priority - b.priority
+  );
+  if (!parentConverters.length) return null;
+
+  const directory = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "markitdown-attachment-")
+  );
+  try {
+    // Attachment names may contain path separators and NUL terminators, and "." or ".."
+    // would name the directory itself or its parent
+    const name = path.basename(fileName.replace(/\\/g, "/").replace(/\0/g, ""));
+    const baseName = name && name !== "." && name !== ".." ? name : "attachment";
+    const filePath = path.join(directory, baseName);
+    try {
+      await fs.promises.writeFile(filePath, content);
+    } catch (error) {
+      console.error(`Could not write attachment ${fileName}:`, error);
+      return null;
+    }
+
+    const extensions = [path.extname(baseName).toLowerCase()]
+      .concat(await detectFileExtensions(filePath))
+      .filter((ext, index, all) => ext && all.indexOf(ext) === index);
+    for (const ext of extensions) {
+      for (const converter of parentConverters) {
+        try {
+          const result = await converter.convert(filePath, {
+            ...options,
+            fileExtension: ext,
+            fileName: baseName,
+            attachmentDepth: depth,
+          });
+          if (result) return result;
+        } catch (error) {
+          console.error(`Could not convert attachment ${fileName}:`, error);
+        }
+      }
+    }
+    return null;
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,420 @@
+import type { DocumentConverterResult } from "../types/document";
+import type { BlockNode, SectionKind } from "../types/documentModel";
+import { renderMarkdown } from "./markdownRenderer";
+
+// Identifies where a chunk comes from in the source, e.g. the sheet, slide or zip entry.
+export type ChunkSource = {
+  kind: SectionKind;
+  name?: string;
+  number?: number;
+};
+
+// A piece of a converted document sized for retrieval.
+export type Chunk = {
+  text: string;
+  metadata: {
+    // Position of the chunk in the document, starting at 0
+    index: number;
+    // Title of the converted document
+    title: string | null;
+    // Headings the chunk is nested under, outermost first
+    headings: string[];
+    // Sections the chunk belongs to, outermost first
+    sources: ChunkSource[];
+  };
+};
+
+export type ChunkerOptions = {
+  // Maximum size of a chunk as measured by countSize (default: 2000)
+  maxSize?: number;
+  // Size of the text repeated from the end of the previous chunk when a section is split (default: 200)
+  overlap?: number;
+  // Measures the size of a text, e.g. a tokenizer's token count (default: number of characters)
+  countSize?: (text: string) => number;
+};
+
+type MarkdownBlock = {
+  kind: "heading" | "code" | "table" | "text";
+  text: string;
+  level?: number;
+};
+
+type HeadingEntry = {
+  level: number;
+  text: string;
+};
+
+/**
+ * Splits converted documents into chunks for retrieval pipelines.
+ *
+ * Chunks follow the Markdown heading hierarchy: every heading starts a new chunk and
+ * sections larger than `maxSize` are split between blocks, sentences or words with
+ * `overlap` repeated from the previous chunk. Fenced code blocks are never split and
+ * tables are only split between rows, repeating the header row.
+ *
+ * When the result carries a document tree, section boundaries (pages, slides, sheets,
+ * zip entries, feed items) also start new chunks and are recorded as the chunk sources.
+ *
+ * @example
+ * ```typescript
+ * const result = await new MarkItDown().convert("report.xlsx");
+ * const chunker = new MarkdownChunker({
+ *   maxSize: 512,
+ *   overlap: 32,
+ *   countSize: (text) => encoder.encode(text).length,
+ * });
+ * const chunks = chunker.chunk(result);
+ * // [{ text: "## Sheet1\n\n| ... |", metadata: { index: 0, title: null, headings: ["Sheet1"], sources: [{ kind: "sheet", name: "Sheet1", number: 1 }] } }, ...]
+ * ```
+ */
+export default class MarkdownChunker {
+  private _maxSize: number;
+  private _overlap: number;
+  private _countSize: (text: string) => number;
+
+  /**
+   * Creates a new chunker.
+   * @param {ChunkerOptions} [options={}] - Chunk size configuration
+   * @throws {Error} If maxSize is not positive or overlap is not smaller than maxSize
+   */
+  constructor({
+    maxSize = 2000,
+    overlap = 200,
+    countSize = (text: string) => text.length,
+  }: ChunkerOptions = {}) {
+    if (maxSize <= 0) throw new Error("maxSize must be greater than 0.");
+    if (overlap < 0 || overlap >= maxSize)
+      throw new Error("overlap must be between 0 and maxSize.");
+
+    this._maxSize = maxSize;
+    this._overlap = overlap;
+    this._countSize = countSize;
+  }
+
+  /**
+   * Splits a conversion result into chunks.
+   * @param {DocumentConverterResult} result - The conversion result to split
+   * @returns {Chunk[]} The chunks in document order
+   */
+  chunk(result: DocumentConverterResult): Chunk[] {
+    if (!result) return [];
+
+    const title = result.title || result.document?.title || null;
+    const chunks: Chunk[] = [];
+    if (result.document) {
+      this._chunkBlocks(result.document.children, [], [], title, chunks);
+    } else {
+      this._chunkMarkdown(result.textContent, [], [], title, chunks);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Chunks the blocks of a document tree. Each section is chunked on its own, starting
+   * with the headings it is nested under, so headings never leak into sibling sections.
+   * @param {BlockNode[]} blocks - Blocks to chunk
+   * @param {ChunkSource[]} sources - Sections the blocks belong to
+   * @param {HeadingEntry[]} headingStack - Headings the blocks are nested under
+   * @param {string | null} title - Title of the document
+   * @param {Chunk[]} chunks - Chunks to append to
+   * @private
+   */
+  private _chunkBlocks(
+    blocks: BlockNode[],
+    sources: ChunkSource[],
+    headingStack: HeadingEntry[],
+    title: string | null,
+    chunks: Chunk[]
+  ): void {
+    let pending: BlockNode[] = [];
+
+    const flushPending = () => {
+      if (pending.length) {
+        this._chunkMarkdown(
+          renderMarkdown({ type: "document", children: pending }),
+          sources,
+          headingStack,
+          title,
+          chunks
+        );
+      }
+      pending = [];
+    };
+
+    for (const block of blocks) {
+      if (block.type !== "section") {
+        pending.push(block);
+        continue;
+      }
+
+      flushPending();
+      this._chunkBlocks(
+        block.children,
+        [
+          ...sources,
+          {
+            kind: block.kind,
+            ...(block.name !== undefined ? { name: block.name } : {}),
+            ...(block.number !== undefined ? { number: block.number } : {}),
+          },
+        ],
+        [...headingStack],
+        title,
+        chunks
+      );
+    }
+    flushPending();
+  }
+
+  /**
+   * Chunks markdown along its headings.
+   * @param {string} markdown - Markdown to chunk
+   * @param {ChunkSource[]} sources - Sections the markdown belongs to
+   * @param {HeadingEntry[]} headingStack - Headings the markdown is nested under, updated in place
+   * @param {string | null} title - Title of the document
+   * @param {Chunk[]} chunks - Chunks to append to
+   * @private
+   */
+  private _chunkMarkdown(
+    markdown: string,
+    sources: ChunkSource[],
+    headingStack: HeadingEntry[],
+    title: string | null,
+    chunks: Chunk[]
+  ): void {
+    // Headings and blocks of the chunk being built
+    let blocks: string[] = [];
+    // Whether the chunk has more than just headings
+    let hasContent = false;
+    // Text repeated from the previous chunk when a section is split
+    let overlapText = "";
+
+    const flush = (carryOverlap: boolean) => {
+      if (!hasContent) return;
+      chunks.push({
+        text: blocks.join("\n\n").trim(),
+        metadata: {
+          index: chunks.length,
+          title,
+          headings: headingStack.map((heading) => heading.text),
+          sources,
+        },
+      });
+      overlapText = carryOverlap ? this._overlapText(blocks) : "";
+      blocks = [];
+      hasContent = false;
+    };
+
+    const add = (text: string) => {
+      if (
+        hasContent &&
+        this._countSize([...blocks, text].join("\n\n")) > this._maxSize
+      )
+        flush(true);
+      // Start the chunk with the overlap if it leaves room for the block
+      if (
+        !hasContent &&
+        overlapText &&
+        this._countSize([overlapText, ...blocks, text].join("\n\n")) <=
+          this._maxSize
+      )
+        blocks.unshift(overlapText);
+      overlapText = "";
+      blocks.push(text);
+      hasContent = true;
+    };
+
+    for (const block of this._parseBlocks(markdown)) {
+      if (block.kind === "heading") {
+        flush(false);
+        overlapText = "";
+        const level = block.level ?? 1;
+        while (
+          headingStack.length &&
+          (headingStack[headingStack.length - 1]?.level ?? 0) >= level
+        )
+          headingStack.pop();
+        headingStack.push({
+          level,
+          text: block.text.replace(/^#+\s*/, "").trim(),
+        });
+        // Headings only count as content together with what follows them,
+        // consecutive headings end up in the same chunk
+        blocks.push(block.text);
+        continue;
+      }
+
+      for (const piece of this._splitBlock(block)) add(piece);
+    }
+
+    // Keep trailing headings without content, e.g. a slide with only a title
+    if (blocks.length) hasContent = true;
+    flush(false);
+  }
+
+  /**
+   * Splits markdown into headings, fenced code blocks, tables and text blocks.
+   * @param {string} markdown - The markdown to split
+   * @returns {MarkdownBlock[]} The blocks in order
+   * @private
+   */
+  private _parseBlocks(markdown: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    const lines = markdown.split(/\r?\n/);
+    let textLines: string[] = [];
+
+    const flushText = () => {
+      const text = textLines.join("\n").trim();
+      if (text) blocks.push({ kind: "text", text });
+      textLines = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i] ?? "";
+
+      const fence = line.match(/^\s*(`{3,}|~{3,})/);
+      if (fence && fence[1]) {
+        flushText();
+        const fenceChar = fence[1].charAt(0);
+        const codeLines = [line];
+        while (++i < lines.length) {
+          const codeLine = lines[i] ?? "";
+          codeLines.push(codeLine);
+          const closing = codeLine.match(/^\s*(`{3,}|~{3,})\s*$/);
+          if (
+            closing &&
+            closing[1] &&
+            closing[1].charAt(0) === fenceChar &&
+            closing[1].length >= fence[1].length
+          )
+            break;
+        }
+        blocks.push({ kind: "code", text: codeLines.join("\n") });
+        continue;
+      }
+
+      const heading = line.match(/^(#{1,6})\s+\S/);
+      if (heading && heading[1]) {
+        flushText();
+        blocks.push({ kind: "heading", text: line.trim(), level: heading[1].length });
+        continue;
+      }
+
+      if (line.trim().startsWith("|")) {
+        flushText();
+        const tableLines = [line];
+        while (i + 1 < lines.length && (lines[i + 1] ?? "").trim().startsWith("|"))
+          tableLines.push(lines[++i] ?? "");
+        blocks.push({ kind: "table", text: tableLines.join("\n") });
+        continue;
+      }
+
+      if (!line.trim()) flushText();
+      else textLines.push(line);
+    }
+    flushText();
+
+    return blocks;
+  }
+
+  /**
+   * Splits a block which doesn't fit in a chunk into pieces which do, where possible.
+   * Code blocks are kept whole, tables are split between rows with the header repeated,
+   * text is split between sentences and then between words.
+   * @param {MarkdownBlock} block - The block to split
+   * @returns {string[]} The pieces of the block
+   * @private
+   */
+  private _splitBlock(block: MarkdownBlock): string[] {
+    if (this._countSize(block.text) <= this._maxSize || block.kind === "code")
+      return [block.text];
+
+    if (block.kind === "table") {
+      const [headerRow = "", separatorRow = "", ...rows] = block.text.split("\n");
+      const header = `${headerRow}\n${separatorRow}`;
+      const pieces: string[] = [];
+      let current: string[] = [];
+      for (const row of rows) {
+        if (
+          current.length &&
+          this._countSize([header, ...current, row].join("\n")) > this._maxSize
+        ) {
+          pieces.push([header, ...current].join("\n"));
+          current = [];
+        }
+        current.push(row);
+      }
+      if (current.length) pieces.push([header, ...current].join("\n"));
+      return pieces;
+    }
+
+    // Leave room for the overlap repeated at the start of the following pieces
+    const budget = this._maxSize - this._overlap;
+    return this._pack(
+      this._sentences(block.text).flatMap((sentence) =>
+        this._countSize(sentence) > budget ? sentence.split(/(?<=\s)/) : [sentence]
+      ),
+      budget
+    );
+  }
+
+  /**
+   * Splits text into sentences, keeping their trailing whitespace.
+   * @param {string} text - The text to split
+   * @returns {string[]} The sentences
+   * @private
+   */
+  private _sentences(text: string): string[] {
+    return text.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*/g) || [text];
+  }
+
+  /**
+   * Joins consecutive pieces of text as long as they fit in the given size.
+   * @param {string[]} pieces - Pieces of text including their trailing whitespace
+   * @param {number} maxSize - Maximum size of a packed piece
+   * @returns {string[]} The packed pieces
+   * @private
+   */
+  private _pack(pieces: string[], maxSize: number): string[] {
+    const packed: string[] = [];
+    let current = "";
+    for (const piece of pieces) {
+      if (current && this._countSize(current + piece) > maxSize) {
+        packed.push(current.trim());
+        current = "";
+      }
+      current += piece;
+    }
+    if (current.trim()) packed.push(current.trim());
+    return packed;
+  }
+
+  /**
+   * Takes the end of the last text block of a chunk to repeat in the next chunk.
+   * Whole sentences are preferred, words are used if the last sentence is too long.
+   * Code blocks and tables are never used as overlap.
+   * @param {string[]} blocks - Blocks of the chunk
+   * @returns {string} The overlap text, or an empty string
+   * @private
+   */
+  private _overlapText(blocks: string[]): string {
+    if (!this._overlap) return "";
+    const lastBlock = blocks[blocks.length - 1] || "";
+    if (/^\s*(`{3,}|~{3,}|\||#)/.test(lastBlock)) return "";
+
+    for (const pieces of [
+      this._sentences(lastBlock),
+      lastBlock.split(/(?<=\s)/),
+    ]) {
+      let overlap = "";
+      for (let i = pieces.length - 1; i >= 0; i--) {
+        const candidate = (pieces[i] ?? "") + overlap;
+        if (this._countSize(candidate.trim()) > this._overlap) break;
+        overlap = candidate;
+      }
+      if (overlap.trim()) return overlap.trim();
+    }
+    return "";
+  }
+}
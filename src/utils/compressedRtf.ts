@@ -0,0 +1,83 @@
+/**
+ * Initial content of the dictionary of compressed RTF, see [MS-OXRTFCP] 2.1.2.1.
+ */
+const INITIAL_DICTIONARY =
+  "{\\rtf1\\ansi\\mac\\deff0\\deftab720{\\fonttbl;}{\\f0\\fnil \\froman \\fswiss " +
+  "\\fmodern \\fscript \\fdecor MS Sans SerifSymbolArialTimes New RomanCourier" +
+  "{\\colortbl\\red0\\green0\\blue0\r\n\\par \\pard\\plain\\f0\\fs20\\b\\i\\u\\tab\\tx";
+
+/**
+ * Size of the dictionary of compressed RTF.
+ */
+const DICTIONARY_SIZE = 4096;
+
+/**
+ * Compression types of the compressed RTF header: "LZFu" and "MELA" (uncompressed).
+ */
+const COMPRESSED = 0x75465a4c;
+const UNCOMPRESSED = 0x414c454d;
+
+/**
+ * Decompresses RTF in the LZ77 based format Outlook stores message bodies in
+ * (`PidTagRtfCompressed`, [MS-OXRTFCP]).
+ *
+ * @param {Uint8Array} data - The compressed RTF, including its 16 byte header
+ * @returns {string} The RTF, with each byte as a latin1 character
+ * @throws {Error} If the data is not compressed RTF
+ *
+ * @example
+ * ```typescript
+ * const rtf = decompressRtf(msgData.compressedRtf);
+ * rtf.startsWith("{\\rtf1"); // true
+ * ```
+ */
+export function decompressRtf(data: Uint8Array): string {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (buffer.length < 16) throw new Error("Compressed RTF header is missing");
+  const compressedSize = buffer.readUInt32LE(0);
+  const rawSize = buffer.readUInt32LE(4);
+  const compressionType = buffer.readUInt32LE(8);
+  // The compressed size counts the header after its own field
+  const end = Math.min(buffer.length, compressedSize + 4);
+
+  if (compressionType === UNCOMPRESSED)
+    return buffer.subarray(16, 16 + rawSize).toString("latin1");
+  if (compressionType !== COMPRESSED)
+    throw new Error(`Unknown compressed RTF type 0x${compressionType.toString(16)}`);
+
+  const dictionary = Buffer.alloc(DICTIONARY_SIZE);
+  dictionary.write(INITIAL_DICTIONARY, "latin1");
+  let writePosition = INITIAL_DICTIONARY.length;
+  const output: number[] = [];
+
+  let offset = 16;
+  while (offset < end) {
+    const control = buffer[offset++]!;
+    // Each bit of the control byte tells whether a literal byte or a reference follows
+    for (let bit = 0; bit < 8 && offset < end; bit++) {
+      if (!(control & (1 << bit))) {
+        const byte = buffer[offset++]!;
+        output.push(byte);
+        dictionary[writePosition] = byte;
+        writePosition = (writePosition + 1) % DICTIONARY_SIZE;
+        continue;
+      }
+      if (offset + 1 >= end) return Buffer.from(output).toString("latin1");
+      // 12 bit dictionary offset and 4 bit length of the reference, big endian
+      const reference = buffer.readUInt16BE(offset);
+      offset += 2;
+      const readPosition = reference >> 4;
+      const length = (reference & 0xf) + 2;
+      // A reference to the write position marks the end of the data
+      if (readPosition === writePosition)
+        return Buffer.from(output).toString("latin1");
+      for (let i = 0; i < length; i++) {
+        const byte = dictionary[(readPosition + i) % DICTIONARY_SIZE]!;
+        output.push(byte);
+        dictionary[writePosition] = byte;
+        writePosition = (writePosition + 1) % DICTIONARY_SIZE;
+      }
+    }
+  }
+  return Buffer.from(output).toString("latin1");
+}
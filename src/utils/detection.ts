@@ -0,0 +1,461 @@
+import fs from "fs";
+import path from "path";
+import mime from "mime-types";
+import unzipper from "unzipper";
+import XLSX from "xlsx";
+
+/**
+ * Number of leading bytes read from a file when sniffing its format.
+ * Large enough to cover the ISO-BMFF `ftyp` box and the start of text documents.
+ */
+const HEADER_SIZE = 4096;
+
+/**
+ * Signature of OLE2 compound file binary containers (.msg, .doc, .xls, .ppt).
+ */
+const OLE2_SIGNATURE = Buffer.from([
+  0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1,
+]);
+
+/**
+ * Extensions returned by mime-types which no converter handles, mapped to one that does.
+ */
+const EXTENSION_ALIASES: Record<string, string> = {
+  ".xhtml": ".html",
+  ".htm": ".html",
+};
+
+/**
+ * Extensions of OpenDocument and EPUB files, keyed by the content of their `mimetype` entry.
+ */
+const PACKAGE_MIME_TYPES: Record<string, string> = {
+  "application/vnd.oasis.opendocument.text": ".odt",
+  "application/vnd.oasis.opendocument.spreadsheet": ".ods",
+  "application/vnd.oasis.opendocument.presentation": ".odp",
+  "application/epub+zip": ".epub",
+};
+
+/**
+ * Header fields found in (nearly) every email message, used to recognize messages.
+ */
+const EMAIL_HEADERS = [
+  "from",
+  "to",
+  "subject",
+  "date",
+  "message-id",
+  "received",
+  "return-path",
+  "mime-version",
+];
+
+/**
+ * Hints about a file that doesn't come with a usable name of its own,
+ * e.g. a downloaded response or an in-memory upload.
+ */
+export type FileHints = {
+  fileName?: string | null;
+  mimeType?: string | null;
+  url?: string | null;
+};
+
+/**
+ * Derives candidate file extensions from the name, MIME type and URL of a file.
+ * The file name is the most specific hint, followed by the MIME type and the URL path.
+ *
+ * @param {FileHints} hints - Known facts about the file
+ * @returns {string[]} Candidate extensions (with leading dot), most likely first
+ *
+ * @example
+ * ```typescript
+ * extensionsFromHints({
+ *   mimeType: "application/pdf",
+ *   url: "https://host/report?download=1",
+ * });
+ * // [".pdf"]
+ * ```
+ */
+export function extensionsFromHints({
+  fileName,
+  mimeType,
+  url,
+}: FileHints): string[] {
+  const extensions: string[] = [];
+
+  if (fileName) extensions.push(path.extname(fileName));
+
+  if (mimeType) {
+    const mimeExtension = mime.extension(mimeType);
+    // "application/octet-stream" says nothing about the content
+    if (mimeExtension && mimeExtension !== "bin")
+      extensions.push(`.${mimeExtension}`);
+  }
+
+  if (url) {
+    try {
+      const { pathname } = new URL(url);
+      extensions.push(path.extname(decodeURIComponent(pathname)));
+    } catch (error) {
+      // Not a valid URL, ignore it
+    }
+  }
+
+  return extensions
+    .filter((ext) => ext.length > 1)
+    .map((ext) => EXTENSION_ALIASES[ext.toLowerCase()] || ext.toLowerCase())
+    .filter((ext, index, all) => all.indexOf(ext) === index);
+}
+
+/**
+ * Extracts the file name from a `Content-Disposition` header.
+ * Prefers the RFC 5987 encoded `filename*` parameter over the plain `filename` parameter.
+ *
+ * @param {string | null | undefined} header - Value of the Content-Disposition header
+ * @returns {string | null} The file name or null if the header doesn't name a file
+ *
+ * @example
+ * ```typescript
+ * parseContentDispositionFileName('attachment; filename="report.pdf"'); // "report.pdf"
+ * ```
+ */
+export function parseContentDispositionFileName(
+  header: string | null | undefined
+): string | null {
+  if (!header) return null;
+
+  const encodedMatch = header.match(/filename\*\s*=\s*([^;]+)/i);
+  if (encodedMatch && encodedMatch[1]) {
+    const value = encodedMatch[1].trim().replace(/^"|"$/g, "");
+    const [, encodedName] = value.match(/^[^']*'[^']*'(.*)$/) || [];
+    try {
+      return decodeURIComponent(encodedName ?? value);
+    } catch (error) {
+      return encodedName ?? value;
+    }
+  }
+
+  const match = header.match(/filename\s*=\s*("(?:[^"\\]|\\.)*"|[^;]+)/i);
+  if (match && match[1]) {
+    return match[1]
+      .trim()
+      .replace(/^"|"$/g, "")
+      .replace(/\\(.)/g, "$1");
+  }
+
+  return null;
+}
+
+/**
+ * Extracts the charset parameter from a `Content-Type` header.
+ *
+ * @param {string | null | undefined} contentType - Value of the Content-Type header
+ * @returns {string | null} The lowercased charset or null if none is given
+ *
+ * @example
+ * ```typescript
+ * parseCharset("text/html; charset=ISO-8859-1"); // "iso-8859-1"
+ * ```
+ */
+export function parseCharset(
+  contentType: string | null | undefined
+): string | null {
+  if (!contentType) return null;
+  const match = contentType.match(/;\s*charset\s*=\s*"?([^";\s]+)"?/i);
+  return match && match[1] ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Detects the most likely file extensions of a file by inspecting its content
+ * rather than its name.
+ *
+ * Binary formats are recognized by their magic bytes (PDF, RTF, PNG, JPEG, RIFF/WAVE,
+ * ISO-BMFF, Matroska, MP3). Container formats are opened to tell their variants
+ * apart: ZIP archives are checked for OOXML parts (`[Content_Types].xml` with
+ * `word/`, `xl/` or `ppt/`) and the OpenDocument and EPUB `mimetype` entry, OLE2 compound files are checked for the streams
+ * that identify Outlook messages, Word documents, Excel workbooks and PowerPoint
+ * presentations. Text content is checked for Jupyter notebooks, JSON, mbox mailboxes,
+ * email messages, RSS/Atom feeds, XML, HTML and delimited tables (CSV/TSV) before falling back to plain text.
+ *
+ * @param {string} filePath - Path to the file to inspect
+ * @returns {Promise<string[]>} Candidate extensions (with leading dot), most likely first.
+ *   Returns an empty array if the file cannot be read or its format is not recognized.
+ *
+ * @example
+ * ```typescript
+ * const extensions = await detectFileExtensions("/tmp/upload-1234");
+ * // [".docx", ".zip"]
+ * ```
+ */
+export async function detectFileExtensions(
+  filePath: string
+): Promise<string[]> {
+  let header: Buffer;
+  try {
+    header = await _readHeader(filePath);
+  } catch (error) {
+    return [];
+  }
+  if (!header.length) return [];
+
+  // Binary formats identified by their magic bytes
+  if (_startsWith(header, "%PDF-")) return [".pdf"];
+  if (_startsWith(header, "{\\rtf")) return [".rtf"];
+  if (_startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    return [".png"];
+  if (_startsWith(header, [0xff, 0xd8, 0xff])) return [".jpg"];
+  if (_startsWith(header, "RIFF") && _startsWith(header, "WAVE", 8))
+    return [".wav"];
+  if (_startsWith(header, "ftyp", 4)) return _detectIsoBmffExtensions(header);
+  if (_startsWith(header, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return header.includes("webm") ? [".webm", ".mkv"] : [".mkv", ".webm"];
+  }
+  if (
+    _startsWith(header, "ID3") ||
+    (header[0] === 0xff && ((header[1] ?? 0) & 0xe0) === 0xe0)
+  )
+    return [".mp3"];
+
+  // Container formats which need a look at their directory listing
+  if (_startsWith(header, [0x50, 0x4b, 0x03, 0x04]))
+    return _detectZipExtensions(filePath);
+  if (_startsWith(header, OLE2_SIGNATURE))
+    return _detectOleExtensions(filePath);
+
+  // Anything with NUL bytes left at this point is binary we don't know about
+  if (header.includes(0x00) && !_hasUtf16Bom(header)) return [];
+
+  return _detectTextExtensions(header);
+}
+
+/**
+ * Detects the encoding of text content: UTF-8 or UTF-16 if the content starts with
+ * a byte order mark or is valid UTF-8, Windows-1252 otherwise.
+ *
+ * @param {Buffer} buffer - The text content
+ * @returns {string} The encoding name as understood by iconv-lite
+ *
+ * @example
+ * ```typescript
+ * detectTextEncoding(Buffer.from([0x63, 0x61, 0x66, 0xe9])); // "windows-1252"
+ * ```
+ */
+export function detectTextEncoding(buffer: Buffer): string {
+  if (_startsWith(buffer, [0xef, 0xbb, 0xbf])) return "utf-8";
+  if (_startsWith(buffer, [0xff, 0xfe])) return "utf-16le";
+  if (_startsWith(buffer, [0xfe, 0xff])) return "utf-16be";
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return "utf-8";
+  } catch (error) {
+    return "windows-1252";
+  }
+}
+
+/**
+ * Reads the first bytes of a file.
+ * @param {string} filePath - Path to the file
+ * @returns {Promise<Buffer>} Up to HEADER_SIZE bytes from the start of the file
+ * @private
+ */
+async function _readHeader(filePath: string): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(HEADER_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_SIZE, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Checks whether a buffer contains the given signature at the given offset.
+ * @param {Buffer} buffer - Buffer to check
+ * @param {string | number[] | Buffer} signature - ASCII string or bytes to look for
+ * @param {number} [offset=0] - Offset in the buffer where the signature is expected
+ * @returns {boolean} True if the signature matches
+ * @private
+ */
+function _startsWith(
+  buffer: Buffer,
+  signature: string | number[] | Buffer,
+  offset: number = 0
+): boolean {
+  const bytes =
+    typeof signature === "string"
+      ? Buffer.from(signature, "latin1")
+      : Buffer.from(signature);
+  if (buffer.length < offset + bytes.length) return false;
+  return buffer.subarray(offset, offset + bytes.length).equals(bytes);
+}
+
+/**
+ * Checks whether a buffer starts with a UTF-16 byte order mark.
+ * @param {Buffer} buffer - Buffer to check
+ * @returns {boolean} True for UTF-16 LE or BE BOMs
+ * @private
+ */
+function _hasUtf16Bom(buffer: Buffer): boolean {
+  return _startsWith(buffer, [0xff, 0xfe]) || _startsWith(buffer, [0xfe, 0xff]);
+}
+
+/**
+ * Picks extensions for ISO base media files based on the major brand of the `ftyp` box.
+ * @param {Buffer} header - Leading bytes of the file
+ * @returns {string[]} Candidate extensions
+ * @private
+ */
+function _detectIsoBmffExtensions(header: Buffer): string[] {
+  const brand = header.subarray(8, 12).toString("latin1");
+  if (["M4A ", "M4B ", "M4P "].includes(brand)) return [".m4a", ".mp4"];
+  return [".mp4", ".m4a"];
+}
+
+/**
+ * Tells ZIP based formats apart by looking at the archive entries.
+ * @param {string} filePath - Path to the ZIP file
+ * @returns {Promise<string[]>} Candidate extensions, with `.zip` as the last resort
+ * @private
+ */
+async function _detectZipExtensions(filePath: string): Promise<string[]> {
+  let entries: string[];
+  let mimeType = "";
+  try {
+    const directory = await unzipper.Open.file(filePath);
+    entries = directory.files.map((file) => file.path);
+    // OpenDocument and EPUB files start with an uncompressed `mimetype` entry naming their type
+    const mimeTypeEntry = directory.files.find(
+      (file) => file.path === "mimetype"
+    );
+    if (mimeTypeEntry)
+      mimeType = (await mimeTypeEntry.buffer()).toString("ascii").trim();
+  } catch (error) {
+    return [".zip"];
+  }
+
+  const packageExtension = PACKAGE_MIME_TYPES[mimeType];
+  if (packageExtension) return [packageExtension, ".zip"];
+
+  if (entries.includes("[Content_Types].xml")) {
+    if (entries.some((entry) => entry.startsWith("word/")))
+      return [".docx", ".zip"];
+    if (entries.some((entry) => entry.startsWith("xl/")))
+      return [".xlsx", ".zip"];
+    if (entries.some((entry) => entry.startsWith("ppt/")))
+      return [".pptx", ".zip"];
+  }
+
+  return [".zip"];
+}
+
+/**
+ * Tells OLE2 compound file formats apart by looking at the stream names.
+ * @param {string} filePath - Path to the compound file
+ * @returns {string[]} Candidate extensions
+ * @private
+ */
+function _detectOleExtensions(filePath: string): string[] {
+  let streams: string[];
+  try {
+    const container = XLSX.CFB.read(fs.readFileSync(filePath), {
+      type: "buffer",
+    });
+    streams = (container.FullPaths as string[]).map(
+      (fullPath) => fullPath.replace(/\/$/, "").split("/").pop() || ""
+    );
+  } catch (error) {
+    return [];
+  }
+
+  if (streams.some((stream) => stream.startsWith("__substg1.0_")))
+    return [".msg"];
+  if (streams.includes("WordDocument")) return [".doc"];
+  if (streams.includes("Workbook") || streams.includes("Book"))
+    return [".xls"];
+  if (streams.includes("PowerPoint Document")) return [".ppt"];
+  return [];
+}
+
+/**
+ * Detects text based formats from the leading characters of a file.
+ * @param {Buffer} header - Leading bytes of the file
+ * @returns {string[]} Candidate extensions, with `.txt` as the last resort
+ * @private
+ */
+function _detectTextExtensions(header: Buffer): string[] {
+  const text = header
+    .toString(_hasUtf16Bom(header) ? "utf16le" : "utf-8")
+    .replace(/^\uFEFF/, "")
+    .trimStart();
+  const lowerText = text.toLowerCase();
+
+  if (text.startsWith("{") || text.startsWith("[")) {
+    if (/"cells"\s*:/.test(text) || /"nbformat"\s*:/.test(text))
+      return [".ipynb", ".json"];
+    return [".json", ".txt"];
+  }
+
+  // mbox mailboxes start with the `From ` line of their first message
+  if (/^From \S+[^\n]*\r?\n[\w-]+:/.test(text))
+    return [".mbox", ".eml", ".txt"];
+  if (_looksLikeEmail(text)) return [".eml", ".txt"];
+
+  if (
+    lowerText.startsWith("<!doctype html") ||
+    /^(<!--[\s\S]*?-->\s*)*<(html|head|body)[\s>]/.test(lowerText)
+  )
+    return [".html"];
+
+  if (text.startsWith("<")) {
+    if (/<rss[\s>]/.test(text)) return [".rss", ".xml"];
+    if (/<feed[\s>]/.test(text)) return [".atom", ".xml"];
+    if (/<html[\s>]/i.test(text)) return [".html", ".xml"];
+    return [".xml", ".html"];
+  }
+
+  if (_looksDelimited(text, "\t")) return [".tsv", ".txt"];
+  if (_looksDelimited(text, ",") || _looksDelimited(text, ";"))
+    return [".csv", ".txt"];
+  return [".txt"];
+}
+
+/**
+ * Checks whether text looks like an email message: it starts with header fields and
+ * has at least two of the headers every message has.
+ * @param {string} text - Leading text of the file
+ * @returns {boolean} True if the text starts with message headers
+ * @private
+ */
+function _looksLikeEmail(text: string): boolean {
+  const lines = text.split(/\r?\n/);
+  const end = lines.findIndex((line) => !line.trim());
+  // The header may be cut off by the header size
+  const headerLines = lines.slice(0, end === -1 ? lines.length - 1 : end);
+  if (
+    !headerLines.length ||
+    !headerLines.every((line) => /^([!-9;-~]+:|[ \t])/.test(line))
+  )
+    return false;
+  const names = headerLines.map((line) => line.split(":")[0]!.toLowerCase());
+  return EMAIL_HEADERS.filter((name) => names.includes(name)).length >= 2;
+}
+
+/**
+ * Checks whether text looks like a delimited table: a few lines which all contain
+ * the delimiter the same number of times. Quoted fields are not taken into account.
+ * @param {string} text - Leading text of the file
+ * @param {string} delimiter - The delimiter
+ * @returns {boolean} True if the lines have a consistent number of fields
+ * @private
+ */
+function _looksDelimited(text: string, delimiter: string): boolean {
+  // The last line may be cut off by the header size
+  const lines = text
+    .split(/\r?\n/)
+    .slice(0, 20)
+    .filter((line) => line.trim());
+  if (lines.length > 2) lines.pop();
+  if (lines.length < 2) return false;
+  const counts = lines.map((line) => line.split(delimiter).length - 1);
+  return counts[0]! > 0 && counts.every((count) => count === counts[0]);
+}
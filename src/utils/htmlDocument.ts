@@ -0,0 +1,408 @@
+import { HTMLElement, NodeType, parse, type Node } from "node-html-parser";
+import type CustomMarkdownConverter from "../converters/customMarkdown";
+import type {
+  BlockNode,
+  ListItemNode,
+  ListNode,
+} from "../types/documentModel";
+import { isComplexTable, isLayoutTable, tableHtml } from "./htmlTable";
+import { renderMarkdown } from "./markdownRenderer";
+
+/**
+ * Elements whose content is laid out inline and becomes part of the surrounding paragraph.
+ */
+const INLINE_TAGS = new Set([
+  "a",
+  "abbr",
+  "b",
+  "bdi",
+  "bdo",
+  "br",
+  "cite",
+  "code",
+  "data",
+  "del",
+  "dfn",
+  "em",
+  "font",
+  "i",
+  "ins",
+  "kbd",
+  "label",
+  "mark",
+  "q",
+  "s",
+  "samp",
+  "small",
+  "span",
+  "strike",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "tt",
+  "u",
+  "var",
+  "wbr",
+]);
+
+/**
+ * Elements which never carry document content.
+ */
+const SKIPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "head",
+  "title",
+  "meta",
+  "link",
+]);
+
+/**
+ * Builds document tree blocks from parsed HTML.
+ * Inline content (text, links, emphasis) is converted to inline Markdown with the given
+ * converter, and blocks the tree has no node for (definition lists, math) are written by
+ * its rules, so the rendered tree reads the same as the converter's Markdown output.
+ *
+ * @param {HTMLElement} element - The element whose children are converted
+ * @param {CustomMarkdownConverter} markdownConverter - Converter used for inline content
+ * @returns {BlockNode[]} The blocks of the element
+ *
+ * @example
+ * ```typescript
+ * const root = parse("<h1>Title</h1><p>Hello <b>world</b></p>");
+ * htmlToDocumentNodes(root, new CustomMarkdownConverter());
+ * // [
+ * //   { type: "heading", level: 1, text: "Title" },
+ * //   { type: "paragraph", text: "Hello **world**" },
+ * // ]
+ * ```
+ */
+export function htmlToDocumentNodes(
+  element: HTMLElement,
+  markdownConverter: CustomMarkdownConverter
+): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let inlineHtml = "";
+
+  const flushInline = () => {
+    const text = _inlineMarkdown(inlineHtml, markdownConverter);
+    if (text) blocks.push({ type: "paragraph", text });
+    inlineHtml = "";
+  };
+
+  for (const child of element.childNodes) {
+    if (child.nodeType === NodeType.TEXT_NODE) {
+      inlineHtml += child.toString();
+      continue;
+    }
+    if (!(child instanceof HTMLElement)) continue;
+
+    const tagName = child.tagName?.toLowerCase() || "";
+    if (SKIPPED_TAGS.has(tagName)) continue;
+    if (INLINE_TAGS.has(tagName)) {
+      inlineHtml += child.outerHTML;
+      continue;
+    }
+
+    flushInline();
+    blocks.push(..._elementToBlocks(child, tagName, markdownConverter));
+  }
+  flushInline();
+
+  return blocks;
+}
+
+/**
+ * Converts a block level element to document blocks.
+ * @param {HTMLElement} element - The block element
+ * @param {string} tagName - Lowercased tag name of the element
+ * @param {CustomMarkdownConverter} markdownConverter - Converter used for inline content
+ * @returns {BlockNode[]} The blocks of the element
+ * @private
+ */
+function _elementToBlocks(
+  element: HTMLElement,
+  tagName: string,
+  markdownConverter: CustomMarkdownConverter
+): BlockNode[] {
+  if (/^h[1-6]$/.test(tagName)) {
+    const text = _inlineMarkdown(element.innerHTML, markdownConverter);
+    if (!text) return [];
+    const level = Number(tagName.charAt(1)) as 1 | 2 | 3 | 4 | 5 | 6;
+    return [{ type: "heading", level, text }];
+  }
+
+  switch (tagName) {
+    case "p": {
+      // A paragraph holding nothing but an image is the image
+      const images = element.querySelectorAll("img");
+      if (images.length === 1 && images[0]!.parentNode === element && !element.text.trim())
+        return _imageBlocks(images[0]!, markdownConverter);
+      const text = _inlineMarkdown(element.innerHTML, markdownConverter);
+      return text ? [{ type: "paragraph", text }] : [];
+    }
+    case "img":
+      return _imageBlocks(element, markdownConverter);
+    case "ul":
+    case "ol":
+      return [_listNode(element, tagName === "ol", markdownConverter)];
+    case "table":
+      return _tableBlocks(element, markdownConverter);
+    case "pre": {
+      // node-html-parser keeps the content of <pre> as raw text, parse it to find the <code> element
+      const content = parse(element.innerHTML);
+      const codeElement = content.querySelector("code");
+      return [
+        {
+          type: "code",
+          language:
+            (codeElement ? _codeLanguage(codeElement) : undefined) ||
+            _codeLanguage(element) ||
+            (element.parentNode ? _codeLanguage(element.parentNode) : undefined),
+          value: content.text.replace(/\n$/, ""),
+        },
+      ];
+    }
+    case "blockquote":
+      return [
+        {
+          type: "blockquote",
+          children: htmlToDocumentNodes(element, markdownConverter),
+        },
+      ];
+    case "hr":
+      return [{ type: "thematicBreak" }];
+    // Written by the rules of the Markdown converter
+    case "dl":
+    case "math":
+    case "mjx-container": {
+      const value = _inlineMarkdown(element.outerHTML, markdownConverter);
+      return value ? [{ type: "markdown", value }] : [];
+    }
+    case "summary": {
+      const text = _inlineMarkdown(element.outerHTML, markdownConverter);
+      return text ? [{ type: "paragraph", text }] : [];
+    }
+    case "figure":
+      return _figureBlocks(element, markdownConverter);
+    case "figcaption":
+      // Written below the content of its figure
+      return [];
+    default:
+      // Generic containers like div, section, article or main
+      return htmlToDocumentNodes(element, markdownConverter);
+  }
+}
+
+/**
+ * Converts an inline HTML fragment to single line inline Markdown.
+ * @param {string} html - The inline HTML
+ * @param {CustomMarkdownConverter} markdownConverter - Converter used for the conversion
+ * @returns {string} The inline Markdown
+ * @private
+ */
+function _inlineMarkdown(
+  html: string,
+  markdownConverter: CustomMarkdownConverter
+): string {
+  if (!html.trim()) return "";
+  return markdownConverter.convert(html).trim();
+}
+
+/**
+ * Creates the blocks of an `<img>` element: an image node if the converter keeps the
+ * image, else its alt text, as the image rule of the Markdown converter writes it.
+ * @param {HTMLElement} element - The image element
+ * @param {CustomMarkdownConverter} markdownConverter - Converter whose options apply to the image
+ * @returns {BlockNode[]} The blocks of the image
+ * @private
+ */
+function _imageBlocks(
+  element: HTMLElement,
+  markdownConverter: CustomMarkdownConverter
+): BlockNode[] {
+  const parentName = element.parentNode?.tagName?.toLowerCase() || "";
+  const image = markdownConverter.keepsImage(parentName)
+    ? _imageNode(element, markdownConverter)
+    : null;
+  if (image) return [image];
+  const text = _inlineMarkdown(element.outerHTML, markdownConverter);
+  return text ? [{ type: "paragraph", text }] : [];
+}
+
+/**
+ * Creates the blocks of a `<figure>` element, as the figure rule of the Markdown converter
+ * writes it: the content followed by the caption in italics.
+ * @param {HTMLElement} element - The figure element
+ * @param {CustomMarkdownConverter} markdownConverter - Converter used for the content
+ * @returns {BlockNode[]} The blocks of the figure
+ * @private
+ */
+function _figureBlocks(
+  element: HTMLElement,
+  markdownConverter: CustomMarkdownConverter
+): BlockNode[] {
+  const figcaption = element.querySelector("figcaption");
+  const content = htmlToDocumentNodes(element, markdownConverter);
+  const caption = markdownConverter.emphasize(
+    figcaption ? _inlineMarkdown(figcaption.innerHTML, markdownConverter) : ""
+  );
+  const contentMarkdown = renderMarkdown({ type: "document", children: content });
+  return [
+    ...(markdownConverter.isCaptionText(contentMarkdown, figcaption?.text || "")
+      ? []
+      : content),
+    ...(caption ? [{ type: "paragraph" as const, text: caption }] : []),
+  ];
+}
+
+/**
+ * Creates an image node from an `<img>` element.
+ * @param {HTMLElement} element - The image element
+ * @param {CustomMarkdownConverter} markdownConverter - Converter whose options apply to the source
+ * @returns {BlockNode | null} The image node, or null if the image has no source
+ * @private
+ */
+function _imageNode(
+  element: HTMLElement,
+  markdownConverter: CustomMarkdownConverter
+): BlockNode | null {
+  let src = element.getAttribute("src") || "";
+  if (!src) return null;
+  // Images of figures without alt text are described by the caption
+  const alt =
+    element.getAttribute("alt") ||
+    element.closest("figure")?.querySelector("figcaption")?.text.replace(/\s+/g, " ").trim();
+  // Keep data URIs short and resolve other sources, just like the image rule of CustomMarkdownConverter
+  if (src.startsWith("data:")) {
+    if (!markdownConverter.options.keepDataUris) src = src.split(",")[0] + "...";
+  } else {
+    src = markdownConverter.resolveUrl(src) ?? "";
+    if (!src) return null;
+  }
+  return {
+    type: "image",
+    src,
+    alt: alt || undefined,
+    title: element.getAttribute("title") || undefined,
+  };
+}
+
+/**
+ * Creates a list node from a `<ul>` or `<ol>` element, including nested lists.
+ * @param {HTMLElement} element - The list element
+ * @param {boolean} ordered - Whether the list is ordered
+ * @param {CustomMarkdownConverter} markdownConverter - Converter used for inline content
+ * @returns {ListNode} The list node
+ * @private
+ */
+function _listNode(
+  element: HTMLElement,
+  ordered: boolean,
+  markdownConverter: CustomMarkdownConverter
+): ListNode {
+  const items: ListItemNode[] = [];
+  for (const child of element.childNodes) {
+    if (!(child instanceof HTMLElement) || child.tagName !== "LI") continue;
+
+    let itemHtml = "";
+    const children: BlockNode[] = [];
+    for (const itemChild of child.childNodes) {
+      const tagName =
+        itemChild instanceof HTMLElement ? itemChild.tagName : undefined;
+      if (tagName === "UL" || tagName === "OL") {
+        children.push(
+          _listNode(
+            itemChild as HTMLElement,
+            tagName === "OL",
+            markdownConverter
+          )
+        );
+      } else {
+        itemHtml += itemChild.toString();
+      }
+    }
+
+    items.push({
+      type: "listItem",
+      text: _inlineMarkdown(itemHtml, markdownConverter),
+      ...(children.length ? { children } : {}),
+    });
+  }
+
+  const start = Number(element.getAttribute("start"));
+  return {
+    type: "list",
+    ordered,
+    ...(ordered && start ? { start } : {}),
+    items,
+  };
+}
+
+/**
+ * Creates the blocks of a `<table>` element, as the table rule of the Markdown converter
+ * writes it: a table node with merged cells expanded, preceded by its caption. Complex
+ * tables are kept as HTML if the converter does so, layout tables become the blocks of their cells.
+ * The cells are converted by the table rule, once.
+ * @param {HTMLElement} element - The table element
+ * @param {CustomMarkdownConverter} markdownConverter - Converter used for cell content
+ * @returns {BlockNode[]} The blocks of the table
+ * @private
+ */
+function _tableBlocks(
+  element: HTMLElement,
+  markdownConverter: CustomMarkdownConverter
+): BlockNode[] {
+  if (isLayoutTable(element)) {
+    return element
+      .querySelectorAll("td")
+      .filter((cell) => cell.closest("table") === element)
+      .flatMap((cell) => htmlToDocumentNodes(cell, markdownConverter));
+  }
+  if (markdownConverter.options.complexTables === "html" && isComplexTable(element))
+    return [{ type: "markdown", value: tableHtml(element.outerHTML) }];
+
+  const table = markdownConverter.convertTable(element.outerHTML);
+  if (!table) {
+    const value = _inlineMarkdown(element.outerHTML, markdownConverter);
+    return value ? [{ type: "markdown", value }] : [];
+  }
+  const { caption, header, rows } = table;
+  return [
+    ...(caption ? [{ type: "paragraph" as const, text: caption }] : []),
+    { type: "table", header, rows },
+  ];
+}
+
+/**
+ * Finds the code language in class names, following the conventions of common
+ * highlighters: `language-ts` (Prism, highlight.js), `lang-ts` and `highlight-ts` or
+ * `highlight-source-ts` (GitHub).
+ *
+ * @param {string} className - The class attribute of a code element or its container
+ * @returns {string | undefined} The language, if any
+ *
+ * @example
+ * ```typescript
+ * codeLanguage("highlight highlight-source-js"); // "js"
+ * ```
+ */
+export function codeLanguage(className: string): string | undefined {
+  const match = className.match(
+    /(?:^|\s)(?:language|lang|highlight(?:-source)?)-([\w+#.-]+)/
+  );
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Finds the code language from the class names of an element.
+ * @param {HTMLElement} element - The element to inspect
+ * @returns {string | undefined} The language, if any
+ * @private
+ */
+function _codeLanguage(element: HTMLElement): string | undefined {
+  return codeLanguage(element.getAttribute("class") || "");
+}
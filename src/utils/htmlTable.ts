@@ -0,0 +1,234 @@
+import { parse, type HTMLElement } from "node-html-parser";
+
+/**
+ * Attributes kept when a table is written as HTML, the others only carry styling.
+ */
+const KEPT_ATTRIBUTES = new Set(["colspan", "rowspan", "href", "src", "alt", "title"]);
+
+/**
+ * Upper bound of `colspan`, as in browsers, so a broken attribute can't blow up the grid.
+ */
+const MAX_COLSPAN = 1000;
+
+// The parts of an element the table functions read, shared by node-html-parser elements
+// and the DOM elements Turndown converts.
+export interface TableElement {
+  readonly nodeType: number;
+  readonly tagName: string;
+  readonly textContent: string | null;
+  readonly childNodes: ArrayLike<{ nodeType: number }>;
+  getAttribute(name: string): string | null | undefined;
+  querySelector(selectors: string): TableElement | null;
+  querySelectorAll(selectors: string): ArrayLike<TableElement>;
+  closest(selectors: string): TableElement | null;
+}
+
+// The cells of an HTML table laid out on a grid, merged cells repeated in every slot they span.
+export type TableGrid = {
+  // Header cells, or null if the table has no header row
+  header: string[] | null;
+  rows: string[][];
+};
+
+/**
+ * Lays out the cells of a `<table>` element on a grid. Cells spanning several columns or
+ * rows (`colspan`, `rowspan`) are repeated in each slot they cover, so every row stands on
+ * its own. The rows of `<thead>`, or a first row of `<th>` cells, become the header; several
+ * header rows are merged column by column. Nested tables are left to `convertCell`.
+ *
+ * @param {TableElement} table - The table element
+ * @param {Function} convertCell - Converts a cell to inline Markdown
+ * @returns {TableGrid} The header and body rows, line breaks in cells kept as `\n`
+ *
+ * @example
+ * ```typescript
+ * const table = parse('<table><tr><th colspan="2">Name</th></tr><tr><td>Ada</td><td>Lovelace</td></tr></table>');
+ * tableGrid(table.querySelector("table")!, (cell) => cell.textContent || "");
+ * // { header: ["Name", "Name"], rows: [["Ada", "Lovelace"]] }
+ * ```
+ */
+export function tableGrid(
+  table: TableElement,
+  convertCell: (cell: TableElement) => string
+): TableGrid {
+  const rowElements = _tableRows(table);
+  const headerRowCount = _headerRowCount(rowElements);
+
+  const grid: string[][] = rowElements.map(() => []);
+  rowElements.forEach((row, rowIndex) => {
+    let column = 0;
+    for (const cell of _rowCells(row)) {
+      while (grid[rowIndex]![column] !== undefined) column++;
+      const text = convertCell(cell)
+        .replace(/[ \t]*\n\s*/g, "\n")
+        .trim();
+      const colspan = Math.min(_span(cell, "colspan"), MAX_COLSPAN);
+      // rowspan="0" spans the remaining rows
+      const rowspan = Math.min(
+        _span(cell, "rowspan") || rowElements.length,
+        rowElements.length - rowIndex
+      );
+      for (let r = 0; r < rowspan; r++) {
+        for (let c = 0; c < colspan; c++) grid[rowIndex + r]![column + c] = text;
+      }
+      column += colspan;
+    }
+  });
+  // Slots no cell covers
+  const rows = grid.map((row) => Array.from(row, (cell) => cell ?? ""));
+
+  if (!headerRowCount) return { header: null, rows };
+  const headerRows = rows.slice(0, headerRowCount);
+  const columnCount = headerRows.reduce((count, row) => Math.max(count, row.length), 0);
+  const header = Array.from({ length: columnCount }, (_, column) =>
+    headerRows
+      .map((row) => row[column] ?? "")
+      .filter((text, index, all) => text && text !== all[index - 1])
+      .join(" ")
+  );
+  return { header, rows: rows.slice(headerRowCount) };
+}
+
+/**
+ * Writes a table as a single line of text, as tables nested in the cell of another table
+ * are flattened: cells are separated by commas and rows by semicolons.
+ *
+ * @param {TableElement} table - The table element
+ * @returns {string} The text of the table
+ *
+ * @example
+ * ```typescript
+ * // <table><tr><td>a</td><td>b</td></tr><tr><td>c</td></tr></table>
+ * tableText(table); // "a, b; c"
+ * ```
+ */
+export function tableText(table: TableElement): string {
+  const { header, rows } = tableGrid(table, (cell) =>
+    (cell.textContent || "").replace(/\s+/g, " ")
+  );
+  return (header ? [header, ...rows] : rows)
+    .map((row) => row.filter((text) => text).join(", "))
+    .filter((row) => row)
+    .join("; ");
+}
+
+/**
+ * Checks whether a table can't be written as a Markdown table without losing structure:
+ * it has merged cells or nested tables.
+ *
+ * @param {TableElement} table - The table element
+ * @returns {boolean} True for complex tables
+ */
+export function isComplexTable(table: TableElement): boolean {
+  if (table.querySelector("table")) return true;
+  return _tableRows(table).some((row) =>
+    _rowCells(row).some(
+      (cell) => _span(cell, "colspan") !== 1 || _span(cell, "rowspan") !== 1
+    )
+  );
+}
+
+/**
+ * Checks whether a table only lays out content rather than holding data, like the
+ * tables of HTML emails: it is marked as presentational, or it has a single column
+ * without header cells which wraps other tables.
+ *
+ * @param {TableElement} table - The table element
+ * @returns {boolean} True for layout tables
+ */
+export function isLayoutTable(table: TableElement): boolean {
+  const role = table.getAttribute("role");
+  if (role === "presentation" || role === "none") return true;
+  if (!table.querySelector("table")) return false;
+  return _tableRows(table).every((row) => {
+    const cells = _rowCells(row);
+    return cells.length <= 1 && cells.every((cell) => cell.tagName === "TD");
+  });
+}
+
+/**
+ * Writes a table as compact HTML for Markdown, without styling attributes.
+ *
+ * @param {string} html - The HTML of the table element
+ * @returns {string} The HTML of the table
+ */
+export function tableHtml(html: string): string {
+  const copy = parse(html);
+  for (const element of copy.querySelectorAll("*") as HTMLElement[]) {
+    for (const name of Object.keys(element.attributes)) {
+      if (!KEPT_ATTRIBUTES.has(name.toLowerCase())) element.removeAttribute(name);
+    }
+  }
+  return copy.toString().trim().replace(/>\s+</g, "><");
+}
+
+/**
+ * Lists the rows of a table without those of nested tables: the rows of `<thead>` first
+ * and those of `<tfoot>` last, as browsers render them.
+ * @param {TableElement} table - The table element
+ * @returns {TableElement[]} The rows
+ * @private
+ */
+function _tableRows(table: TableElement): TableElement[] {
+  const rows = Array.from(table.querySelectorAll("tr")).filter(
+    (row) => row.closest("table") === table
+  );
+  const section = (row: TableElement) => {
+    const tagName = _sectionName(row);
+    return tagName === "THEAD" ? 0 : tagName === "TFOOT" ? 2 : 1;
+  };
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => section(a.row) - section(b.row) || a.index - b.index)
+    .map(({ row }) => row);
+}
+
+/**
+ * Gets the section of a row.
+ * @param {TableElement} row - The `<tr>` element
+ * @returns {string | undefined} "THEAD", "TBODY" or "TFOOT", "TABLE" for rows outside of sections
+ * @private
+ */
+function _sectionName(row: TableElement): string | undefined {
+  return row.closest("thead, tbody, tfoot, table")?.tagName;
+}
+
+/**
+ * Counts the header rows of a table: the rows of `<thead>`, or else the first row if it
+ * only holds `<th>` cells.
+ * @param {TableElement[]} rows - The rows of the table
+ * @returns {number} The number of header rows
+ * @private
+ */
+function _headerRowCount(rows: TableElement[]): number {
+  const headRows = rows.filter((row) => _sectionName(row) === "THEAD").length;
+  if (headRows) return headRows;
+  const cells = rows[0] ? _rowCells(rows[0]) : [];
+  return cells.length && cells.every((cell) => cell.tagName === "TH") ? 1 : 0;
+}
+
+/**
+ * Lists the cells of a row.
+ * @param {TableElement} row - The `<tr>` element
+ * @returns {TableElement[]} The `<td>` and `<th>` elements
+ * @private
+ */
+function _rowCells(row: TableElement): TableElement[] {
+  return Array.from(row.childNodes).filter(
+    (cell): cell is TableElement =>
+      cell.nodeType === 1 && ["TD", "TH"].includes((cell as TableElement).tagName)
+  );
+}
+
+/**
+ * Reads the `colspan` or `rowspan` of a cell.
+ * @param {TableElement} cell - The cell
+ * @param {string} name - "colspan" or "rowspan"
+ * @returns {number} The span, 1 if missing or invalid, 0 for a rowspan to the end of the table
+ * @private
+ */
+function _span(cell: TableElement, name: "colspan" | "rowspan"): number {
+  const span = parseInt(cell.getAttribute(name) || "", 10);
+  if (span === 0 && name === "rowspan") return 0;
+  return span > 0 ? span : 1;
+}
@@ -0,0 +1,49 @@
+import type { LlmCall, Message } from "../types/markitdown";
+
+/**
+ * Default prompt sent with an image to describe it.
+ */
+const DEFAULT_PROMPT = "Write a detailed alt text for this image from a document.";
+
+/**
+ * Describes an image with the llmCall vision path, e.g. to replace the alt text of a
+ * picture in a document or to caption an image file.
+ *
+ * @param {Buffer} image - The image content
+ * @param {string} contentType - MIME type of the image for the data URI
+ * @param {LlmCall} llmCall - Callback function for LLM processing
+ * @param {string} [prompt] - Instruction sent along with the image
+ * @returns {Promise<string | null>} The description, or null if there is no llmCall or the call fails
+ *
+ * @example
+ * ```typescript
+ * const alt = await describeImage(buffer, "image/png", options.llmCall);
+ * ```
+ */
+export async function describeImage(
+  image: Buffer,
+  contentType: string,
+  llmCall: LlmCall,
+  prompt: string = DEFAULT_PROMPT
+): Promise<string | null> {
+  if (typeof llmCall !== "function") return null;
+  try {
+    const imageBase64 = image.toString("base64");
+    const messages: Message[] = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: prompt },
+          {
+            type: "image_url",
+            image_url: { url: `data:${contentType};base64,${imageBase64}` },
+          },
+        ],
+      },
+    ];
+    return await llmCall({ messages, imageBase64 });
+  } catch (err) {
+    console.error("error making llmCall: ", err);
+    return null;
+  }
+}
@@ -0,0 +1,245 @@
+import type {
+  BlockNode,
+  DocumentModelNode,
+  HeadingNode,
+  ListNode,
+} from "../types/documentModel";
+
+/**
+ * Renders a document tree (or any node of it) to Markdown.
+ * Blocks are separated by a blank line, lists use `*` bullets and code blocks are fenced,
+ * matching the output style of CustomMarkdownConverter.
+ *
+ * @param {DocumentModelNode} node - The node to render
+ * @returns {string} The rendered Markdown
+ *
+ * @example
+ * ```typescript
+ * renderMarkdown({
+ *   type: "document",
+ *   children: [
+ *     { type: "heading", level: 1, text: "Report" },
+ *     { type: "table", header: ["Name", "Age"], rows: [["Ada", "36"]] },
+ *   ],
+ * });
+ * // # Report
+ * //
+ * // | Name | Age |
+ * // | ---- | --- |
+ * // | Ada  | 36  |
+ * ```
+ */
+export function renderMarkdown(node: DocumentModelNode): string {
+  switch (node.type) {
+    case "document":
+    case "section":
+      return _renderBlocks(node.children);
+    case "heading":
+      return `${"#".repeat(node.level)} ${node.text.trim()}`;
+    case "paragraph":
+      return node.text.trim();
+    case "list":
+      return _renderList(node);
+    case "listItem":
+      return _renderList({ type: "list", ordered: false, items: [node] });
+    case "table":
+      return renderMarkdownTable(node.header, node.rows);
+    case "image": {
+      const titlePart = node.title
+        ? ` "${node.title.replace(/"/g, '\\"')}"`
+        : "";
+      return `![${node.alt || ""}](${node.src}${titlePart})`;
+    }
+    case "code": {
+      const longestFence = (node.value.match(/`+/g) || []).reduce(
+        (longest, fence) => Math.max(longest, fence.length),
+        2
+      );
+      const fence = "`".repeat(longestFence + 1);
+      return `${fence}${node.language || ""}\n${node.value}\n${fence}`;
+    }
+    case "blockquote":
+      return _renderBlocks(node.children)
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "thematicBreak":
+      return "---";
+    case "markdown":
+      return node.value.trim();
+  }
+}
+
+/**
+ * Renders rows of cells as a GitHub Flavored Markdown table.
+ * Short rows are padded with empty cells and cell content is escaped so pipes and
+ * line breaks don't break the table.
+ *
+ * @param {string[] | null} header - Header cells, or null to render an empty header row
+ * @param {string[][]} rows - Body rows
+ * @returns {string} The Markdown table, or an empty string if there are no cells
+ */
+export function renderMarkdownTable(
+  header: string[] | null,
+  rows: string[][]
+): string {
+  // Reduced rather than spread into Math.max, which overflows the stack for long tables
+  const columnCount = rows.reduce(
+    (count, row) => Math.max(count, row.length),
+    header?.length ?? 0
+  );
+  if (!columnCount) return "";
+
+  const normalize = (row: string[]) =>
+    Array.from({ length: columnCount }, (_, i) =>
+      escapeTableCell(row[i] ?? "")
+    );
+  const headerCells = normalize(header ?? []);
+  const bodyRows = rows.map(normalize);
+
+  const widths = headerCells.map((cell, i) =>
+    bodyRows.reduce(
+      (width, row) => Math.max(width, (row[i] ?? "").length),
+      Math.max(3, cell.length)
+    )
+  );
+  const renderRow = (cells: string[]) =>
+    `| ${cells.map((cell, i) => cell.padEnd(widths[i] ?? 0)).join(" | ")} |`;
+
+  return [
+    renderRow(headerCells),
+    `| ${widths.map((width) => "-".repeat(width)).join(" | ")} |`,
+    ...bodyRows.map(renderRow),
+  ].join("\n");
+}
+
+/**
+ * Escapes text for use inside a Markdown table cell.
+ * Pipes are backslash-escaped and line breaks are replaced with `<br>`.
+ *
+ * @param {string} text - Cell text
+ * @returns {string} The escaped cell text
+ */
+export function escapeTableCell(text: string): string {
+  return text
+    .trim()
+    .replace(/\\?\|/g, "\\|")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Escapes plain text so it isn't read as Markdown formatting, like Turndown escapes
+ * the text of HTML: emphasis and code characters, brackets, and the heading, list,
+ * quote and rule markers at the start of a line.
+ *
+ * @param {string} text - Plain text
+ * @returns {string} The escaped text
+ *
+ * @example
+ * ```typescript
+ * escapeMarkdown("1. Costs *5* of_x"); // "1\\. Costs \\*5\\* of\\_x"
+ * ```
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\*_`\[\]]/g, "\\$&")
+    .replace(/^(\s*)(#{1,6}[ \t]|[-+>]|=+|~~~)/gm, "$1\\$2")
+    .replace(/^(\s*\d+)([.)][ \t])/gm, "$1\\$2");
+}
+
+/**
+ * Moves the headings of blocks down by a number of levels, so a converted document can be
+ * nested under a heading of another one. Headings of sections, blockquotes, list items
+ * and the ATX headings of Markdown nodes outside of code fences are moved too, levels
+ * beyond 6 stay at 6.
+ *
+ * @param {BlockNode[]} blocks - The blocks, which are not changed
+ * @param {number} offset - Number of levels to move the headings down
+ * @returns {BlockNode[]} The blocks with the moved headings
+ *
+ * @example
+ * ```typescript
+ * shiftHeadings([{ type: "heading", level: 1, text: "Report" }], 2);
+ * // [{ type: "heading", level: 3, text: "Report" }]
+ * ```
+ */
+export function shiftHeadings(blocks: BlockNode[], offset: number): BlockNode[] {
+  const level = (current: number) =>
+    Math.min(current + offset, 6) as HeadingNode["level"];
+  return blocks.map((block): BlockNode => {
+    switch (block.type) {
+      case "heading":
+        return { ...block, level: level(block.level) };
+      case "section":
+      case "blockquote":
+        return { ...block, children: shiftHeadings(block.children, offset) };
+      case "list":
+        return {
+          ...block,
+          items: block.items.map((item) =>
+            item.children
+              ? { ...item, children: shiftHeadings(item.children, offset) }
+              : item
+          ),
+        };
+      case "markdown": {
+        let fence: string | null = null;
+        const lines = block.value.split("\n").map((line) => {
+          const marker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1];
+          if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length)))
+            fence = fence ? null : marker;
+          if (fence) return line;
+          return line.replace(
+            /^(\s{0,3})(#{1,6})(?=[ \t]|$)/,
+            (_, indent: string, hashes: string) =>
+              `${indent}${"#".repeat(level(hashes.length))}`
+          );
+        });
+        return { ...block, value: lines.join("\n") };
+      }
+      default:
+        return block;
+    }
+  });
+}
+
+/**
+ * Renders a list of blocks separated by blank lines, skipping empty blocks.
+ * @param {BlockNode[]} blocks - Blocks to render
+ * @returns {string} The rendered Markdown
+ * @private
+ */
+function _renderBlocks(blocks: BlockNode[]): string {
+  return blocks
+    .map((block) => renderMarkdown(block))
+    .filter((markdown) => markdown.length > 0)
+    .join("\n\n");
+}
+
+/**
+ * Renders a (possibly nested) list. Nested blocks are indented to the item's content column.
+ * @param {ListNode} list - The list to render
+ * @returns {string} The rendered Markdown
+ * @private
+ */
+function _renderList(list: ListNode): string {
+  const start = list.start ?? 1;
+  return list.items
+    .map((item, index) => {
+      const marker = list.ordered ? `${start + index}.` : "*";
+      const indent = " ".repeat(marker.length + 1);
+      let markdown = `${marker} ${item.text.trim().replace(/\n(?=[^\n])/g, `\n${indent}`)}`;
+      if (item.children && item.children.length) {
+        const nested = item.children
+          .map((child) => renderMarkdown(child))
+          .filter((child) => child.length > 0)
+          .join("\n")
+          .split("\n")
+          .map((line) => (line ? indent + line : line))
+          .join("\n");
+        markdown += `\n${nested}`;
+      }
+      return markdown;
+    })
+    .join("\n");
+}
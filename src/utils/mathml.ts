@@ -0,0 +1,221 @@
+/**
+ * LaTeX commands of the symbols MathML writes as Unicode characters.
+ */
+const TEX_SYMBOLS: Record<string, string> = {
+  α: "\\alpha",
+  β: "\\beta",
+  γ: "\\gamma",
+  δ: "\\delta",
+  ε: "\\epsilon",
+  ζ: "\\zeta",
+  η: "\\eta",
+  θ: "\\theta",
+  ι: "\\iota",
+  κ: "\\kappa",
+  λ: "\\lambda",
+  μ: "\\mu",
+  ν: "\\nu",
+  ξ: "\\xi",
+  π: "\\pi",
+  ρ: "\\rho",
+  σ: "\\sigma",
+  τ: "\\tau",
+  υ: "\\upsilon",
+  φ: "\\phi",
+  χ: "\\chi",
+  ψ: "\\psi",
+  ω: "\\omega",
+  Γ: "\\Gamma",
+  Δ: "\\Delta",
+  Θ: "\\Theta",
+  Λ: "\\Lambda",
+  Ξ: "\\Xi",
+  Π: "\\Pi",
+  Σ: "\\Sigma",
+  Φ: "\\Phi",
+  Ψ: "\\Psi",
+  Ω: "\\Omega",
+  "×": "\\times",
+  "·": "\\cdot",
+  "⋅": "\\cdot",
+  "÷": "\\div",
+  "±": "\\pm",
+  "∓": "\\mp",
+  "−": "-",
+  "≤": "\\leq",
+  "≥": "\\geq",
+  "≠": "\\neq",
+  "≈": "\\approx",
+  "≡": "\\equiv",
+  "∝": "\\propto",
+  "∞": "\\infty",
+  "→": "\\to",
+  "←": "\\leftarrow",
+  "⇒": "\\Rightarrow",
+  "⇔": "\\Leftrightarrow",
+  "∑": "\\sum",
+  "∏": "\\prod",
+  "∫": "\\int",
+  "∮": "\\oint",
+  "∂": "\\partial",
+  "∇": "\\nabla",
+  "∈": "\\in",
+  "∉": "\\notin",
+  "⊂": "\\subset",
+  "⊆": "\\subseteq",
+  "∪": "\\cup",
+  "∩": "\\cap",
+  "∅": "\\emptyset",
+  "∀": "\\forall",
+  "∃": "\\exists",
+  "¬": "\\neg",
+  "∧": "\\wedge",
+  "∨": "\\vee",
+  "…": "\\ldots",
+  "⋯": "\\cdots",
+  "′": "'",
+  "{": "\\{",
+  "}": "\\}",
+};
+
+/**
+ * Function names which LaTeX writes upright with a command of their own.
+ */
+const TEX_FUNCTIONS = new Set([
+  "sin",
+  "cos",
+  "tan",
+  "cot",
+  "sec",
+  "csc",
+  "arcsin",
+  "arccos",
+  "arctan",
+  "sinh",
+  "cosh",
+  "tanh",
+  "log",
+  "ln",
+  "lg",
+  "exp",
+  "lim",
+  "max",
+  "min",
+  "sup",
+  "inf",
+  "det",
+  "gcd",
+]);
+
+/**
+ * Converts a MathML `<math>` element to LaTeX. The TeX source of renderers like KaTeX
+ * and MathJax is used if the element carries it as an `application/x-tex` annotation,
+ * other formulas are translated from their presentation markup.
+ *
+ * @param {Element} math - The `<math>` element or an element containing it
+ * @returns {string} The LaTeX formula, without `$` delimiters
+ *
+ * @example
+ * ```typescript
+ * // <math><mfrac><mn>1</mn><mi>x</mi></mfrac></math>
+ * mathMlToTex(math); // "\\frac{1}{x}"
+ * ```
+ */
+export function mathMlToTex(math: Element): string {
+  const annotation = Array.from(math.getElementsByTagName("annotation")).find(
+    (element) => element.getAttribute("encoding") === "application/x-tex"
+  );
+  if (annotation) return (annotation.textContent || "").trim();
+  return _tex(math).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Translates a MathML presentation node to LaTeX.
+ * @param {Node} node - The node
+ * @returns {string} The LaTeX of the node
+ * @private
+ */
+function _tex(node: Node): string {
+  if (node.nodeType === 3) return _symbols(node.textContent || "");
+  if (node.nodeType !== 1) return "";
+  const element = node as Element;
+  const children = Array.from(element.childNodes).filter(
+    (child) => child.nodeType === 1
+  );
+  const arg = (index: number) => _group(children[index] ? _tex(children[index]!) : "");
+  const all = () => children.map(_tex).join(" ");
+
+  switch (element.nodeName.toLowerCase().replace(/^m:/, "")) {
+    case "mi": {
+      const text = (element.textContent || "").trim();
+      return TEX_FUNCTIONS.has(text) ? `\\${text}` : _symbols(text);
+    }
+    case "mn":
+    case "mo":
+      return _symbols((element.textContent || "").trim());
+    case "mtext":
+      return `\\text{${(element.textContent || "").trim()}}`;
+    case "mspace":
+      return "\\ ";
+    case "mfrac":
+      return `\\frac{${children[0] ? _tex(children[0]) : ""}}{${children[1] ? _tex(children[1]) : ""}}`;
+    case "msqrt":
+      return `\\sqrt{${all()}}`;
+    case "mroot":
+      return `\\sqrt[${children[1] ? _tex(children[1]) : ""}]${arg(0)}`;
+    case "msup":
+      return `${arg(0)}^${arg(1)}`;
+    case "msub":
+    case "munder":
+      return `${arg(0)}_${arg(1)}`;
+    case "msubsup":
+    case "munderover":
+      return `${arg(0)}_${arg(1)}^${arg(2)}`;
+    case "mover":
+      return `\\overset${arg(1)}${arg(0)}`;
+    case "mfenced": {
+      const open = element.getAttribute("open") ?? "(";
+      const close = element.getAttribute("close") ?? ")";
+      const separator = (element.getAttribute("separators") ?? ",").trim()[0] || "";
+      return `\\left${_symbols(open) || "."} ${children
+        .map(_tex)
+        .join(`${separator} `)} \\right${_symbols(close) || "."}`;
+    }
+    case "mtable":
+      return `\\begin{matrix} ${children.map(_tex).join(" \\\\ ")} \\end{matrix}`;
+    case "mtr":
+    case "mlabeledtr":
+      return children.map(_tex).join(" & ");
+    case "semantics":
+      return children[0] ? _tex(children[0]) : "";
+    case "annotation":
+    case "annotation-xml":
+      return "";
+    default:
+      // math, mrow, mstyle, mpadded, mtd and others only group their content
+      return children.length ? all() : _symbols(element.textContent || "");
+  }
+}
+
+/**
+ * Replaces the Unicode symbols of a text with LaTeX commands.
+ * @param {string} text - The text
+ * @returns {string} The LaTeX
+ * @private
+ */
+function _symbols(text: string): string {
+  return Array.from(text)
+    .map((char) => (TEX_SYMBOLS[char] ? `${TEX_SYMBOLS[char]} ` : char))
+    .join("")
+    .trim();
+}
+
+/**
+ * Wraps a LaTeX expression in braces unless it is a single character or command.
+ * @param {string} tex - The expression
+ * @returns {string} The grouped expression
+ * @private
+ */
+function _group(tex: string): string {
+  return tex.length === 1 || /^\\[a-zA-Z]+$/.test(tex) ? tex : `{${tex}}`;
+}
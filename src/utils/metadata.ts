@@ -0,0 +1,186 @@
+import type { DocumentMetadata } from "../types/document";
+
+/**
+ * Order in which the common metadata fields are written to the front matter.
+ */
+const FRONT_MATTER_FIELDS: (keyof DocumentMetadata)[] = [
+  "author",
+  "createdAt",
+  "modifiedAt",
+  "pageCount",
+  "language",
+  "sourceUrl",
+  "mimeType",
+  "converter",
+  "extra",
+];
+
+/**
+ * Renders the title and metadata of a conversion result as a YAML front matter block.
+ * Strings are always double quoted, so values like dates or "yes" keep their type.
+ *
+ * @param {string | null} title - Title of the document
+ * @param {DocumentMetadata} metadata - Metadata of the document
+ * @returns {string} The front matter including the `---` delimiters and a trailing newline
+ *
+ * @example
+ * ```typescript
+ * renderFrontMatter("Report", { pageCount: 3, converter: "PdfConverter" });
+ * // ---
+ * // title: "Report"
+ * // pageCount: 3
+ * // converter: "PdfConverter"
+ * // ---
+ * ```
+ */
+export function renderFrontMatter(
+  title: string | null,
+  metadata: DocumentMetadata = {}
+): string {
+  const lines: string[] = [];
+  if (title) lines.push(`title: ${JSON.stringify(title)}`);
+  for (const field of FRONT_MATTER_FIELDS) {
+    lines.push(..._yamlEntry(field, metadata[field], 0));
+  }
+  return `---\n${lines.join("\n")}${lines.length ? "\n" : ""}---\n`;
+}
+
+/**
+ * Converts a date-like value to an ISO 8601 string.
+ * Accepts Date objects, exiftool-vendored dates (anything with `toISOString` or `toDate`),
+ * timestamps and date strings, including PDF dates like `D:20240131120000+01'00'`.
+ *
+ * @param {unknown} value - The value to convert
+ * @returns {string | undefined} The ISO date, or undefined if the value is not a valid date
+ */
+export function toIsoDate(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  if (value instanceof Date)
+    return isNaN(value.getTime()) ? undefined : value.toISOString();
+  if (typeof value === "object") {
+    const date = value as { toDate?: () => unknown; toISOString?: () => unknown };
+    if (typeof date.toDate === "function") return toIsoDate(date.toDate());
+    if (typeof date.toISOString === "function")
+      return toIsoDate(String(date.toISOString()));
+    return undefined;
+  }
+  if (typeof value === "number") return toIsoDate(new Date(value));
+  if (typeof value !== "string") return undefined;
+
+  const pdfDate = _parsePdfDate(value);
+  if (pdfDate) return pdfDate;
+  // exiftool style dates, e.g. "2024:01:31 12:00:00"
+  const text = value
+    .trim()
+    .replace(/^(\d{4}):(\d{2}):(\d{2})/, "$1-$2-$3")
+    .replace(/^(\d{4}-\d{2}-\d{2}) /, "$1T");
+  return toIsoDate(new Date(text));
+}
+
+/**
+ * Normalizes a metadata value so it can be serialized, e.g. as JSON or YAML front matter.
+ * Dates become ISO strings, binary data and functions are dropped and
+ * other class instances are converted to their string representation.
+ *
+ * @param {unknown} value - The value to normalize
+ * @returns {unknown} The normalized value, or undefined if it should be left out
+ */
+export function normalizeMetadataValue(value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (["string", "number", "boolean"].includes(typeof value)) return value;
+  if (typeof value !== "object") return undefined;
+  if (value instanceof Date) return toIsoDate(value);
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer)
+    return undefined;
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => normalizeMetadataValue(item))
+      .filter((item) => item !== undefined);
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype === Object.prototype || prototype === null) {
+    const normalized: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const normalizedItem = normalizeMetadataValue(item);
+      if (normalizedItem !== undefined) normalized[key] = normalizedItem;
+    }
+    return normalized;
+  }
+
+  const date = toIsoDate(value);
+  if (date) return date;
+  const text = String(value);
+  return text === "[object Object]" ? undefined : text;
+}
+
+/**
+ * Parses a PDF date string (`D:YYYYMMDDHHmmSSOHH'mm'`).
+ * @param {string} value - The PDF date
+ * @returns {string | undefined} The ISO date, or undefined if the value is not a PDF date
+ * @private
+ */
+function _parsePdfDate(value: string): string | undefined {
+  const match = value.match(
+    /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:(Z)|([+-])(\d{2})'?(\d{2})?'?)?/
+  );
+  if (!match) return undefined;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00"] = match;
+  const second = match[6] || "00";
+  const offset =
+    match[7] || !match[8]
+      ? "Z"
+      : `${match[8]}${match[9]}:${match[10] || "00"}`;
+  const date = new Date(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`
+  );
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Renders a key and value as YAML lines.
+ * @param {string} key - The key
+ * @param {unknown} value - The value, nested objects and arrays are rendered as blocks
+ * @param {number} depth - Indentation depth
+ * @returns {string[]} The YAML lines, empty if the value is left out
+ * @private
+ */
+function _yamlEntry(key: string, value: unknown, depth: number): string[] {
+  const normalized = normalizeMetadataValue(value);
+  if (normalized === undefined) return [];
+  const indent = "  ".repeat(depth);
+  const yamlKey = /^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key);
+
+  if (Array.isArray(normalized)) {
+    if (!normalized.length) return [`${indent}${yamlKey}: []`];
+    return [
+      `${indent}${yamlKey}:`,
+      ...normalized.map(
+        (item) => `${indent}  - ${_yamlScalar(item)}`
+      ),
+    ];
+  }
+  if (typeof normalized === "object" && normalized !== null) {
+    const entries = Object.entries(normalized);
+    if (!entries.length) return [`${indent}${yamlKey}: {}`];
+    return [
+      `${indent}${yamlKey}:`,
+      ...entries.flatMap(([childKey, childValue]) =>
+        _yamlEntry(childKey, childValue, depth + 1)
+      ),
+    ];
+  }
+  return [`${indent}${yamlKey}: ${_yamlScalar(normalized)}`];
+}
+
+/**
+ * Renders a value as an inline YAML scalar. Objects are written in flow style (JSON).
+ * @param {unknown} value - The value
+ * @returns {string} The YAML scalar
+ * @private
+ */
+function _yamlScalar(value: unknown): string {
+  if (typeof value === "number" || typeof value === "boolean")
+    return String(value);
+  return JSON.stringify(value);
+}
@@ -0,0 +1,377 @@
+import iconv from "iconv-lite";
+import { parseCharset } from "./detection";
+
+/**
+ * A parsed MIME entity: a whole message or one part of a multipart body.
+ * Header names are lowercased, the body is decoded from its transfer encoding
+ * but not from its charset, see `decodeMimeText`.
+ */
+export type MimePart = {
+  headers: Record<string, string[]>;
+  // Lowercased media type, e.g. "text/plain"
+  contentType: string;
+  charset: string | null;
+  // "attachment", "inline" or null if the part has no Content-Disposition header
+  disposition: string | null;
+  fileName: string | null;
+  contentId: string | null;
+  body: Buffer;
+  // Parts of a multipart body, or the message of a message/rfc822 part
+  parts: MimePart[];
+};
+
+/**
+ * A mailbox of an address header, e.g. `"Jane Roe" <jane@example.com>`.
+ */
+export type MailAddress = {
+  name: string | null;
+  address: string;
+};
+
+/**
+ * Parses an RFC 5322 message with its MIME structure.
+ * Multipart bodies are split into their parts and attached messages are parsed as well,
+ * quoted-printable and base64 bodies are decoded.
+ *
+ * @param {Buffer} raw - The raw message
+ * @returns {MimePart} The message
+ *
+ * @example
+ * ```typescript
+ * const message = parseMimeMessage(fs.readFileSync("mail.eml"));
+ * getHeader(message, "subject"); // "Quarterly report"
+ * message.parts.map((part) => part.contentType); // ["text/plain", "text/html"]
+ * ```
+ */
+export function parseMimeMessage(raw: Buffer): MimePart {
+  // latin1 keeps every byte as one character, 8bit bodies are decoded with their charset later
+  return _parsePart(raw.toString("latin1"), "text/plain");
+}
+
+/**
+ * Gets the first value of a header with RFC 2047 encoded words decoded.
+ *
+ * @param {MimePart} part - The message or part
+ * @param {string} name - Header name, case insensitive
+ * @returns {string | null} The header value, or null if the header is missing
+ */
+export function getHeader(part: MimePart, name: string): string | null {
+  const value = part.headers[name.toLowerCase()]?.[0];
+  return value === undefined ? null : decodeMimeWords(value);
+}
+
+/**
+ * Decodes the RFC 2047 encoded words of a header value, e.g. `=?UTF-8?Q?Caf=C3=A9?=`.
+ * White space between adjacent encoded words is dropped.
+ *
+ * @param {string} value - The raw header value, with each byte as a latin1 character
+ * @returns {string} The decoded value
+ *
+ * @example
+ * ```typescript
+ * decodeMimeWords("=?ISO-8859-1?Q?Caf=E9?= au lait"); // "Café au lait"
+ * ```
+ */
+export function decodeMimeWords(value: string): string {
+  const encodedWord = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/g;
+  let result = "";
+  let lastIndex = 0;
+  let lastWasEncoded = false;
+  for (const match of value.matchAll(encodedWord)) {
+    const between = value.slice(lastIndex, match.index);
+    if (!(lastWasEncoded && !between.trim())) result += _decodeRaw(between);
+    // RFC 2231 allows a language suffix, e.g. "utf-8*en"
+    const charset = match[1]!.split("*")[0]!;
+    const bytes =
+      match[2]!.toUpperCase() === "B"
+        ? Buffer.from(match[3]!, "base64")
+        : _decodeQuotedPrintable(match[3]!.replace(/_/g, " "));
+    result += _decodeBytes(bytes, charset);
+    lastIndex = match.index! + match[0].length;
+    lastWasEncoded = true;
+  }
+  return result + _decodeRaw(value.slice(lastIndex));
+}
+
+/**
+ * Decodes the body of a text part with the charset of its Content-Type header.
+ * Bodies without a charset are read as UTF-8.
+ *
+ * @param {MimePart} part - The text part
+ * @returns {string} The text
+ */
+export function decodeMimeText(part: MimePart): string {
+  return _decodeBytes(part.body, part.charset || "utf-8");
+}
+
+/**
+ * Parses the mailboxes of an address header like From, To or Cc.
+ * Group names (`Team: a@example.com, b@example.com;`) are dropped, their members kept.
+ *
+ * @param {string | null} value - The decoded header value
+ * @returns {MailAddress[]} The mailboxes
+ *
+ * @example
+ * ```typescript
+ * parseAddressList('"Roe, Jane" <jane@example.com>, bob@example.com');
+ * // [
+ * //   { name: "Roe, Jane", address: "jane@example.com" },
+ * //   { name: null, address: "bob@example.com" },
+ * // ]
+ * ```
+ */
+export function parseAddressList(value: string | null): MailAddress[] {
+  if (!value) return [];
+  // Split at commas outside of quotes, angle brackets and comments
+  const entries: string[] = [];
+  let current = "";
+  let quoted = false;
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!;
+    if (char === "\\" && quoted) {
+      current += char + (value[++i] ?? "");
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === "<" || char === "(")) depth++;
+    else if (!quoted && (char === ">" || char === ")")) depth = Math.max(0, depth - 1);
+    else if (!quoted && !depth && (char === "," || char === ";")) {
+      entries.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  entries.push(current);
+
+  return entries.flatMap((entry) => {
+    // Drop the group name of the first member
+    const text = entry.replace(/^[^"<:]*:/, "").trim();
+    const angle = text.match(/^(.*)<([^>]*)>/);
+    if (angle) {
+      const name = _unquote(angle[1]!);
+      return angle[2]!.trim() ? [{ name: name || null, address: angle[2]!.trim() }] : [];
+    }
+    const comment = text.match(/^([^\s(]+)\s*\((.*)\)$/);
+    if (comment) return [{ name: comment[2]!.trim() || null, address: comment[1]! }];
+    return text ? [{ name: null, address: text }] : [];
+  });
+}
+
+/**
+ * Formats a mailbox as `Name <address>`, or just the address if it has no name.
+ *
+ * @param {MailAddress} mailAddress - The mailbox
+ * @returns {string} The formatted mailbox
+ */
+export function formatAddress({ name, address }: MailAddress): string {
+  return name ? `${name} <${address}>` : address;
+}
+
+/**
+ * Splits an mbox mailbox into its messages. Messages start with a `From ` line,
+ * which is removed, and `>From ` lines escaped by the mboxrd format are unescaped.
+ *
+ * @param {Buffer} raw - The mailbox file
+ * @returns {Buffer[]} The raw messages
+ */
+export function splitMbox(raw: Buffer): Buffer[] {
+  const text = raw.toString("latin1");
+  return text
+    .split(/^From [^\r\n]*\r?\n/m)
+    .slice(1)
+    .map((message) =>
+      Buffer.from(message.replace(/^>(>*From )/gm, "$1"), "latin1")
+    )
+    .filter((message) => message.toString("latin1").trim());
+}
+
+/**
+ * Parses a MIME entity from its raw text.
+ * @param {string} raw - The entity, with each byte as a latin1 character
+ * @param {string} defaultType - Media type if the entity has no Content-Type header,
+ *   "message/rfc822" for the parts of a multipart/digest
+ * @returns {MimePart} The parsed entity
+ * @private
+ */
+function _parsePart(raw: string, defaultType: string): MimePart {
+  // Parts without headers start with the empty line
+  const separator = raw.match(/^\r?\n|\r?\n\r?\n/);
+  const headerText = separator ? raw.slice(0, separator.index) : raw;
+  const bodyText = separator ? raw.slice(separator.index! + separator[0].length) : "";
+
+  const headers: Record<string, string[]> = {};
+  // Folded header lines continue with white space
+  for (const line of headerText.replace(/\r?\n(?=[ \t])/g, "").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    (headers[name] ||= []).push(line.slice(colon + 1).trim());
+  }
+
+  const contentTypeHeader = headers["content-type"]?.[0] || "";
+  const contentType =
+    contentTypeHeader.split(";")[0]!.trim().toLowerCase() || defaultType;
+  const dispositionHeader = headers["content-disposition"]?.[0] || "";
+  const disposition = dispositionHeader.split(";")[0]!.trim().toLowerCase() || null;
+  const fileName =
+    _parameter(dispositionHeader, "filename") ||
+    _parameter(contentTypeHeader, "name");
+  const contentId = headers["content-id"]?.[0]?.replace(/^<|>$/g, "") || null;
+
+  const part: MimePart = {
+    headers,
+    contentType,
+    charset: parseCharset(contentTypeHeader),
+    disposition,
+    fileName,
+    contentId,
+    body: Buffer.alloc(0),
+    parts: [],
+  };
+
+  const boundary = _parameter(contentTypeHeader, "boundary");
+  if (contentType.startsWith("multipart/") && boundary) {
+    const partType = contentType === "multipart/digest" ? "message/rfc822" : "text/plain";
+    part.parts = _splitMultipart(bodyText, boundary).map((text) =>
+      _parsePart(text, partType)
+    );
+    return part;
+  }
+
+  const encoding = (headers["content-transfer-encoding"]?.[0] || "").toLowerCase();
+  if (encoding === "base64") part.body = Buffer.from(bodyText, "base64");
+  else if (encoding === "quoted-printable") part.body = _decodeQuotedPrintable(bodyText);
+  else part.body = Buffer.from(bodyText, "latin1");
+
+  if (contentType === "message/rfc822" || contentType === "message/global") {
+    part.parts = [_parsePart(part.body.toString("latin1"), "text/plain")];
+  }
+  return part;
+}
+
+/**
+ * Splits a multipart body at its boundary lines, dropping the preamble and epilogue.
+ * @param {string} body - The multipart body
+ * @param {string} boundary - The boundary of the Content-Type header
+ * @returns {string[]} The raw parts
+ * @private
+ */
+function _splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  const delimiter = `--${boundary}`;
+  let current: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    // Nested boundaries may start with this one, like "--abc-1" inside "--abc"
+    const rest = line.startsWith(delimiter) ? line.slice(delimiter.length) : null;
+    if (rest !== null && /^(--)?\s*$/.test(rest)) {
+      const closing = rest.startsWith("--");
+      if (current) parts.push(current.join("\r\n"));
+      current = closing ? null : [];
+      if (closing) break;
+      continue;
+    }
+    current?.push(line);
+  }
+  if (current) parts.push(current.join("\r\n"));
+  return parts;
+}
+
+/**
+ * Reads a parameter of a structured header like Content-Type, including RFC 2231
+ * encoded (`name*=utf-8''...`) and continued (`name*0=...`) values.
+ * @param {string} header - The header value
+ * @param {string} name - The parameter name
+ * @returns {string | null} The parameter value, or null if the parameter is missing
+ * @private
+ */
+function _parameter(header: string, name: string): string | null {
+  const pattern = new RegExp(
+    `;\\s*${name}(\\*\\d+)?(\\*)?\\s*=\\s*("(?:[^"\\\\]|\\\\.)*"|[^;\\s]*)`,
+    "gi"
+  );
+  const sections: { index: number; value: string; encoded: boolean }[] = [];
+  for (const match of header.matchAll(pattern)) {
+    sections.push({
+      index: match[1] ? Number(match[1].slice(1)) : 0,
+      value: _unquote(match[3]!),
+      encoded: !!match[2],
+    });
+  }
+  if (!sections.length) return null;
+  sections.sort((a, b) => a.index - b.index);
+
+  const [first] = sections;
+  // Some clients put encoded words into parameters instead
+  if (!first!.encoded)
+    return decodeMimeWords(sections.map((section) => section.value).join(""));
+  // The charset and language precede the first encoded section: utf-8'en'...
+  const [, charset = "utf-8", firstValue = first!.value] =
+    first!.value.match(/^([^']*)'[^']*'(.*)$/) || [];
+  const bytes = sections.map((section, index) => {
+    const value = index === 0 ? firstValue : section.value;
+    return section.encoded
+      ? Buffer.from(value.replace(/%([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))), "latin1")
+      : Buffer.from(value, "latin1");
+  });
+  return _decodeBytes(Buffer.concat(bytes), charset || "utf-8");
+}
+
+/**
+ * Decodes quoted-printable text, joining soft line breaks.
+ * @param {string} text - The encoded text
+ * @returns {Buffer} The decoded bytes
+ * @private
+ */
+function _decodeQuotedPrintable(text: string): Buffer {
+  const decoded = text
+    .replace(/[ \t]+(?=\r?\n)/g, "")
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+  return Buffer.from(decoded, "latin1");
+}
+
+/**
+ * Decodes bytes with a charset, falling back to UTF-8 for unknown charsets.
+ * @param {Buffer} bytes - The bytes
+ * @param {string} charset - The charset name
+ * @returns {string} The text
+ * @private
+ */
+function _decodeBytes(bytes: Buffer, charset: string): string {
+  // Mail clients label Windows-1252 text as Latin-1, which is its subset
+  const name = /^(iso-8859-1|latin1|us-ascii|ascii)$/i.test(charset) ? "windows-1252" : charset;
+  return iconv.decode(bytes, iconv.encodingExists(name) ? name : "utf-8");
+}
+
+/**
+ * Decodes the unencoded text of a header, which is UTF-8 in internationalized messages.
+ * @param {string} text - The text, with each byte as a latin1 character
+ * @returns {string} The text
+ * @private
+ */
+function _decodeRaw(text: string): string {
+  if (!/[^\x00-\x7f]/.test(text)) return text;
+  const bytes = Buffer.from(text, "latin1");
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch (error) {
+    return iconv.decode(bytes, "windows-1252");
+  }
+}
+
+/**
+ * Removes the quotes and escapes of a quoted string.
+ * @param {string} text - The text
+ * @returns {string} The unquoted text
+ * @private
+ */
+function _unquote(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('"') || !trimmed.endsWith('"') || trimmed.length < 2)
+    return trimmed;
+  return trimmed.slice(1, -1).replace(/\\(.)/g, "$1");
+}
@@ -0,0 +1,103 @@
+import fs from "fs";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import tmp from "tmp";
+import tesseract from "node-tesseract-ocr";
+import type { LlmCall, Message } from "../types/markitdown";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Default languages passed to tesseract, as tesseract language codes.
+ */
+const DEFAULT_OCR_LANGUAGES = ["eng"];
+
+/**
+ * Recognizes the text of an image with tesseract, falling back to the llmCall vision path
+ * if tesseract is not installed or doesn't find any text.
+ *
+ * @param {string} imagePath - Path to the image file
+ * @param {Object} [options] - OCR options
+ * @param {string[]} [options.languages] - Tesseract language codes, e.g. ["eng", "deu"]
+ * @param {LlmCall} [options.llmCall] - Callback used to transcribe the image with an LLM
+ * @param {string} [options.mimeType] - MIME type of the image for the LLM data URI
+ * @returns {Promise<string | null>} The recognized text, or null if no text was found
+ *
+ * @example
+ * ```typescript
+ * const text = await recognizeText("scan.png", { languages: ["eng", "fra"] });
+ * ```
+ */
+export async function recognizeText(
+  imagePath: string,
+  {
+    languages = DEFAULT_OCR_LANGUAGES,
+    llmCall,
+    mimeType = "image/png",
+  }: { languages?: string[]; llmCall?: LlmCall; mimeType?: string } = {}
+): Promise<string | null> {
+  try {
+    const text: string = await tesseract.recognize(imagePath, {
+      lang: languages.join("+"),
+    });
+    if (text.trim()) return text.trim();
+  } catch (error) {
+    // User doesn't have tesseract (or the language data) installed
+  }
+
+  if (typeof llmCall !== "function") return null;
+  try {
+    const imageBase64 = fs.readFileSync(imagePath, { encoding: "base64" });
+    const messages: Message[] = [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: "Transcribe all text in this image exactly as written, keeping the reading order. Only respond with the text.",
+          },
+          {
+            type: "image_url",
+            image_url: { url: `data:${mimeType};base64,${imageBase64}` },
+          },
+        ],
+      },
+    ];
+    const text = await llmCall({ messages, imageBase64 });
+    return text?.trim() || null;
+  } catch (err) {
+    console.error("error making llmCall: ", err);
+    return null;
+  }
+}
+
+/**
+ * Renders a page of a PDF file to a PNG image with `pdftoppm` (poppler-utils).
+ * The caller is responsible for removing the image.
+ *
+ * @param {string} pdfPath - Path to the PDF file
+ * @param {number} pageNumber - 1-based number of the page
+ * @param {number} [resolution=300] - Resolution of the image in DPI
+ * @returns {Promise<string>} Path to the PNG image
+ * @throws {Error} If pdftoppm is not installed or fails to render the page
+ */
+export async function rasterizePdfPage(
+  pdfPath: string,
+  pageNumber: number,
+  resolution: number = 300
+): Promise<string> {
+  const outputPrefix = tmp.tmpNameSync({ prefix: "markitdownjs-" });
+  await execFileAsync("pdftoppm", [
+    "-f",
+    String(pageNumber),
+    "-l",
+    String(pageNumber),
+    "-r",
+    String(resolution),
+    "-png",
+    "-singlefile",
+    pdfPath,
+    outputPrefix,
+  ]);
+  return `${outputPrefix}.png`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Parses a page range like "1-5,9" or "10-" into inclusive ranges of 1-based page numbers.
+ *
+ * @param {string} pages - The page range
+ * @returns {[number, number][]} The ranges, open ranges end at Infinity
+ * @throws {Error} If the page range is invalid
+ *
+ * @example
+ * ```typescript
+ * parsePageRanges("1-5,9,12-"); // [[1, 5], [9, 9], [12, Infinity]]
+ * ```
+ */
+export function parsePageRanges(pages: string): [number, number][] {
+  return pages.split(",").map((part) => {
+    const match = part.trim().match(/^(\d+)(?:\s*(-)\s*(\d*))?$/);
+    const start = Number(match?.[1]);
+    const end = !match?.[2] ? start : match[3] ? Number(match[3]) : Infinity;
+    if (!match || start < 1 || end < start) {
+      throw new Error(
+        `Invalid page range "${pages}", expected page numbers and ranges like "1-5,9" or "10-"`
+      );
+    }
+    return [start, end];
+  });
+}
+
+/**
+ * Gets the last page which has to be read to convert the selected pages, at most
+ * `maxPages` of them counted from the first selected page.
+ *
+ * @param {[number, number][] | null} ranges - The selected pages, null for all pages
+ * @param {number} maxPages - Maximum number of pages to convert, 0 for no limit
+ * @returns {number} The page number, or 0 if the pages have to be read to the end
+ *
+ * @example
+ * ```typescript
+ * lastSelectedPage([[5, Infinity]], 3); // 7
+ * lastSelectedPage([[1, 2], [9, 9]], 0); // 9
+ * ```
+ */
+export function lastSelectedPage(
+  ranges: [number, number][] | null,
+  maxPages: number
+): number {
+  if (!ranges) return maxPages;
+  let remaining = maxPages;
+  let lastPage = 0;
+  // Overlapping ranges count their pages once
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const from = Math.max(start, lastPage + 1);
+    if (end < from) continue;
+    if (maxPages && end - from + 1 >= remaining) return from + remaining - 1;
+    remaining -= end - from + 1;
+    lastPage = end;
+  }
+  return Number.isFinite(lastPage) ? lastPage : 0;
+}
@@ -0,0 +1,952 @@
+import pdfjs from "pdf-parse-tt-message-gone/lib/pdf.js/v1.10.100/build/pdf.js";
+import type {
+  BlockNode,
+  ListItemNode,
+  ListNode,
+  TableNode,
+} from "../types/documentModel";
+
+// pdf.js loads the fonts of a page through the DOM when its operator list is requested,
+// which throws outside of browsers. The font data (names, metrics) is available without it.
+pdfjs.PDFJS.disableFontFace = true;
+
+const { OPS } = pdfjs;
+
+// Paint operators which make a path visible, other paths are clipping paths.
+const PAINT_OPS = new Set([
+  OPS.stroke,
+  OPS.closeStroke,
+  OPS.fill,
+  OPS.eoFill,
+  OPS.fillStroke,
+  OPS.eoFillStroke,
+  OPS.closeFillStroke,
+  OPS.closeEOFillStroke,
+]);
+
+const BULLET_PATTERN = /^([•◦▪▫‣●○■□·∙➢►✓–—*-])\s*(.*)$/;
+const NUMBERED_PATTERN = /^(\d{1,3}|[a-z])[.)]\s+(.*)$/;
+// Page numbers like "3", "Page 3" or "3 of 10"
+const PAGE_NUMBER_PATTERN = /^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i;
+
+// Milliseconds to wait for a font object, fonts which fail to load are never resolved.
+const FONT_TIMEOUT = 1000;
+
+// The fonts of a document by loaded name, and the keys of the font objects already read.
+type FontCache = { fonts: Map<string, any[]>; read: Set<string> };
+
+// Font caches by the pdf.js object store of their document, shared by its pages.
+const FONT_CACHES = new WeakMap<object, FontCache>();
+
+// A run of text drawn with one font, in PDF coordinates (origin at the bottom left).
+type TextItem = {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  bold: boolean;
+};
+
+// A line of text in one column of the page.
+type TextLine = {
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  fontSize: number;
+  bold: boolean;
+};
+
+type Segment = { x1: number; y1: number; x2: number; y2: number };
+
+// Column of a two column layout an element belongs to, "full" if it spans both.
+type Column = "left" | "right" | "full";
+
+// A list item found in the text, with the line of its marker.
+type ListEntry = {
+  line: TextLine;
+  text: string;
+  ordered: boolean;
+  number?: number;
+};
+
+// Content of a page in reading order.
+type PageElement =
+  | { kind: "line"; top: number; line: TextLine }
+  | { kind: "table"; top: number; table: TableNode };
+
+// Text layout of a PDF page, see extractPageLayout.
+export type PdfPageLayout = {
+  number: number;
+  width: number;
+  height: number;
+  elements: PageElement[];
+};
+
+/**
+ * Extracts the text lines and ruled tables of a pdf.js page in reading order.
+ * Text in a two column layout is ordered column by column, text spanning both columns
+ * (titles, figures) separates the column blocks.
+ *
+ * @param {any} pageData - The pdf.js page, as passed to the pdf-parse `pagerender` callback
+ * @returns {Promise<PdfPageLayout>} The layout of the page
+ */
+export async function extractPageLayout(
+  pageData: any
+): Promise<PdfPageLayout> {
+  const [textContent, segments] = await Promise.all([
+    pageData.getTextContent({
+      normalizeWhitespace: true,
+      disableCombineTextItems: false,
+    }),
+    _getRulingSegments(pageData),
+  ]);
+  const boldFonts = await _getBoldFonts(
+    pageData,
+    textContent.items.map((item: any) => item.fontName)
+  );
+
+  const items: TextItem[] = textContent.items
+    // Control and private use characters are glyphs without a text mapping
+    .map((item: any) => ({
+      ...item,
+      str: item.str.replace(/[\p{Cc}\p{Co}]/gu, " "),
+    }))
+    .filter((item: any) => item.str.trim())
+    .map((item: any) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      fontSize: Math.hypot(item.transform[2], item.transform[3]) || 1,
+      bold: boldFonts.has(item.fontName),
+    }));
+
+  const [, , width = 0, height = 0] = pageData.view || [];
+
+  // Tables first, their text is not part of the running text
+  const tables: { table: TableNode; left: number; right: number; top: number }[] =
+    [];
+  let remaining = items;
+  for (const grid of _findTableGrids(segments)) {
+    const left = grid.xs[0]!;
+    const right = grid.xs[grid.xs.length - 1]!;
+    const top = grid.ys[0]!;
+    const bottom = grid.ys[grid.ys.length - 1]!;
+    const inside = (item: TextItem) => {
+      const centerX = item.x + item.width / 2;
+      const centerY = item.y + item.fontSize * 0.3;
+      return (
+        centerX > left && centerX < right && centerY < top && centerY > bottom
+      );
+    };
+    const table = _tableFromGrid(grid, remaining.filter(inside));
+    if (!table) continue;
+    remaining = remaining.filter((item) => !inside(item));
+    tables.push({ table, left, right, top });
+  }
+
+  const gutter = _findColumnGutter(remaining, width);
+  const columnOf = (left: number, right: number): Column =>
+    gutter === null
+      ? "full"
+      : right <= gutter + 1
+      ? "left"
+      : left >= gutter - 1
+      ? "right"
+      : "full";
+
+  const elements: (PageElement & { column: Column })[] = tables.map(
+    ({ table, left, right, top }) => ({
+      kind: "table",
+      top,
+      table,
+      column: columnOf(left, right),
+    })
+  );
+  const columns = new Map<Column, TextItem[]>();
+  for (const item of remaining) {
+    const column = columnOf(item.x, item.x + item.width);
+    columns.set(column, [...(columns.get(column) || []), item]);
+  }
+  for (const [column, columnItems] of columns) {
+    for (const line of _groupLines(columnItems)) {
+      elements.push({
+        kind: "line",
+        top: line.y + line.fontSize,
+        line,
+        column,
+      });
+    }
+  }
+
+  return {
+    number: pageData.pageIndex + 1,
+    width,
+    height,
+    elements: _readingOrder(elements),
+  };
+}
+
+/**
+ * Turns the layouts of the pages of a document into document blocks, one list per page.
+ * Lines repeated at the top or bottom of most pages (running headers, footers and
+ * page numbers) are left out, lines are reflowed into paragraphs, larger or bold lines
+ * become headings and bullet or numbered lines become lists.
+ *
+ * Headings start at level 3, below the `## Page N` heading of the page.
+ *
+ * @param {PdfPageLayout[]} pages - Layouts of the pages, in document order
+ * @returns {BlockNode[][]} The blocks of each page
+ */
+export function layoutPagesToBlocks(pages: PdfPageLayout[]): BlockNode[][] {
+  const cleanedPages = _removeRunningLines(pages);
+  const lines = cleanedPages.flatMap((elements) =>
+    elements.flatMap((element) => (element.kind === "line" ? [element.line] : []))
+  );
+  const bodySize = _bodyFontSize(lines);
+  const headingSizes = [
+    ...new Set(
+      lines
+        .filter((line) => line.fontSize >= bodySize * 1.15)
+        .map((line) => _roundSize(line.fontSize))
+    ),
+  ].sort((a, b) => b - a);
+
+  const headingLevel = (line: TextLine): number | null => {
+    const sizeIndex = headingSizes.indexOf(_roundSize(line.fontSize));
+    if (sizeIndex >= 0 && line.text.length <= 200)
+      return Math.min(6, 3 + sizeIndex);
+    if (
+      line.bold &&
+      line.text.length <= 100 &&
+      !/[.,;]$/.test(line.text) &&
+      _roundSize(line.fontSize) >= bodySize
+    )
+      return Math.min(6, 3 + headingSizes.length);
+    return null;
+  };
+
+  return cleanedPages.map((elements) => _pageBlocks(elements, headingLevel));
+}
+
+/**
+ * Builds the blocks of a page from its elements in reading order.
+ * @param {PageElement[]} elements - The page elements
+ * @param {(line: TextLine) => number | null} headingLevel - Heading level of a line, null for body text
+ * @returns {BlockNode[]} The blocks of the page
+ * @private
+ */
+function _pageBlocks(
+  elements: PageElement[],
+  headingLevel: (line: TextLine) => number | null
+): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let paragraph: TextLine[] = [];
+  let listItems: ListEntry[] = [];
+  let previous: TextLine | null = null;
+  let previousLevel: number | null = null;
+
+  const flushParagraph = () => {
+    const text = paragraph.reduce(
+      (text, line) => _joinLines(text, line.text),
+      ""
+    );
+    if (text) blocks.push({ type: "paragraph", text });
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (listItems.length) blocks.push(_listNode(listItems));
+    listItems = [];
+  };
+
+  for (const element of elements) {
+    if (element.kind === "table") {
+      flushParagraph();
+      flushList();
+      blocks.push(element.table);
+      previous = null;
+      previousLevel = null;
+      continue;
+    }
+
+    const line = element.line;
+    const level = headingLevel(line);
+    const closeToPrevious =
+      !!previous &&
+      previous.y > line.y &&
+      previous.y - line.y <= Math.max(previous.fontSize, line.fontSize) * 1.6;
+
+    if (level !== null) {
+      flushParagraph();
+      flushList();
+      const last = blocks[blocks.length - 1];
+      // Headings wrapped over several lines
+      if (
+        last?.type === "heading" &&
+        previousLevel === level &&
+        closeToPrevious
+      ) {
+        last.text = _joinLines(last.text, line.text);
+      } else {
+        blocks.push({
+          type: "heading",
+          level: level as 3 | 4 | 5 | 6,
+          text: line.text,
+        });
+      }
+      previous = line;
+      previousLevel = level;
+      continue;
+    }
+
+    const bullet = line.text.match(BULLET_PATTERN);
+    const numbered = line.text.match(NUMBERED_PATTERN);
+    const marker =
+      bullet && bullet[2]
+        ? { ordered: false, text: bullet[2] }
+        : numbered && numbered[2]
+        ? {
+            ordered: true,
+            text: numbered[2],
+            number: Number(numbered[1]) || undefined,
+          }
+        : null;
+
+    if (marker) {
+      flushParagraph();
+      listItems.push({ line, ...marker });
+    } else if (
+      listItems.length &&
+      closeToPrevious &&
+      line.x > listItems[listItems.length - 1]!.line.x + 1
+    ) {
+      // Continuation of a wrapped list item, indented past the marker
+      const item = listItems[listItems.length - 1]!;
+      item.text = _joinLines(item.text, line.text);
+    } else {
+      flushList();
+      if (paragraph.length && !_continuesParagraph(paragraph, line)) {
+        flushParagraph();
+      }
+      paragraph.push(line);
+    }
+    previous = line;
+    previousLevel = null;
+  }
+  flushParagraph();
+  flushList();
+
+  return blocks;
+}
+
+/**
+ * Checks whether a line continues a paragraph: it follows closely below the previous
+ * line (or continues at the top of the next column), has the same font size and
+ * is not indented like the first line of a new paragraph.
+ * @param {TextLine[]} paragraph - Lines of the paragraph so far
+ * @param {TextLine} line - The next line
+ * @returns {boolean} Whether the line belongs to the paragraph
+ * @private
+ */
+function _continuesParagraph(paragraph: TextLine[], line: TextLine): boolean {
+  const previous = paragraph[paragraph.length - 1]!;
+  if (Math.abs(previous.fontSize - line.fontSize) > 0.5) return false;
+
+  const left = Math.min(...paragraph.map((l) => l.x));
+  const right = Math.max(...paragraph.map((l) => l.right));
+  const endsSentence = /[.!?:]["')\]]?$/.test(previous.text);
+
+  if (previous.y <= line.y) {
+    // Next column or page area, only continue unfinished sentences
+    return !endsSentence;
+  }
+  if (previous.y - line.y > Math.max(previous.fontSize, line.fontSize) * 1.6)
+    return false;
+  // First line indent of a new paragraph
+  if (line.x - left > line.fontSize * 0.8) return false;
+  // A short line ending a sentence ends the paragraph
+  if (
+    paragraph.length > 1 &&
+    endsSentence &&
+    right - previous.right > line.fontSize * 2
+  )
+    return false;
+  return true;
+}
+
+/**
+ * Joins two lines of running text, removing the hyphen of words broken across lines.
+ * @param {string} text - Text so far
+ * @param {string} next - The next line
+ * @returns {string} The joined text
+ * @private
+ */
+function _joinLines(text: string, next: string): string {
+  if (!text) return next;
+  if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(next))
+    return text.slice(0, -1) + next;
+  return `${text} ${next}`;
+}
+
+/**
+ * Builds a (possibly nested) list from list items. Items indented further than
+ * the first item become children of the item before them.
+ * @param {ListEntry[]} items - The list items
+ * @returns {ListNode} The list node
+ * @private
+ */
+function _listNode(items: ListEntry[]): ListNode {
+  const first = items[0]!;
+  const indent = first.line.x + first.line.fontSize * 0.5;
+  // Items much further right are in the next column, not nested
+  const maxIndent = first.line.x + first.line.fontSize * 4;
+  const listItems: ListItemNode[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i]!;
+    const nested: typeof items = [];
+    while (
+      items[i + 1] &&
+      items[i + 1]!.line.x > indent &&
+      items[i + 1]!.line.x <= maxIndent
+    ) {
+      nested.push(items[++i]!);
+    }
+    listItems.push({
+      type: "listItem",
+      text: item.text,
+      ...(nested.length ? { children: [_listNode(nested)] } : {}),
+    });
+  }
+  return {
+    type: "list",
+    ordered: first.ordered,
+    ...(first.ordered && first.number && first.number !== 1
+      ? { start: first.number }
+      : {}),
+    items: listItems,
+  };
+}
+
+/**
+ * Removes running headers, footers and page numbers: lines on the first or last two
+ * baselines of a page which are repeated on at least a third of the pages (digits ignored,
+ * so "Page 3" matches "Page 4"), which also catches headers alternating between even and odd pages.
+ * Page numbers are removed if they are on the edges of at least two pages.
+ * @param {PdfPageLayout[]} pages - The page layouts
+ * @returns {PageElement[][]} The elements of each page without the running lines
+ * @private
+ */
+function _removeRunningLines(pages: PdfPageLayout[]): PageElement[][] {
+  const edgeLines = pages.map((page) => {
+    const lines = page.elements
+      .flatMap((element) => (element.kind === "line" ? [element.line] : []))
+      .sort((a, b) => b.y - a.y);
+    // Group lines on the same baseline, headers often have text at both margins
+    const rows: TextLine[][] = [];
+    for (const line of lines) {
+      const row = rows[rows.length - 1];
+      if (row && row[0]!.y - line.y <= 2) row.push(line);
+      else rows.push([line]);
+    }
+    return new Set([...rows.slice(0, 2), ...rows.slice(-2)].flat());
+  });
+  const key = (line: TextLine) =>
+    line.text.trim().toLowerCase().replace(/\d+/g, "#");
+
+  const pageCounts = new Map<string, number>();
+  for (const lines of edgeLines) {
+    for (const lineKey of new Set([...lines].map(key))) {
+      pageCounts.set(lineKey, (pageCounts.get(lineKey) || 0) + 1);
+    }
+  }
+  const isRunning = (line: TextLine) => {
+    const count = pageCounts.get(key(line)) || 0;
+    if (pages.length < 2 || count < 2) return false;
+    return PAGE_NUMBER_PATTERN.test(line.text.trim()) || count >= pages.length / 3;
+  };
+
+  return pages.map((page, index) =>
+    page.elements.filter(
+      (element) =>
+        element.kind !== "line" ||
+        !edgeLines[index]!.has(element.line) ||
+        !isRunning(element.line)
+    )
+  );
+}
+
+/**
+ * Finds the most common font size of the text, weighted by the number of characters.
+ * @param {TextLine[]} lines - All lines of the document
+ * @returns {number} The body font size
+ * @private
+ */
+function _bodyFontSize(lines: TextLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = _roundSize(line.fontSize);
+    counts.set(size, (counts.get(size) || 0) + line.text.length);
+  }
+  let bodySize = 0;
+  let maxCount = -1;
+  for (const [size, count] of counts) {
+    if (count > maxCount) {
+      bodySize = size;
+      maxCount = count;
+    }
+  }
+  return bodySize;
+}
+
+/**
+ * Rounds a font size to half points, so sizes which only differ by rounding compare equal.
+ * @param {number} size - The font size
+ * @returns {number} The rounded size
+ * @private
+ */
+function _roundSize(size: number): number {
+  return Math.round(size * 2) / 2;
+}
+
+/**
+ * Groups text items into lines by their baseline, joining the items of a line
+ * from left to right and adding spaces where the gap between items is wide.
+ * @param {TextItem[]} items - The text items of a column
+ * @returns {TextLine[]} The lines, top to bottom
+ * @private
+ */
+function _groupLines(items: TextItem[]): TextLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: TextItem[][] = [];
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    const baseline = group?.[0];
+    if (
+      group &&
+      baseline &&
+      Math.abs(baseline.y - item.y) <=
+        Math.max(baseline.fontSize, item.fontSize) * 0.4
+    ) {
+      group.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map((group) => {
+    group.sort((a, b) => a.x - b.x);
+    let text = "";
+    let previous: TextItem | null = null;
+    const sizes = new Map<number, number>();
+    let boldChars = 0;
+    for (const item of group) {
+      const gap = previous ? item.x - (previous.x + previous.width) : 0;
+      if (
+        previous &&
+        gap > item.fontSize * 0.15 &&
+        !/\s$/.test(text) &&
+        !/^\s/.test(item.text)
+      )
+        text += " ";
+      text += item.text;
+      sizes.set(item.fontSize, (sizes.get(item.fontSize) || 0) + item.text.length);
+      if (item.bold) boldChars += item.text.trim().length;
+      previous = item;
+    }
+
+    const fontSize = [...sizes.entries()].sort((a, b) => b[1] - a[1])[0]![0];
+    const normalizedText = text.replace(/\s+/g, " ").trim();
+    return {
+      text: normalizedText,
+      x: group[0]!.x,
+      right: Math.max(...group.map((item) => item.x + item.width)),
+      y: group.find((item) => item.fontSize === fontSize)!.y,
+      fontSize,
+      bold: boldChars >= normalizedText.replace(/\s/g, "").length * 0.8,
+    };
+  });
+}
+
+/**
+ * Finds the gutter of a two column layout: a vertical strip in the middle of the page
+ * which (almost) no text crosses, with substantial text on both sides.
+ * @param {TextItem[]} items - The text items of the page
+ * @param {number} pageWidth - Width of the page
+ * @returns {number | null} The x position of the gutter, or null for single column pages
+ * @private
+ */
+function _findColumnGutter(
+  items: TextItem[],
+  pageWidth: number
+): number | null {
+  if (items.length < 10 || !pageWidth) return null;
+
+  let best: { x: number; crossing: number } | null = null;
+  for (let x = pageWidth * 0.3; x <= pageWidth * 0.7; x += 2) {
+    const crossing = items.filter(
+      (item) => item.x < x && item.x + item.width > x
+    ).length;
+    if (!best || crossing < best.crossing) best = { x, crossing };
+  }
+  if (!best || best.crossing > items.length * 0.2) return null;
+
+  const gutter = best.x;
+  const left = items.filter((item) => item.x + item.width <= gutter);
+  const right = items.filter((item) => item.x >= gutter);
+  const columnWidth = (columnItems: TextItem[]) =>
+    Math.max(...columnItems.map((item) => item.x + item.width)) -
+    Math.min(...columnItems.map((item) => item.x));
+  // Both sides need running text, not just labels next to values
+  if (
+    left.length < items.length * 0.2 ||
+    right.length < items.length * 0.2 ||
+    columnWidth(left) < pageWidth * 0.25 ||
+    columnWidth(right) < pageWidth * 0.25
+  )
+    return null;
+  // The columns have to run side by side
+  const top = (columnItems: TextItem[]) =>
+    Math.max(...columnItems.map((item) => item.y));
+  const bottom = (columnItems: TextItem[]) =>
+    Math.min(...columnItems.map((item) => item.y));
+  if (top(left) < bottom(right) || top(right) < bottom(left)) return null;
+
+  return gutter;
+}
+
+/**
+ * Orders page elements for reading: elements spanning the page width are read top
+ * to bottom, the column content between two of them is read left column first.
+ * @param {(PageElement & { column: Column })[]} elements - The page elements
+ * @returns {PageElement[]} The elements in reading order
+ * @private
+ */
+function _readingOrder(elements: (PageElement & { column: Column })[]): PageElement[] {
+  const byTop = (a: PageElement, b: PageElement) => b.top - a.top;
+  const spanning = elements
+    .filter((element) => element.column === "full")
+    .sort(byTop);
+
+  const ordered: (PageElement & { column: Column })[] = [];
+  let upper = Infinity;
+  for (const element of [...spanning, null]) {
+    const lower = element ? element.top : -Infinity;
+    for (const column of ["left", "right"]) {
+      ordered.push(
+        ...elements
+          .filter(
+            (candidate) =>
+              candidate.column === column &&
+              candidate.top <= upper &&
+              candidate.top > lower
+          )
+          .sort(byTop)
+      );
+    }
+    if (element) ordered.push(element);
+    upper = lower;
+  }
+  return ordered.map(({ column, ...element }) => element as PageElement);
+}
+
+/**
+ * Finds the bold fonts of a page, by the bold flag pdf.js derives from the font
+ * descriptor or by the font name, e.g. "ABCDEF+Times-Bold".
+ * Fonts are matched to text items by their loaded name, which is not the key of the
+ * font object for the standard 14 fonts. The font objects of a document are shared by
+ * its pages, each is read once and cached by loaded name.
+ * @param {any} pageData - The pdf.js page, its operator list has to be loaded
+ * @param {string[]} fontNames - Names of the fonts used by the text items
+ * @returns {Promise<Set<string>>} Names of the bold fonts
+ * @private
+ */
+async function _getBoldFonts(
+  pageData: any,
+  fontNames: string[]
+): Promise<Set<string>> {
+  // The worker sends the fonts of the operator list as separate messages
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  const commonObjs = pageData.commonObjs || {};
+  let cache = FONT_CACHES.get(commonObjs);
+  if (!cache) {
+    cache = { fonts: new Map(), read: new Set() };
+    FONT_CACHES.set(commonObjs, cache);
+  }
+  const pageFonts = new Set(fontNames);
+
+  // Only objects added since the last page are read, if the page uses unknown fonts
+  if ([...pageFonts].some((fontName) => !cache.fonts.has(fontName))) {
+    const entries = Object.entries<any>(commonObjs.objs || {}).filter(
+      ([key]) => !cache.read.has(key)
+    );
+    entries.forEach(([key]) => cache.read.add(key));
+    const fonts = await Promise.all(entries.map(([, object]) => _objectData(object)));
+    for (const font of fonts) {
+      if (!font?.loadedName) continue;
+      cache.fonts.set(font.loadedName, [...(cache.fonts.get(font.loadedName) || []), font]);
+    }
+  }
+
+  const boldFonts = new Set<string>();
+  for (const fontName of pageFonts) {
+    const matches = cache.fonts.get(fontName) || [];
+    if (
+      matches.length &&
+      matches.every(
+        (font) =>
+          font.bold || /bold|black|heavy|semibold|demi/i.test(String(font.name))
+      )
+    )
+      boldFonts.add(fontName);
+  }
+  return boldFonts;
+}
+
+/**
+ * Waits for the data of a pdf.js object, at most FONT_TIMEOUT milliseconds.
+ * @param {any} object - The object of the pdf.js object store
+ * @returns {Promise<any>} The data, or null if it wasn't resolved in time
+ * @private
+ */
+async function _objectData(object: any): Promise<any> {
+  if (!object.capability) return object.data ?? null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      object.capability.promise.then(() => object.data),
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), FONT_TIMEOUT);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Collects the horizontal and vertical line segments painted on a page, including
+ * thin filled rectangles, which is how most PDF generators draw table rules.
+ * @param {any} pageData - The pdf.js page
+ * @returns {Promise<Segment[]>} The segments in PDF coordinates
+ * @private
+ */
+async function _getRulingSegments(pageData: any): Promise<Segment[]> {
+  let operatorList: { fnArray: number[]; argsArray: any[] };
+  try {
+    operatorList = await pageData.getOperatorList();
+  } catch (error) {
+    return [];
+  }
+
+  const segments: Segment[] = [];
+  const stack: number[][] = [];
+  let ctm = [1, 0, 0, 1, 0, 0];
+  const apply = (x: number, y: number): [number, number] => [
+    ctm[0]! * x + ctm[2]! * y + ctm[4]!,
+    ctm[1]! * x + ctm[3]! * y + ctm[5]!,
+  ];
+
+  const { fnArray, argsArray } = operatorList;
+  for (let i = 0; i < fnArray.length; i++) {
+    const fn = fnArray[i];
+    const args = argsArray[i];
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() || ctm;
+    } else if (fn === OPS.transform) {
+      const [a, b, c, d, e, f] = args as number[];
+      ctm = [
+        ctm[0]! * a! + ctm[2]! * b!,
+        ctm[1]! * a! + ctm[3]! * b!,
+        ctm[0]! * c! + ctm[2]! * d!,
+        ctm[1]! * c! + ctm[3]! * d!,
+        ctm[0]! * e! + ctm[2]! * f! + ctm[4]!,
+        ctm[1]! * e! + ctm[3]! * f! + ctm[5]!,
+      ];
+    } else if (fn === OPS.constructPath && PAINT_OPS.has(fnArray[i + 1]!)) {
+      const [pathOps, coords] = args as [number[], number[]];
+      let c = 0;
+      let current: [number, number] = [0, 0];
+      let start: [number, number] = [0, 0];
+      for (const op of pathOps) {
+        if (op === OPS.moveTo) {
+          current = start = apply(coords[c]!, coords[c + 1]!);
+          c += 2;
+        } else if (op === OPS.lineTo) {
+          const next = apply(coords[c]!, coords[c + 1]!);
+          segments.push(..._straightSegment(current, next));
+          current = next;
+          c += 2;
+        } else if (op === OPS.rectangle) {
+          const [x, y, w, h] = coords.slice(c, c + 4) as number[];
+          const corners = [
+            apply(x!, y!),
+            apply(x! + w!, y!),
+            apply(x! + w!, y! + h!),
+            apply(x!, y! + h!),
+          ];
+          const xs = corners.map(([cx]) => cx);
+          const ys = corners.map(([, cy]) => cy);
+          const [minX, maxX] = [Math.min(...xs), Math.max(...xs)];
+          const [minY, maxY] = [Math.min(...ys), Math.max(...ys)];
+          if (maxY - minY <= 3) {
+            segments.push({ x1: minX, y1: (minY + maxY) / 2, x2: maxX, y2: (minY + maxY) / 2 });
+          } else if (maxX - minX <= 3) {
+            segments.push({ x1: (minX + maxX) / 2, y1: minY, x2: (minX + maxX) / 2, y2: maxY });
+          } else {
+            segments.push(
+              { x1: minX, y1: minY, x2: maxX, y2: minY },
+              { x1: minX, y1: maxY, x2: maxX, y2: maxY },
+              { x1: minX, y1: minY, x2: minX, y2: maxY },
+              { x1: maxX, y1: minY, x2: maxX, y2: maxY }
+            );
+          }
+          c += 4;
+        } else if (op === OPS.curveTo) {
+          current = apply(coords[c + 4]!, coords[c + 5]!);
+          c += 6;
+        } else if (op === OPS.curveTo2 || op === OPS.curveTo3) {
+          current = apply(coords[c + 2]!, coords[c + 3]!);
+          c += 4;
+        } else if (op === OPS.closePath) {
+          segments.push(..._straightSegment(current, start));
+          current = start;
+        }
+      }
+    }
+  }
+  return segments;
+}
+
+/**
+ * Returns a line as a segment if it is horizontal or vertical and long enough to be a rule.
+ * @param {[number, number]} from - Start point
+ * @param {[number, number]} to - End point
+ * @returns {Segment[]} The segment, or nothing
+ * @private
+ */
+function _straightSegment(
+  from: [number, number],
+  to: [number, number]
+): Segment[] {
+  const [x1, y1] = from;
+  const [x2, y2] = to;
+  const straight = Math.abs(x1 - x2) < 1 || Math.abs(y1 - y2) < 1;
+  const long = Math.hypot(x2 - x1, y2 - y1) >= 5;
+  return straight && long
+    ? [
+        {
+          x1: Math.min(x1, x2),
+          y1: Math.min(y1, y2),
+          x2: Math.max(x1, x2),
+          y2: Math.max(y1, y2),
+        },
+      ]
+    : [];
+}
+
+/**
+ * Finds the grids of ruled tables: groups of connected horizontal and vertical rules
+ * with at least two rows and two columns.
+ * @param {Segment[]} segments - The line segments of the page
+ * @returns {{ xs: number[]; ys: number[] }[]} Column borders left to right and row borders top to bottom of each table
+ * @private
+ */
+function _findTableGrids(
+  segments: Segment[]
+): { xs: number[]; ys: number[] }[] {
+  const horizontal = segments.filter((s) => s.y2 - s.y1 < 1);
+  const vertical = segments.filter((s) => s.x2 - s.x1 < 1);
+  const all = [...horizontal, ...vertical];
+
+  // Union find over intersecting horizontal and vertical rules
+  const parent = all.map((_, index) => index);
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]!));
+  const tolerance = 2;
+  horizontal.forEach((h, hIndex) => {
+    vertical.forEach((v, vIndex) => {
+      if (
+        v.x1 >= h.x1 - tolerance &&
+        v.x1 <= h.x2 + tolerance &&
+        h.y1 >= v.y1 - tolerance &&
+        h.y1 <= v.y2 + tolerance
+      ) {
+        parent[find(hIndex)] = find(horizontal.length + vIndex);
+      }
+    });
+  });
+
+  const clusters = new Map<number, Segment[]>();
+  all.forEach((segment, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), segment]);
+  });
+
+  const grids: { xs: number[]; ys: number[] }[] = [];
+  for (const cluster of clusters.values()) {
+    const ys = _distinctPositions(
+      cluster.filter((s) => s.y2 - s.y1 < 1).map((s) => s.y1)
+    ).sort((a, b) => b - a);
+    const xs = _distinctPositions(
+      cluster.filter((s) => s.x2 - s.x1 < 1).map((s) => s.x1)
+    ).sort((a, b) => a - b);
+    if (ys.length >= 3 && xs.length >= 3) grids.push({ xs, ys });
+  }
+  return grids;
+}
+
+/**
+ * Merges positions which are within 2pt of each other, e.g. double rules.
+ * @param {number[]} positions - The positions
+ * @returns {number[]} The distinct positions
+ * @private
+ */
+function _distinctPositions(positions: number[]): number[] {
+  const distinct: number[] = [];
+  for (const position of [...positions].sort((a, b) => a - b)) {
+    const last = distinct[distinct.length - 1];
+    if (last === undefined || position - last > 2) distinct.push(position);
+  }
+  return distinct;
+}
+
+/**
+ * Fills the cells of a table grid with the text items inside them.
+ * The first row becomes the header.
+ * @param {{ xs: number[]; ys: number[] }} grid - The table grid
+ * @param {TextItem[]} items - Text items inside the table
+ * @returns {TableNode | null} The table, or null if it holds no text
+ * @private
+ */
+function _tableFromGrid(
+  grid: { xs: number[]; ys: number[] },
+  items: TextItem[]
+): TableNode | null {
+  if (!items.length) return null;
+  const cells = Array.from({ length: grid.ys.length - 1 }, () =>
+    Array.from({ length: grid.xs.length - 1 }, () => [] as TextItem[])
+  );
+  for (const item of items) {
+    const centerX = item.x + item.width / 2;
+    const centerY = item.y + item.fontSize * 0.3;
+    const row = grid.ys.findIndex((y, i) => i > 0 && centerY > y) - 1;
+    const column = grid.xs.findIndex((x, i) => i > 0 && centerX < x) - 1;
+    if (row >= 0 && column >= 0) cells[row]?.[column]?.push(item);
+  }
+
+  const rows = cells
+    .map((row) =>
+      row.map((cellItems) =>
+        _groupLines(cellItems)
+          .map((line) => line.text)
+          .join(" ")
+      )
+    )
+    .filter((row) => row.some((cell) => cell));
+  if (!rows.length) return null;
+  return { type: "table", header: rows[0]!, rows: rows.slice(1) };
+}
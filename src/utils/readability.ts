@@ -0,0 +1,399 @@
+import { HTMLElement, parse } from "node-html-parser";
+import { toIsoDate } from "./metadata";
+
+/**
+ * Elements which never belong to the main content of a page.
+ */
+const BOILERPLATE_SELECTOR = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "nav",
+  "aside",
+  "iframe",
+  "button",
+  "dialog",
+  '[role="navigation"]',
+  '[role="complementary"]',
+  '[role="dialog"]',
+  '[role="alert"]',
+  '[aria-hidden="true"]',
+  "[hidden]",
+].join(", ");
+
+/**
+ * Page headers, which are kept only inside the main content, like the title of an article.
+ */
+const HEADER_SELECTOR = 'header, [role="banner"]';
+
+/**
+ * Maximum text length of forms removed as boilerplate, like search and login forms. Longer
+ * forms are kept as they may wrap the whole page, as ASP.NET pages do.
+ */
+const MAX_FORM_LENGTH = 200;
+
+/**
+ * Class names and ids of boilerplate, like ads, cookie banners, share buttons and sidebars.
+ */
+const UNLIKELY_PATTERN =
+  /(^|[\s_-])(ads?|adv|advert|advertisement|banner|sponsor(ed)?|promo|cookie|consent|gdpr|newsletter|subscribe|share|sharing|social|related|recommended|comments?|sidebar|breadcrumbs?|popup|modal|menu|nav|navbar|masthead|footer|header|skip|outbrain|taboola)([\s_-]|$)/i;
+
+/**
+ * Class names and ids of main content, which outweigh boilerplate names.
+ */
+const LIKELY_PATTERN =
+  /(^|[\s_-])(article|body|content|entry|main|page|post|story|text|blog)([\s_-]|$)/i;
+
+/**
+ * Elements whose text is scored and credited to their ancestors.
+ */
+const SCORED_SELECTOR = "p, pre, td, blockquote, li";
+
+/**
+ * Minimum text length of the main content. Pages with less text are converted as a whole.
+ */
+const MIN_CONTENT_LENGTH = 250;
+
+// The main content of a web page with the article metadata found around it.
+export type Article = {
+  // The element holding the main content, detached from the page
+  content: HTMLElement;
+  byline?: string;
+  // Publication date as an ISO 8601 string
+  publishedAt?: string;
+  leadImage?: { src: string; alt?: string };
+};
+
+/**
+ * Extracts the main content of a web page, like the text of a news article, leaving out
+ * navigation, headers, footers, sidebars, ads and banners. Blocks of text are scored by
+ * their length and commas and credited to their parent and grandparent, the best scoring
+ * container with little link text wins. The byline, publication date and lead image are
+ * read from the page metadata (`<meta>`, JSON-LD) or the content.
+ *
+ * @param {HTMLElement} root - The parsed page, which is not changed
+ * @returns {Article | null} The main content, or null if no container holds enough text
+ *   to tell it apart from the rest of the page
+ *
+ * @example
+ * ```typescript
+ * const article = extractArticle(parse(html));
+ * const markdown = converter.convert((article?.content ?? root).innerHTML);
+ * ```
+ */
+export function extractArticle(root: HTMLElement): Article | null {
+  const page = parse(root.toString());
+  const linkedData = _linkedData(page);
+  const byline = _byline(page, linkedData);
+  const publishedAt = _publishedAt(page, linkedData);
+  const ogImage =
+    page.querySelector('meta[property="og:image"]')?.getAttribute("content") ||
+    page.querySelector('meta[name="twitter:image"]')?.getAttribute("content");
+
+  const body = page.querySelector("body") || page;
+  _removeBoilerplate(body);
+  const content = _bestCandidate(body);
+  if (!content) return null;
+  const text = _text(content);
+  if (text.length < MIN_CONTENT_LENGTH || _linkDensity(content) > 0.5) return null;
+  _cleanContent(content);
+  // The byline is returned on its own
+  if (byline) {
+    content
+      .querySelectorAll('.byline, [class*="byline"], .author')
+      .filter((element) => _text(element).length < 100)
+      .forEach((element) => element.remove());
+  }
+
+  const firstImage = content.querySelector("img");
+  const imageSource = ogImage || firstImage?.getAttribute("src") || undefined;
+  // The lead image is only added if the content doesn't show it already
+  const leadImage =
+    imageSource &&
+    !content
+      .querySelectorAll("img")
+      .some((img) => img.getAttribute("src") === imageSource)
+      ? {
+          src: imageSource,
+          alt:
+            page
+              .querySelector('meta[property="og:image:alt"]')
+              ?.getAttribute("content") || undefined,
+        }
+      : undefined;
+
+  return { content, byline, publishedAt, leadImage };
+}
+
+/**
+ * Removes the elements which never hold main content, forms with little text, and those
+ * whose class or id names boilerplate. Page footers are removed, those inside an article
+ * are kept. Headers are left to the choice of the main content.
+ * @param {HTMLElement} body - The body of the page, changed in place
+ * @private
+ */
+function _removeBoilerplate(body: HTMLElement): void {
+  body.querySelectorAll(BOILERPLATE_SELECTOR).forEach((element) => element.remove());
+  body
+    .querySelectorAll("form")
+    .filter((form) => _text(form).length < MAX_FORM_LENGTH)
+    .forEach((form) => form.remove());
+  body
+    .querySelectorAll('footer, [role="contentinfo"]')
+    .filter((element) => !element.parentNode?.closest("article"))
+    .forEach((element) => element.remove());
+  body
+    .querySelectorAll("[class], [id]")
+    .filter((element) => {
+      if (["BODY", "ARTICLE", "MAIN"].includes(element.tagName)) return false;
+      const names = `${element.getAttribute("class") || ""} ${element.id}`;
+      return UNLIKELY_PATTERN.test(names) && !LIKELY_PATTERN.test(names);
+    })
+    .forEach((element) => element.remove());
+}
+
+/**
+ * Finds the element holding the main content. Each block of text adds its score to its
+ * parent and half of it to its grandparent, the container scores are then weighted by
+ * their tag, class names and link density. Siblings of the best container which score
+ * well or hold plain paragraphs are moved in with it. Headers inside the content are kept,
+ * the others are left out.
+ * @param {HTMLElement} body - The body of the page without boilerplate
+ * @returns {HTMLElement | null} The main content, or null if no text was scored
+ * @private
+ */
+function _bestCandidate(body: HTMLElement): HTMLElement | null {
+  const scores = new Map<HTMLElement, number>();
+  const credit = (element: HTMLElement | null, score: number) => {
+    if (!element || element === body.parentNode) return;
+    if (!scores.has(element)) scores.set(element, _initialScore(element));
+    scores.set(element, scores.get(element)! + score);
+  };
+
+  for (const block of body.querySelectorAll(SCORED_SELECTOR)) {
+    const text = _text(block);
+    if (text.length < 25) continue;
+    // One point for the block, one per comma and one per 100 characters up to three
+    const score = text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = block.parentNode;
+    credit(parent, score);
+    credit(parent?.parentNode ?? null, score / 2);
+  }
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const weighted = score * (1 - _linkDensity(element));
+    scores.set(element, weighted);
+    if (weighted > bestScore) {
+      best = element;
+      bestScore = weighted;
+    }
+  }
+  if (!best) return null;
+
+  const parent = best.parentNode;
+  if (!parent || best === body) {
+    // Content directly in the body, the page header is left out
+    best
+      .querySelectorAll(HEADER_SELECTOR)
+      .filter((element) => !element.parentNode?.closest("article, main"))
+      .forEach((element) => element.remove());
+    return best;
+  }
+  const content = parse("<div></div>").querySelector("div")!;
+  const threshold = Math.max(10, bestScore * 0.2);
+  for (const sibling of parent.childNodes) {
+    if (!(sibling instanceof HTMLElement)) continue;
+    if (sibling !== best && _isHeader(sibling)) continue;
+    const text = _text(sibling);
+    const include =
+      sibling === best ||
+      (scores.get(sibling) ?? 0) >= threshold ||
+      (sibling.tagName === "P" &&
+        text.length > 80 &&
+        _linkDensity(sibling) < 0.25);
+    if (include) content.appendChild(sibling.clone());
+  }
+  return content;
+}
+
+/**
+ * Checks whether an element is a header, matching `HEADER_SELECTOR`.
+ * @param {HTMLElement} element - The element
+ * @returns {boolean} True for `<header>` elements and banners
+ * @private
+ */
+function _isHeader(element: HTMLElement): boolean {
+  return element.tagName === "HEADER" || element.getAttribute("role") === "banner";
+}
+
+/**
+ * Gets the initial score of a container from its tag and its class and id names.
+ * @param {HTMLElement} element - The container
+ * @returns {number} The score
+ * @private
+ */
+function _initialScore(element: HTMLElement): number {
+  let score = 0;
+  switch (element.tagName) {
+    case "ARTICLE":
+    case "MAIN":
+      score += 10;
+      break;
+    case "DIV":
+    case "SECTION":
+      score += 5;
+      break;
+    case "PRE":
+    case "TD":
+    case "BLOCKQUOTE":
+      score += 3;
+      break;
+    case "OL":
+    case "UL":
+    case "DL":
+    case "ADDRESS":
+      score -= 3;
+      break;
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6":
+    case "TH":
+      score -= 5;
+      break;
+  }
+  const names = `${element.getAttribute("class") || ""} ${element.id}`;
+  if (LIKELY_PATTERN.test(names)) score += 25;
+  if (UNLIKELY_PATTERN.test(names)) score -= 25;
+  return score;
+}
+
+/**
+ * Removes the parts of the content which are mostly links, like lists of related
+ * articles or tag clouds, and empty containers.
+ * @param {HTMLElement} content - The main content, changed in place
+ * @private
+ */
+function _cleanContent(content: HTMLElement): void {
+  content
+    .querySelectorAll("div, section, ul, ol, table")
+    .filter((element) => {
+      const text = _text(element);
+      if (!text) return !element.querySelector("img, video, picture, svg");
+      return text.length < 200 && _linkDensity(element) > 0.5;
+    })
+    .forEach((element) => element.remove());
+}
+
+/**
+ * Reads the schema.org objects of the JSON-LD scripts of a page.
+ * @param {HTMLElement} page - The page
+ * @returns {Record<string, unknown>[]} The objects, including those of `@graph` arrays
+ * @private
+ */
+function _linkedData(page: HTMLElement): Record<string, unknown>[] {
+  const objects: Record<string, unknown>[] = [];
+  for (const script of page.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      const data = JSON.parse(script.text);
+      for (const item of [data].flat()) {
+        if (item && typeof item === "object") objects.push(item, ...[item["@graph"] || []].flat());
+      }
+    } catch {
+      // Broken JSON-LD is ignored, the other metadata is used
+    }
+  }
+  return objects;
+}
+
+/**
+ * Finds the author of an article in the page metadata or a byline element.
+ * @param {HTMLElement} page - The page
+ * @param {Record<string, unknown>[]} linkedData - The JSON-LD objects of the page
+ * @returns {string | undefined} The author
+ * @private
+ */
+function _byline(
+  page: HTMLElement,
+  linkedData: Record<string, unknown>[]
+): string | undefined {
+  for (const item of linkedData) {
+    const authors = [item.author || []].flat() as unknown[];
+    const names = authors
+      .map((author) =>
+        typeof author === "string"
+          ? author
+          : (author as { name?: unknown })?.name
+      )
+      .filter((name): name is string => typeof name === "string" && !!name.trim());
+    if (names.length) return names.join(", ");
+  }
+  const meta =
+    page.querySelector('meta[name="author"]')?.getAttribute("content") ||
+    page.querySelector('meta[property="article:author"]')?.getAttribute("content");
+  // article:author is often the URL of the author page
+  if (meta && !/^https?:\/\//.test(meta)) return meta.trim();
+
+  const element = page.querySelector(
+    '[rel="author"], [itemprop="author"], .byline, .author, [class*="byline"]'
+  );
+  const text = element ? _text(element).replace(/^by\s+/i, "") : "";
+  return text && text.length < 100 ? text : undefined;
+}
+
+/**
+ * Finds the publication date of an article in the page metadata or a `<time>` element.
+ * @param {HTMLElement} page - The page
+ * @param {Record<string, unknown>[]} linkedData - The JSON-LD objects of the page
+ * @returns {string | undefined} The date as an ISO 8601 string
+ * @private
+ */
+function _publishedAt(
+  page: HTMLElement,
+  linkedData: Record<string, unknown>[]
+): string | undefined {
+  const candidates = [
+    ...linkedData.map((item) => item.datePublished),
+    page.querySelector('meta[property="article:published_time"]')?.getAttribute("content"),
+    page.querySelector('meta[itemprop="datePublished"]')?.getAttribute("content"),
+    page.querySelector('meta[name="date"], meta[name="pubdate"], meta[name="publish-date"]')
+      ?.getAttribute("content"),
+    page.querySelector("[itemprop=\"datePublished\"]")?.getAttribute("datetime"),
+    page.querySelector("time[datetime]")?.getAttribute("datetime"),
+  ];
+  for (const candidate of candidates) {
+    const date = toIsoDate(candidate);
+    if (date) return date;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the text of an element with collapsed whitespace.
+ * @param {HTMLElement} element - The element
+ * @returns {string} The text
+ * @private
+ */
+function _text(element: HTMLElement): string {
+  return element.text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Gets the share of the text of an element which is link text.
+ * @param {HTMLElement} element - The element
+ * @returns {number} The link density between 0 and 1
+ * @private
+ */
+function _linkDensity(element: HTMLElement): number {
+  const length = _text(element).length;
+  if (!length) return 0;
+  const linkLength = element
+    .querySelectorAll("a")
+    .reduce((sum, link) => sum + _text(link).length, 0);
+  return Math.min(linkLength / length, 1);
+}
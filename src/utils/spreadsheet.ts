@@ -0,0 +1,102 @@
+import type { ConversionOptions } from "../types/document";
+import type { BlockNode } from "../types/documentModel";
+
+// A cell of a spreadsheet or delimited text file.
+export type SpreadsheetCell = {
+  // Display text of the cell, empty for empty cells
+  text: string;
+  // Whether the cell holds text rather than a number, date or other value
+  isText: boolean;
+};
+
+/**
+ * Builds the table of a sheet from its cell grid. Empty rows and columns are left out,
+ * rows beyond `maxRows` are summarized in a paragraph below the table.
+ * Shared by the spreadsheet and delimited text converters so both render tables alike.
+ * Converters of large sheets only build the first `gridRowLimit(options)` rows of the
+ * grid and pass the number of non-empty rows they left out.
+ *
+ * @param {SpreadsheetCell[][]} grid - Rows of cells, all rows have the same length
+ * @param {ConversionOptions} options - Conversion options
+ * @param {"auto" | "first" | "none"} [options.headerRow] - Whether the first row is the table header,
+ *   "auto" (default) uses it if most of its cells hold text
+ * @param {number} [options.maxRows] - Maximum number of body rows
+ * @param {number} [omittedRows=0] - Non-empty rows after the grid which were not built
+ * @returns {BlockNode[]} The table and the summary of left out rows, or no blocks if the grid is empty
+ *
+ * @example
+ * ```typescript
+ * spreadsheetTableBlocks(
+ *   [
+ *     [{ text: "Name", isText: true }, { text: "Age", isText: true }],
+ *     [{ text: "Ada", isText: true }, { text: "36", isText: false }],
+ *   ],
+ *   { fileExtension: ".csv" }
+ * );
+ * // [{ type: "table", header: ["Name", "Age"], rows: [["Ada", "36"]] }]
+ * ```
+ */
+export function spreadsheetTableBlocks(
+  grid: SpreadsheetCell[][],
+  options: Pick<ConversionOptions, "headerRow" | "maxRows">,
+  omittedRows: number = 0
+): BlockNode[] {
+  const filledRows = grid.filter((row) => row.some((cell) => cell.text));
+  // A loop rather than spreading the rows into Math.max, which overflows the stack for large sheets
+  let columnCount = 0;
+  for (const row of filledRows) columnCount = Math.max(columnCount, row.length);
+
+  // Drop columns without any content
+  const usedColumns = Array.from({ length: columnCount }, (_, i) => i).filter(
+    (i) => filledRows.some((row) => row[i]?.text)
+  );
+  const rows = filledRows.map((row) =>
+    usedColumns.map((i) => row[i] ?? { text: "", isText: false })
+  );
+  if (!rows.length) return [];
+
+  const headerRow = options.headerRow || "auto";
+  const hasHeader =
+    headerRow === "first" ||
+    (headerRow === "auto" &&
+      rows.length > 1 &&
+      rows[0]!.filter((cell) => cell.isText).length * 2 > rows[0]!.length);
+  const header = hasHeader ? rows[0]!.map((cell) => cell.text) : null;
+  const body = (hasHeader ? rows.slice(1) : rows).map((row) =>
+    row.map((cell) => cell.text)
+  );
+
+  const maxRows = options.maxRows || 0;
+  const blocks: BlockNode[] = [
+    {
+      type: "table",
+      header,
+      rows: maxRows ? body.slice(0, maxRows) : body,
+    },
+  ];
+  const remaining = (maxRows ? Math.max(0, body.length - maxRows) : 0) + omittedRows;
+  if (remaining) {
+    blocks.push({
+      type: "paragraph",
+      text: `_${remaining} more ${remaining === 1 ? "row" : "rows"}_`,
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Gets the number of non-empty grid rows `spreadsheetTableBlocks` needs for the
+ * `maxRows` option: the header row and `maxRows` body rows.
+ *
+ * @param {ConversionOptions} options - Conversion options
+ * @param {number} [options.maxRows] - Maximum number of body rows
+ * @returns {number} The number of rows, Infinity without `maxRows`
+ *
+ * @example
+ * ```typescript
+ * gridRowLimit({ fileExtension: ".csv", maxRows: 10 }); // 11
+ * ```
+ */
+export function gridRowLimit(options: Pick<ConversionOptions, "maxRows">): number {
+  return options.maxRows ? options.maxRows + 1 : Infinity;
+}
@@ -0,0 +1,189 @@
+import iconv from "iconv-lite";
+import XLSX from "xlsx";
+
+// A VBA module of an Office document.
+export type VbaModule = {
+  name: string;
+  // "standard" for code modules, "document" for sheet, workbook, class and form modules
+  type: "standard" | "document";
+  // Source code of the module, without the hidden `Attribute` lines
+  source: string;
+};
+
+/**
+ * Record ids of the VBA `dir` stream used to find the modules, see [MS-OVBA] 2.3.4.2.
+ */
+const DIR_RECORDS = {
+  PROJECTCODEPAGE: 0x0003,
+  PROJECTVERSION: 0x0009,
+  MODULENAME: 0x0019,
+  MODULESTREAMNAME: 0x001a,
+  MODULETYPE_DOCUMENT: 0x0022,
+  MODULE_TERMINATOR: 0x002b,
+  MODULEOFFSET: 0x0031,
+};
+
+/**
+ * Extracts the modules of a VBA project, e.g. the `vbaraw` of a SheetJS workbook
+ * or the `vbaProject.bin` part of a macro-enabled Office document.
+ *
+ * @param {Uint8Array} vbaProject - The VBA project storage as a compound file
+ * @returns {VbaModule[]} The modules of the project, empty if it can't be read
+ *
+ * @example
+ * ```typescript
+ * const workbook = XLSX.readFile("budget.xlsm", { bookVBA: true });
+ * extractVbaModules(workbook.vbaraw);
+ * // [{ name: "Module1", type: "standard", source: "Sub Recalculate()\r\n..." }]
+ * ```
+ */
+export function extractVbaModules(vbaProject: Uint8Array): VbaModule[] {
+  try {
+    const container = XLSX.CFB.read(Buffer.from(vbaProject), {
+      type: "buffer",
+    });
+    const streams = new Map<string, Buffer>();
+    (container.FullPaths as string[]).forEach((fullPath, index) => {
+      // Paths look like "Root Entry/VBA/Module1", the storage holding the VBA
+      // project is named differently depending on the document type
+      const match = fullPath.match(/(?:^|\/)VBA\/([^/]+)$/i);
+      const content = container.FileIndex[index]?.content;
+      if (match && content) {
+        streams.set(match[1]!.toLowerCase(), Buffer.from(content as Uint8Array));
+      }
+    });
+
+    const dir = streams.get("dir");
+    if (!dir) return [];
+    const { codePage, modules } = _parseDirStream(decompressVba(dir));
+    const encoding = iconv.encodingExists(`cp${codePage}`)
+      ? `cp${codePage}`
+      : "windows-1252";
+
+    return modules.flatMap((module) => {
+      const stream = streams.get(module.streamName.toLowerCase());
+      if (!stream) return [];
+      const source = iconv
+        .decode(decompressVba(stream, module.offset), encoding)
+        .split(/\r?\n/)
+        .filter((line) => !/^Attribute VB_/.test(line))
+        .join("\n")
+        .trim();
+      return [{ name: module.name, type: module.type, source }];
+    });
+  } catch (error) {
+    console.error("Error reading VBA project:", error);
+    return [];
+  }
+}
+
+/**
+ * Decompresses a VBA compressed container ([MS-OVBA] 2.4.1).
+ *
+ * @param {Buffer} data - Buffer holding the compressed container
+ * @param {number} [offset=0] - Offset of the container in the buffer
+ * @returns {Buffer} The decompressed data
+ * @throws {Error} If the container doesn't start with the signature byte
+ */
+export function decompressVba(data: Buffer, offset: number = 0): Buffer {
+  if (data[offset] !== 0x01) throw new Error("Invalid VBA compressed container");
+  const output: number[] = [];
+  let position = offset + 1;
+
+  while (position + 2 <= data.length) {
+    const header = data.readUInt16LE(position);
+    const chunkEnd = Math.min(data.length, position + (header & 0x0fff) + 3);
+    const chunkStart = output.length;
+    position += 2;
+
+    // Raw chunks hold 4096 bytes as they are
+    if (!(header & 0x8000)) {
+      output.push(...data.subarray(position, position + 4096));
+      position += 4096;
+      continue;
+    }
+
+    while (position < chunkEnd) {
+      const flags = data[position++]!;
+      for (let bit = 0; bit < 8 && position < chunkEnd; bit++) {
+        if (!((flags >> bit) & 1)) {
+          output.push(data[position++]!);
+          continue;
+        }
+        // Copy token: offset and length of earlier output to repeat
+        const token = data.readUInt16LE(position);
+        position += 2;
+        const difference = output.length - chunkStart;
+        let bitCount = 4;
+        while (1 << bitCount < difference) bitCount++;
+        const lengthMask = 0xffff >> bitCount;
+        const length = (token & lengthMask) + 3;
+        const copyOffset = (token >> (16 - bitCount)) + 1;
+        const source = output.length - copyOffset;
+        for (let i = 0; i < length; i++) output.push(output[source + i]!);
+      }
+    }
+  }
+  return Buffer.from(output);
+}
+
+/**
+ * Reads the code page and modules from a decompressed VBA `dir` stream.
+ * @param {Buffer} dir - The decompressed stream
+ * @returns {Object} The code page and the name, stream name, type and source offset of each module
+ * @private
+ */
+function _parseDirStream(dir: Buffer): {
+  codePage: number;
+  modules: {
+    name: string;
+    streamName: string;
+    type: VbaModule["type"];
+    offset: number;
+  }[];
+} {
+  let codePage = 1252;
+  const modules: ReturnType<typeof _parseDirStream>["modules"] = [];
+  let module: (typeof modules)[number] | null = null;
+
+  let position = 0;
+  while (position + 6 <= dir.length) {
+    const id = dir.readUInt16LE(position);
+    const size = dir.readUInt32LE(position + 2);
+    position += 6;
+    // The size of PROJECTVERSION doesn't count its version numbers
+    const data = dir.subarray(
+      position,
+      position + (id === DIR_RECORDS.PROJECTVERSION ? 6 : size)
+    );
+    position += data.length;
+
+    switch (id) {
+      case DIR_RECORDS.PROJECTCODEPAGE:
+        codePage = data.readUInt16LE(0);
+        break;
+      case DIR_RECORDS.MODULENAME:
+        module = {
+          name: data.toString("latin1"),
+          streamName: data.toString("latin1"),
+          type: "standard",
+          offset: 0,
+        };
+        break;
+      case DIR_RECORDS.MODULESTREAMNAME:
+        if (module) module.streamName = data.toString("latin1");
+        break;
+      case DIR_RECORDS.MODULEOFFSET:
+        if (module) module.offset = data.readUInt32LE(0);
+        break;
+      case DIR_RECORDS.MODULETYPE_DOCUMENT:
+        if (module) module.type = "document";
+        break;
+      case DIR_RECORDS.MODULE_TERMINATOR:
+        if (module) modules.push(module);
+        module = null;
+        break;
+    }
+  }
+  return { codePage, modules };
+}
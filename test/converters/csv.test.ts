@@ -0,0 +1,69 @@
+import XLSX from "xlsx";
+import { describe, expect, test } from "bun:test";
+import CsvConverter from "../../src/converters/csv";
+import XlsxConverter from "../../src/converters/xlsx";
+import { convertFile } from "../helpers";
+
+describe("CsvConverter", () => {
+  test("sniffs the delimiter and reads quoted fields", async () => {
+    const result = await convertFile(
+      new CsvConverter(),
+      "prices.csv",
+      '\uFEFFname;price;note\n"Smith; J";1,5;"multi\nline"\nDoe;2;"say ""hi"""\n'
+    );
+    expect(result.textContent).toBe(
+      [
+        "| name     | price | note          |",
+        "| -------- | ----- | ------------- |",
+        "| Smith; J | 1,5   | multi<br>line |",
+        "| Doe      | 2     | say \"hi\"      |",
+      ].join("\n")
+    );
+  });
+
+  test("sniffs the quote character", async () => {
+    const result = await convertFile(new CsvConverter(), "quoted.csv", "'a','b'\n'1','x, y'\n");
+    expect(result.textContent).toContain("| 1   | x, y |");
+  });
+
+  test("reads Windows-1252 TSV files and escapes pipes", async () => {
+    const content = Buffer.concat([
+      Buffer.from("id\tname\n1\tcaf"),
+      Buffer.from([0xe9]),
+      Buffer.from("\n2\tb|c\n"),
+    ]);
+    const result = await convertFile(new CsvConverter(), "names.tsv", content);
+    expect(result.textContent).toBe(
+      ["| id  | name |", "| --- | ---- |", "| 1   | café |", "| 2   | b\\|c |"].join("\n")
+    );
+  });
+
+  test("uses the first row as header only if asked to", async () => {
+    const result = await convertFile(new CsvConverter(), "numbers.csv", "1,2\n3,4\n5,6\n", {
+      headerRow: "first",
+      maxRows: 1,
+    });
+    expect(result.textContent).toBe(
+      ["| 1   | 2   |", "| --- | --- |", "| 3   | 4   |", "", "_1 more row_"].join("\n")
+    );
+  });
+});
+
+describe("XlsxConverter with ODS files", () => {
+  test("converts the sheets of OpenDocument spreadsheets", async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ["Region", "Total"],
+        ["North", 3],
+      ]),
+      "Data"
+    );
+    const content = XLSX.write(workbook, { type: "buffer", bookType: "ods" });
+    const result = await convertFile(new XlsxConverter(), "data.ods", content);
+    expect(result.textContent).toBe(
+      ["## Data", "", "| Region | Total |", "| ------ | ----- |", "| North  | 3     |"].join("\n")
+    );
+  });
+});
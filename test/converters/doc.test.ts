@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import DocConverter from "../../src/converters/doc";
+import { convertFile, fixture } from "../helpers";
+
+describe("DocConverter", () => {
+  test("writes headings, nested lists and tables of the Word binary format", async () => {
+    const result = await convertFile(new DocConverter(), "report.doc", fixture("report.doc"));
+    expect(result.textContent).toBe(
+      [
+        "# Report Title",
+        "",
+        "Intro with a link and",
+        "break.",
+        "",
+        "* Item one",
+        "  1. Sub item",
+        "* Item two",
+        "",
+        "| Name  | Value  |",
+        "| ----- | ------ |",
+        "| Alpha | 1 \\| 2 |",
+        "",
+        "After the table",
+        "",
+        "Café ending",
+      ].join("\n")
+    );
+  });
+
+  test("ignores other extensions", async () => {
+    expect(await new DocConverter().convert("report.docx", { fileExtension: ".docx" })).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, test } from "bun:test";
+import DocxConverter from "../../src/converters/docx";
+import type { LlmCallInputParams } from "../../src/types/markitdown";
+import { convertFile, fixture } from "../helpers";
+
+/**
+ * Converts the report fixture, which has a footnote, an endnote, a comment, a tracked
+ * change, a header, a footer and a picture.
+ * @param {object} [options={}] - Conversion options
+ * @returns The conversion result
+ */
+function convertReport(options = {}) {
+  return convertFile(new DocxConverter(), "report.docx", fixture("report.docx"), options);
+}
+
+describe("DocxConverter", () => {
+  test("writes notes, comments, headers and footers if asked to", async () => {
+    const result = await convertReport({
+      docxFootnotes: true,
+      docxComments: true,
+      docxHeadersFooters: true,
+    });
+    expect(result.textContent).toBe(
+      [
+        "**Header:** ACME Confidential",
+        "",
+        "# Title",
+        "",
+        "Text with note[^1] and endnote[^2].",
+        "",
+        "Commented text[^comment-1]",
+        "",
+        "The price is 12 euros.",
+        "",
+        "A red dot",
+        "",
+        "**Footer:** Page 1",
+        "",
+        "[^1]: The **footnote** text.",
+        "",
+        "[^2]: An endnote.",
+        "",
+        "[^comment-1]: **Jane Roe:** Please check this.",
+      ].join("\n")
+    );
+  });
+
+  test("returns the warnings of the conversion", async () => {
+    const result = await convertReport();
+    expect(result.metadata?.extra?.warnings).toContain(
+      "Paragraph style with ID Heading1 was referenced but not defined in the document"
+    );
+  });
+
+  test("gives the accepted or the original text of tracked changes", async () => {
+    expect((await convertReport()).textContent).toContain("The price is 12 euros.");
+    const original = await convertReport({ docxTrackedChanges: "original" });
+    expect(original.textContent).toContain("The price is 10 euros.");
+
+    // An inserted paragraph mark and an inserted table row
+    const convert = (options = {}) =>
+      convertFile(new DocxConverter(), "tracked.docx", fixture("tracked.docx"), options);
+    const accepted = (await convert()).textContent;
+    expect(accepted).toContain("First half\n\nsecond half.");
+    expect(accepted).toContain("| NEW | ROW |");
+    const rejected = (await convert({ docxTrackedChanges: "original" })).textContent;
+    expect(rejected).toContain("First half second half.");
+    expect(rejected).not.toContain("NEW");
+  });
+
+  test("keeps images as data URIs or in a directory", async () => {
+    expect((await convertReport()).textContent).not.toContain("![");
+    const embedded = await convertReport({ docxImages: "dataUri" });
+    expect(embedded.textContent).toContain("![A red dot](data:image/png;base64,iVBORw0KGgo");
+
+    const imageDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "markitdown-images-"));
+    try {
+      const result = await convertReport({ docxImages: "directory", imageDirectory });
+      const imagePath = path.join(imageDirectory, "report-image-1.png");
+      expect(result.textContent).toContain(`![A red dot](${imagePath})`);
+      expect(fs.existsSync(imagePath)).toBe(true);
+    } finally {
+      fs.rmSync(imageDirectory, { recursive: true, force: true });
+    }
+  });
+
+  test("requires imageDirectory to write images to a directory", async () => {
+    await expect(convertReport({ docxImages: "directory" })).rejects.toThrow(
+      'docxImages "directory" requires the imageDirectory option'
+    );
+  });
+
+  test("describes images with llmCall", async () => {
+    const calls: LlmCallInputParams[] = [];
+    const llmCall = async (params: LlmCallInputParams) => {
+      calls.push(params);
+      return "A described picture";
+    };
+    const result = await convertReport({ docxImages: "describe", llmCall });
+    expect(calls).toHaveLength(1);
+    expect(result.textContent).toContain("A described picture");
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import CsvConverter from "../../src/converters/csv";
+import EmlConverter from "../../src/converters/eml";
+import HtmlConverter from "../../src/converters/html";
+import { convertFile, fixture } from "../helpers";
+
+const PARENT_CONVERTERS = [new EmlConverter(), new HtmlConverter(), new CsvConverter()];
+
+describe("EmlConverter", () => {
+  test("writes the headers, the richest body and the list of attachments", async () => {
+    const result = await convertFile(new EmlConverter(), "report.eml", fixture("report.eml"));
+    expect(result.title).toBe("Quarterly report – café");
+    expect(result.textContent).toBe(
+      [
+        "# Quarterly report – café",
+        "",
+        "**From:** Roe, Jane <jane@example.com>",
+        "",
+        "**To:** Bob <bob@example.com>, carol@example.com",
+        "",
+        "**Cc:** Renée <renee@example.com>",
+        "",
+        "**Date:** Tue, 05 Mar 2024 10:30:00 +0100",
+        "",
+        "**Message-ID:** <abc@example.com>",
+        "",
+        "### Report",
+        "",
+        "Hello **Bob**, see [site](https://example.com/). café €",
+        "",
+        "| A   | B   |",
+        "| --- | --- |",
+        "| 1   | 2   |",
+        "",
+        "## Attachments",
+        "",
+        "* résumé.pdf (application/pdf, 13 bytes)",
+        "* Inner.eml (message/rfc822, 138 bytes)",
+      ].join("\n")
+    );
+    expect(result.metadata).toEqual({
+      author: "Roe, Jane",
+      createdAt: "2024-03-05T09:30:00.000Z",
+      extra: {
+        from: "jane@example.com",
+        to: ["bob@example.com", "carol@example.com"],
+        cc: ["renee@example.com"],
+        messageId: "abc@example.com",
+        attachments: ["résumé.pdf", "Inner.eml"],
+      },
+    });
+  });
+
+  test("converts attachments and attached messages below their headings", async () => {
+    const result = await convertFile(new EmlConverter(), "forward.eml", fixture("forward.eml"), {
+      convertAttachments: true,
+      parentConverters: PARENT_CONVERTERS,
+    });
+    expect(result.textContent).toContain("## Attachment: page.html\n\n### Doc\n\nattached html");
+    expect(result.textContent).toContain(
+      [
+        "## Attachment: Inner.eml",
+        "",
+        "### Inner",
+        "",
+        "**From:** x@y.z",
+        "",
+        "inner body",
+        "",
+        "#### Attachments",
+        "",
+        "* data.csv (text/csv, 8 bytes)",
+        "",
+        "#### Attachment: data.csv",
+        "",
+        "| a   | b   |",
+      ].join("\n")
+    );
+  });
+
+  test("stops converting attachments at maxAttachmentDepth", async () => {
+    const result = await convertFile(new EmlConverter(), "forward.eml", fixture("forward.eml"), {
+      convertAttachments: true,
+      parentConverters: PARENT_CONVERTERS,
+      maxAttachmentDepth: 1,
+    });
+    expect(result.textContent).toContain("## Attachment: Inner.eml");
+    expect(result.textContent).not.toContain("Attachment: data.csv");
+  });
+});
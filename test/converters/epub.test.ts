@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import EpubConverter from "../../src/converters/epub";
+import { convertFile, fixture } from "../helpers";
+
+describe("EpubConverter", () => {
+  test("writes the table of contents and chapters in spine order with in-document links", async () => {
+    const result = await convertFile(new EpubConverter(), "book.epub", fixture("book.epub"));
+    expect(result.title).toBe("The Book");
+    expect(result.textContent).toBe(
+      [
+        "## Table of Contents",
+        "",
+        "* [Chapter One](#chapter-one)",
+        "  * [Second part](#second-part)",
+        "* [Chapter Two](#chapter-two)",
+        "",
+        "# Chapter One",
+        "",
+        "See [the note](#chapter-two) and [web](https://example.com/).",
+        "",
+        "## Second part",
+        "",
+        "Text Figure",
+        "",
+        "## Chapter Two",
+        "",
+        "No heading here.",
+        "",
+        "Back to [part two](#second-part).",
+      ].join("\n")
+    );
+  });
+
+  test("reads the package metadata", async () => {
+    const result = await convertFile(new EpubConverter(), "book.epub", fixture("book.epub"));
+    expect(result.metadata).toEqual({
+      author: "Ann Author, Bo Second",
+      language: "en",
+      createdAt: "2020-05-01T00:00:00.000Z",
+      modifiedAt: "2021-01-01T00:00:00.000Z",
+      extra: { publisher: "Pub", chapterCount: 2 },
+    });
+  });
+});
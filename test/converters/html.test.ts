@@ -0,0 +1,114 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import HtmlConverter from "../../src/converters/html";
+import { renderMarkdown } from "../../src/utils/markdownRenderer";
+import type { ConversionOptions } from "../../src/types/document";
+
+const PAGE = `<!DOCTYPE html>
+<html lang="en"><head><title>Sample</title></head><body>
+<h1>Sample page</h1>
+<p>Intro with <img src="inline.png" alt="Inline"> an image and <a href="https://example.com">a link</a>.</p>
+<p><img src="alone.png" alt="Alone"></p>
+<figure><img src="chart.png" alt="Chart"><figcaption>Sales by <b>region</b></figcaption></figure>
+<dl><dt>Term <em>one</em></dt><dd>First definition.</dd><dd>Second definition.</dd></dl>
+<details><summary>More info</summary><p>Hidden text.</p></details>
+<ul><li>one<ul><li>nested</li></ul></li><li><p>para item</p><p>second para</p></li></ul>
+<blockquote><p>Quoted</p><p>twice</p></blockquote>
+<pre><code class="language-ts">const a = 1;</code></pre>
+<table><caption>Scores</caption><tr><th>Name</th><th>Score</th></tr><tr><td>Ada</td><td>1 | 2</td></tr></table>
+<table><tr><td colspan="2">Merged</td></tr><tr><td>a</td><td>b</td></tr></table>
+<p>E = mc<sup>2</sup> and H<sub>2</sub>O.</p>
+</body></html>`;
+
+let directory: string;
+
+/**
+ * Converts HTML with the HTML converter.
+ * @param {string} html - The page
+ * @param {Partial<ConversionOptions>} [options={}] - Conversion options
+ * @returns The conversion result
+ */
+async function convert(html: string, options: Partial<ConversionOptions> = {}) {
+  const filePath = path.join(directory, "page.html");
+  fs.writeFileSync(filePath, html);
+  const result = await new HtmlConverter().convert(filePath, {
+    fileExtension: ".html",
+    ...options,
+  });
+  if (!result?.document) throw new Error("The page was not converted");
+  return { ...result, document: result.document };
+}
+
+beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "markitdown-html-"));
+});
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("HtmlConverter", () => {
+  test.each([
+    ["default options", {}],
+    ["complex tables as HTML", { complexTables: "html" as const }],
+    ["readability", { readability: true }],
+  ])("renders the document tree as textContent with %s", async (_, options) => {
+    const result = await convert(PAGE, options);
+    expect(renderMarkdown(result.document)).toBe(result.textContent);
+  });
+
+  test("writes images once", async () => {
+    const { textContent } = await convert(PAGE);
+    expect(textContent.match(/Inline/g)).toHaveLength(1);
+    expect(textContent.match(/Alone/g)).toHaveLength(1);
+    expect(textContent.match(/Chart/g)).toHaveLength(1);
+  });
+
+  test("builds blocks of the document tree", async () => {
+    const { document } = await convert(PAGE);
+    const types = document.children.map((block) => block.type);
+    expect(types[0]).toBe("heading");
+    expect(types).toContain("list");
+    expect(types).toContain("blockquote");
+    expect(types).toContain("code");
+    expect(types).toContain("table");
+    expect(document.title).toBe("Sample");
+  });
+
+  test("writes figures, definition lists and summaries from the Markdown rules", async () => {
+    const { textContent } = await convert(PAGE);
+    expect(textContent).toContain("Chart\n\n_Sales by **region**_");
+    expect(textContent).toContain("**Term _one_**\n: First definition.\n: Second definition.");
+    expect(textContent).toContain("**More info**\n\nHidden text.");
+  });
+
+  test("fences code blocks with more backticks than the code contains", async () => {
+    const { textContent } = await convert(
+      '<pre><code class="language-md">Use ```js fences``` here</code></pre>'
+    );
+    expect(textContent).toBe("````md\nUse ```js fences``` here\n````");
+  });
+
+  test("writes the article with its byline and date in readability mode", async () => {
+    const paragraph =
+      "<p>A paragraph of the article, with enough words, commas, and clauses to score well in the readability scoring, repeated again.</p>";
+    const page = `<html><head><meta name="author" content="Ada Lovelace">
+<meta property="article:published_time" content="2024-03-05T10:30:00Z"></head>
+<body><nav><a href="/news">News</a></nav><article><h1>The real title</h1>${paragraph.repeat(3)}</article>
+<footer>Copyright</footer></body></html>`;
+    const { textContent } = await convert(page, { readability: true });
+    expect(textContent).toStartWith(
+      "**Author:** Ada Lovelace\n\n**Published:** 2024-03-05T10:30:00.000Z\n\n# The real title\n\nA paragraph"
+    );
+    expect(textContent).not.toContain("News");
+    expect(textContent).not.toContain("Copyright");
+  });
+
+  test("falls back to the whole body in readability mode if no article is found", async () => {
+    const page = `<html><body><nav><a href="/a">A</a></nav><p>Short text.</p><footer>Copyright</footer></body></html>`;
+    const { textContent } = await convert(page, { readability: true });
+    expect(textContent).toBe("[A](/a)\n\nShort text.\n\nCopyright");
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import MboxConverter from "../../src/converters/mbox";
+import { convertFile, fixture } from "../helpers";
+
+describe("MboxConverter", () => {
+  test("writes the messages in date order below their subject headings", async () => {
+    const result = await convertFile(new MboxConverter(), "archive.mbox", fixture("archive.mbox"));
+    expect(result.textContent).toStartWith(
+      [
+        "## Earlier",
+        "",
+        "**From:** a@b.c",
+        "",
+        "**Date:** Mon, 01 Jan 2024 00:00:00 +0000",
+        "",
+        "From the start",
+        "line two",
+        "",
+        "## Quarterly report – café",
+      ].join("\n")
+    );
+    expect(result.textContent).toContain("#### Report\n\nHello **Bob**");
+    expect(result.textContent).toEndWith(
+      "### Attachments\n\n* résumé.pdf (application/pdf, 13 bytes)\n* Inner.eml (message/rfc822, 138 bytes)"
+    );
+    expect(result.metadata).toEqual({
+      createdAt: "2024-01-01T00:00:00.000Z",
+      modifiedAt: "2024-03-05T09:30:00.000Z",
+      extra: { messageCount: 2 },
+    });
+  });
+});
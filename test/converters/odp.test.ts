@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import OdpConverter from "../../src/converters/odp";
+import { convertFile, fixture } from "../helpers";
+
+describe("OdpConverter", () => {
+  test("writes slides like PptxConverter, with lists, tables, charts, images and notes", async () => {
+    const result = await convertFile(new OdpConverter(), "slides.odp", fixture("slides.odp"));
+    expect(result.textContent).toBe(
+      [
+        "## Slide 1: Welcome",
+        "",
+        "* Point A",
+        "  * Detail",
+        "* Point B",
+        "",
+        "Shape text",
+        "",
+        "### Notes",
+        "",
+        "Say hello",
+        "",
+        "## Slide 2",
+        "",
+        "| H1  | H2  |",
+        "| --- | --- |",
+        "| a   | b   |",
+        "",
+        "### Chart: Sales",
+        "",
+        "| Category | 2023 | 2024 |",
+        "| -------- | ---- | ---- |",
+        "| Q1       | 1    | 2    |",
+        "",
+        "![Photo](p.jpg)",
+      ].join("\n")
+    );
+    expect(result.metadata?.extra?.slideCount).toBe(2);
+  });
+});
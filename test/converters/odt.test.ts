@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import OdtConverter from "../../src/converters/odt";
+import { convertFile, fixture } from "../helpers";
+
+describe("OdtConverter", () => {
+  test("writes headings, lists, tables, images and footnotes", async () => {
+    const result = await convertFile(new OdtConverter(), "report.odt", fixture("report.odt"));
+    expect(result.textContent).toContain("# Report Title\n\n# Intro\n\n");
+    expect(result.textContent).toContain(
+      "Some **bold** and _italic_ text  with a [link](https://example.com).[^1]"
+    );
+    expect(result.textContent).toContain(
+      "## Styled heading\n\n* Bullet one\n  1. Numbered sub\n* Bullet two\n\n## 1\\. Numbered heading"
+    );
+    expect(result.textContent).toContain(
+      "| Name           | Values |     |\n| -------------- | ------ | --- |\n| A\\|B<br>second | 1      | 2   |"
+    );
+    expect(result.textContent).toContain("![A cat](cat.png)");
+    expect(result.textContent).toEndWith("[^1]: The footnote.\n\n[^2]: An endnote.");
+    expect(result.metadata).toMatchObject({
+      author: "Ada",
+      createdAt: "2024-01-02T10:00:00.000Z",
+      pageCount: 2,
+    });
+  });
+
+  test("escapes Markdown syntax in paragraph text", async () => {
+    const result = await convertFile(new OdtConverter(), "report.odt", fixture("report.odt"));
+    expect(result.textContent).toStartWith("\\# Not heading \\*5\\* \\_x\\_\n\n1\\. Not list\n\n");
+  });
+});
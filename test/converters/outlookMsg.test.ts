@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import CsvConverter from "../../src/converters/csv";
+import HtmlConverter from "../../src/converters/html";
+import OutlookMsgConverter from "../../src/converters/outlookMsg";
+import { convertFile, fixture } from "../helpers";
+
+const PARENT_CONVERTERS = [new HtmlConverter(), new CsvConverter()];
+
+describe("OutlookMsgConverter", () => {
+  test("only lists the attachments by default", async () => {
+    const result = await convertFile(
+      new OutlookMsgConverter(),
+      "attachments.msg",
+      fixture("attachments.msg"),
+      { parentConverters: PARENT_CONVERTERS }
+    );
+    expect(result.textContent).toContain(
+      "## Attachments:\n\n- data.csv (8 bytes)\n- attachment (66 bytes)"
+    );
+    expect(result.textContent).not.toContain("## Attachment:");
+    expect(result.metadata?.extra?.attachments).toEqual(["data.csv", "attachment"]);
+  });
+
+  test("converts the attachments, nameless ones included, below their headings", async () => {
+    const result = await convertFile(
+      new OutlookMsgConverter(),
+      "attachments.msg",
+      fixture("attachments.msg"),
+      { convertAttachments: true, parentConverters: PARENT_CONVERTERS }
+    );
+    expect(result.textContent).toEndWith(
+      [
+        "## Attachment: data.csv",
+        "",
+        "| a   | b   |",
+        "| --- | --- |",
+        "| 1   | 2   |",
+        "",
+        "## Attachment: attachment",
+        "",
+        "### Notes",
+        "",
+        "From the attachment",
+      ].join("\n")
+    );
+  });
+
+  test("writes all recipients by type, the dates and the importance", async () => {
+    const result = await convertFile(new OutlookMsgConverter(), "reply.msg", fixture("reply.msg"));
+    expect(result.textContent).toStartWith(
+      [
+        "# Email Message",
+        "",
+        "**From:** Sender Name <sender@example.com>",
+        "",
+        "**To:** Bob <bob@example.com>, Carol <carol@example.com>",
+        "",
+        "**Cc:** Dave <dave@example.com>",
+        "",
+        "**Bcc:** Eve <eve@example.com>",
+        "",
+        "**Subject:** Test subject",
+        "",
+        "**Sent:** 2024-03-05T10:30:00.000Z",
+        "",
+        "**Received:** 2024-03-05T10:31:00.000Z",
+        "",
+        "**Importance:** High",
+      ].join("\n")
+    );
+    expect(result.metadata?.extra).toMatchObject({
+      to: ["bob@example.com", "carol@example.com"],
+      cc: ["dave@example.com"],
+      bcc: ["eve@example.com"],
+      importance: "High",
+    });
+  });
+
+  test("converts HTML bodies with their headings below the content heading", async () => {
+    const result = await convertFile(
+      new OutlookMsgConverter(),
+      "html-body.msg",
+      fixture("html-body.msg")
+    );
+    expect(result.textContent).toContain(
+      "## Content:\n### Agenda\n\nHello **team**, café\n\n#### Items\n\n* One\n* Two"
+    );
+  });
+
+  test("converts compressed RTF bodies", async () => {
+    const result = await convertFile(
+      new OutlookMsgConverter(),
+      "rtf-body.msg",
+      fixture("rtf-body.msg")
+    );
+    expect(result.textContent).toContain("## Content:\nHello **Café** {x}\n\nsecond");
+  });
+
+  test("collapses quoted replies if asked to", async () => {
+    const convert = (options = {}) =>
+      convertFile(new OutlookMsgConverter(), "reply.msg", fixture("reply.msg"), options);
+    expect((await convert()).textContent).toContain("> Shall we meet?");
+    const result = await convert({ collapseQuotedReplies: true });
+    expect(result.textContent).toContain(
+      "## Content:\nSounds good.\n\n_[Quoted message collapsed]_"
+    );
+    expect(result.textContent).not.toContain("Shall we meet?");
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import PptConverter from "../../src/converters/ppt";
+import { convertFile, fixture } from "../helpers";
+
+describe("PptConverter", () => {
+  test("writes slides with titles, indented bullets, shape texts and notes", async () => {
+    const result = await convertFile(new PptConverter(), "slides.ppt", fixture("slides.ppt"));
+    expect(result.textContent).toBe(
+      [
+        "## Slide 1: Quarterly review",
+        "",
+        "* Revenue up",
+        "  * Details",
+        "* Costs flat",
+        "",
+        "### Notes",
+        "",
+        "Speak slowly",
+        "",
+        "## Slide 2: Café",
+        "",
+        "Thanks",
+      ].join("\n")
+    );
+    expect(result.metadata?.extra?.slideCount).toBe(2);
+  });
+});
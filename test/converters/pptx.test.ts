@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import PptxConverter from "../../src/converters/pptx";
+import type { LlmCallInputParams } from "../../src/types/markitdown";
+import { convertFile, fixture } from "../helpers";
+
+describe("PptxConverter", () => {
+  test("writes slides with titles, lists, tables, charts and notes", async () => {
+    const result = await convertFile(new PptxConverter(), "slides.pptx", fixture("slides.pptx"));
+    expect(result.textContent).toStartWith(
+      "## Slide 1: Sample PowerPoint File\n\nSt. Cloud Technical College\n\n![Alt here](image1.jpeg)"
+    );
+    expect(result.textContent).toContain(
+      "## Slide 2: This is a Sample Slide\n\n* Here is an outline of bulleted points\n"
+    );
+    expect(result.textContent).toContain(
+      "| Name              | Score |\n| ----------------- | ----- |\n| Ada \\| L<br>line2 |       |"
+    );
+    expect(result.textContent).toContain(
+      "### Chart: Revenue\n\n| Category | 2023 | 2024 |\n| -------- | ---- | ---- |\n| Q1       | 10   | 11   |"
+    );
+    expect(result.textContent).toContain("1. First\n   * Sub\n2. Second");
+    expect(result.textContent).toEndWith("### Notes\n\nSpeak slowly.");
+    const slides = result.document!.children.filter((block) => block.type === "section");
+    expect(slides.map((slide) => slide.type === "section" && slide.number)).toEqual([1, 2]);
+  });
+
+  test("only describes pictures with llmCall if asked to", async () => {
+    const calls: LlmCallInputParams[] = [];
+    const llmCall = async (params: LlmCallInputParams) => {
+      calls.push(params);
+      return "A described picture";
+    };
+    const content = fixture("slides.pptx");
+    const alt = await convertFile(new PptxConverter(), "slides.pptx", content, { llmCall });
+    expect(calls).toHaveLength(0);
+    expect(alt.textContent).toContain("![Alt here](image1.jpeg)");
+
+    const described = await convertFile(new PptxConverter(), "slides.pptx", content, {
+      llmCall,
+      pptxImages: "describe",
+    });
+    expect(calls).toHaveLength(1);
+    expect(calls[0]!.imageBase64).toBeTruthy();
+    expect(described.textContent).toContain("![A described picture](image1.jpeg)");
+  });
+});
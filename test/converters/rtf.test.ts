@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import RtfConverter from "../../src/converters/rtf";
+import { convertFile } from "../helpers";
+
+const DOCUMENT = String.raw`{\rtf1\ansi\ansicpg1252\deff0{\fonttbl{\f0\fswiss\fcharset0 Arial;}{\f1\fcharset204 Times;}}
+{\colortbl;\red255\green0\blue0;}
+{\stylesheet{\s0 Normal;}{\s1\outlinelevel0 heading 1;}{\s2 heading 2;}}
+{\info{\title Sample Doc}{\author Jane Roe}{\creatim\yr2024\mo3\dy5\hr10\min30}}
+{\*\generator Writer;}
+\pard\s1 Main Title\par
+\pard\s2 Sub section\par
+\pard Caf\'e9 costs \u8364? 5 and {\b bold} {\i italic } text{\f1 \'cf\'f0\'e8}.\par
+\pard See {\field{\*\fldinst HYPERLINK "https://example.com"}{\fldrslt {\ul example}}} now.{\super\chftn{\footnote\pard\plain {\super\chftn} A footnote here.}}\par
+{\listtext\'95\tab}\pard\ls1\ilvl0 First bullet\par
+{\listtext\'95\tab}\pard\ls1\ilvl1 Nested bullet\par
+{\listtext\'95\tab}\pard\ls1\ilvl0 Second bullet\par
+\pard\par
+{\listtext 1.\tab}\pard\ls2 One\par
+{\listtext 2.\tab}\pard\ls2 Two\par
+\pard\intbl Name\cell Age\cell\row
+\pard\intbl Bob\cell 42\cell\row
+\pard Picture: {\pict\pngblip\picw10\pich10 {\*\blipuid abc}\bin4 {}\\x}after.\par
+}`;
+
+/**
+ * Converts RTF source as an .rtf file.
+ * @param {string} rtf - The RTF source, 7-bit as RTF files are
+ * @returns The conversion result
+ */
+function convert(rtf: string) {
+  return convertFile(new RtfConverter(), "document.rtf", Buffer.from(rtf, "latin1"));
+}
+
+describe("RtfConverter", () => {
+  test("writes headings, formatting, links, footnotes, lists and tables", async () => {
+    const result = await convert(DOCUMENT);
+    expect(result.textContent).toBe(
+      [
+        "# Main Title",
+        "",
+        "## Sub section",
+        "",
+        "Café costs € 5 and **bold** _italic_  textПри.",
+        "",
+        "See [example](https://example.com) now.[^1]",
+        "",
+        "* First bullet",
+        "  * Nested bullet",
+        "* Second bullet",
+        "",
+        "1. One",
+        "2. Two",
+        "",
+        "| Name | Age |",
+        "| ---- | --- |",
+        "| Bob  | 42  |",
+        "",
+        "Picture: after.",
+        "",
+        "[^1]: A footnote here.",
+      ].join("\n")
+    );
+    expect(result.metadata).toMatchObject({
+      author: "Jane Roe",
+      createdAt: "2024-03-05T10:30:00.000Z",
+    });
+  });
+
+  test("escapes Markdown syntax in the text", async () => {
+    const result = await convert(String.raw`{\rtf1\ansi{\fonttbl{\f0 Arial;}}
+\pard # Not a heading\par
+\pard 1. Not a list, costs *5* and _x_ \b bold*\b0  end\par
+\pard Plain {\field{\*\fldinst HYPERLINK "http://a.example/"}{\fldrslt link_[x]}} here\par
+}`);
+    expect(result.textContent).toBe(
+      [
+        "\\# Not a heading",
+        "",
+        "1\\. Not a list, costs \\*5\\* and \\_x\\_ **bold\\*** end",
+        "",
+        "Plain [link\\_\\[x\\]](http://a.example/) here",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import XLSX from "xlsx";
+import { describe, expect, test } from "bun:test";
+import XlsxConverter from "../../src/converters/xlsx";
+import { convertFile, fixture } from "../helpers";
+
+/**
+ * Builds a workbook with a sales sheet, which has a hidden row and column, a merged
+ * range and a percentage, and a sheet without header row.
+ * @returns {XLSX.WorkBook} The workbook
+ */
+function salesWorkbook(): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const sales = XLSX.utils.aoa_to_sheet([
+    ["Region", "Q1", "Q2", "Note"],
+    ["North", 1, null, "a|b"],
+    ["Hidden", 9, 9, "x"],
+    ["South", 0.25, 3, ""],
+    ["Merged", null, null, null],
+  ]);
+  sales["!merges"] = [{ s: { r: 4, c: 0 }, e: { r: 4, c: 1 } }];
+  sales["!rows"] = [{}, {}, { hidden: true }];
+  sales["!cols"] = [{}, {}, {}, { hidden: true }];
+  sales["B4"]!.z = "0%";
+  XLSX.utils.book_append_sheet(workbook, sales, "Sales");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([[1, 2], [3, 4]]), "Numbers");
+  return workbook;
+}
+
+/**
+ * Converts a workbook as an XLSX file.
+ * @param {XLSX.WorkBook} workbook - The workbook
+ * @param {object} [options={}] - Conversion options
+ * @returns The conversion result
+ */
+function convertWorkbook(workbook: XLSX.WorkBook, options = {}) {
+  const content = XLSX.write(workbook, { type: "buffer", bookType: "xlsx", cellStyles: true });
+  return convertFile(new XlsxConverter(), "sales.xlsx", content, options);
+}
+
+describe("XlsxConverter", () => {
+  test("writes each sheet as a section with a table from its cell grid", async () => {
+    const result = await convertWorkbook(salesWorkbook());
+    expect(result.textContent).toBe(
+      [
+        "## Sales",
+        "",
+        "| Region | Q1     | Q2  |",
+        "| ------ | ------ | --- |",
+        "| North  | 1      |     |",
+        "| South  | 25%    | 3   |",
+        "| Merged | Merged |     |",
+        "",
+        "## Numbers",
+        "",
+        "|     |     |",
+        "| --- | --- |",
+        "| 1   | 2   |",
+        "| 3   | 4   |",
+      ].join("\n")
+    );
+    const sections = result.document!.children;
+    expect(sections.map((section) => section.type === "section" && section.name)).toEqual([
+      "Sales",
+      "Numbers",
+    ]);
+  });
+
+  test("summarizes the rows after maxRows", async () => {
+    const result = await convertWorkbook(salesWorkbook(), { maxRows: 1, headerRow: "none" });
+    expect(result.textContent).toContain("| Region | Q1  | Q2  |\n\n_3 more rows_");
+    expect(result.textContent).toContain("| 1   | 2   |\n\n_1 more row_");
+  });
+
+  test("includes hidden sheets marked as hidden in audit mode", async () => {
+    const workbook = salesWorkbook();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["secret"]]), "Rates");
+    workbook.Workbook = { Sheets: [{ Hidden: 0 }, { Hidden: 0 }, { Hidden: 1 }] };
+    expect((await convertWorkbook(workbook)).textContent).not.toContain("Rates");
+    const result = await convertWorkbook(workbook, { spreadsheetAudit: true });
+    expect(result.textContent).toContain("## Rates (hidden)\n\n|        |\n| ------ |\n| secret |");
+  });
+
+  test("lists formulas, comments, defined names and VBA modules in audit mode", async () => {
+    const result = await convertFile(new XlsxConverter(), "budget.xlsm", fixture("audit.xlsm"), {
+      spreadsheetAudit: true,
+    });
+    expect(result.textContent).toContain("| C2   | `=B2*1.2`     | 12    |");
+    expect(result.textContent).toContain("| B2   | Auditor | Check \\| this<br>value |");
+    expect(result.textContent).toContain("| Local | Budget   | `Budget!$A$1:$C$4` | all     |");
+    expect(result.textContent).toContain(
+      "### Module1 (standard module)\n\n```vba\nFunction Tax(x)\n  Tax = x * 0.2 ' café\nEnd Function\n```"
+    );
+  });
+
+  test("gives .xls files the same output as .xlsx files", async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ["Region", "Sales"],
+        ["North", 12],
+        ["South", 7.5],
+      ]),
+      "Sales"
+    );
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["a|b", "c"]]), "Notes");
+    const convert = (bookType: "xls" | "xlsx") =>
+      convertFile(
+        new XlsxConverter(),
+        `sales.${bookType}`,
+        XLSX.write(workbook, { type: "buffer", bookType })
+      );
+    const xls = await convert("xls");
+    expect(xls.textContent).toBe((await convert("xlsx")).textContent);
+    expect(xls.textContent).toContain("| North  | 12    |");
+  });
+});
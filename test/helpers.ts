@@ -0,0 +1,45 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type DocumentConverter from "../src/converters/document";
+import type { ConversionOptions } from "../src/types/document";
+
+/**
+ * Reads a file of the `fixtures` directory.
+ * @param {string} name - File name of the fixture
+ * @returns {Buffer} The content of the fixture
+ */
+export function fixture(name: string): Buffer {
+  return fs.readFileSync(path.join(import.meta.dir, "fixtures", name));
+}
+
+/**
+ * Writes content to a temporary file and converts it with a converter, the file is
+ * removed afterwards.
+ * @param {DocumentConverter} converter - The converter
+ * @param {string} fileName - Name of the temporary file, its extension picks the format
+ * @param {string | Buffer} content - Content of the file
+ * @param {Partial<ConversionOptions>} [options={}] - Conversion options
+ * @returns The conversion result
+ * @throws {Error} If the converter doesn't convert the file
+ */
+export async function convertFile(
+  converter: DocumentConverter,
+  fileName: string,
+  content: string | Buffer,
+  options: Partial<ConversionOptions> = {}
+) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "markitdown-test-"));
+  try {
+    const filePath = path.join(directory, fileName);
+    fs.writeFileSync(filePath, content);
+    const result = await converter.convert(filePath, {
+      fileExtension: path.extname(fileName),
+      ...options,
+    });
+    if (!result) throw new Error(`${fileName} was not converted`);
+    return result;
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import MarkdownChunker from "../../src/utils/chunker";
+
+describe("MarkdownChunker", () => {
+  test("starts a chunk at every heading and records the heading path", () => {
+    const chunks = new MarkdownChunker().chunk({
+      title: "Doc",
+      textContent: "# Title\n\nIntro.\n\n## Part\n\nBody.\n\n# Next\n\nMore.",
+    });
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "# Title\n\nIntro.",
+      "## Part\n\nBody.",
+      "# Next\n\nMore.",
+    ]);
+    expect(chunks.map((chunk) => chunk.metadata.headings)).toEqual([
+      ["Title"],
+      ["Title", "Part"],
+      ["Next"],
+    ]);
+    expect(chunks.map((chunk) => chunk.metadata.index)).toEqual([0, 1, 2]);
+    expect(chunks.every((chunk) => chunk.metadata.title === "Doc")).toBe(true);
+  });
+
+  test("splits long sections between sentences with an overlap", () => {
+    const chunks = new MarkdownChunker({ maxSize: 60, overlap: 10 }).chunk({
+      title: null,
+      textContent:
+        "## Part\n\nOne sentence here. Another sentence follows here. And a third one to split.",
+    });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.text.length <= 60)).toBe(true);
+    expect(chunks[0]!.text).toBe("## Part\n\nOne sentence here. Another sentence follows here.");
+    expect(chunks[1]!.text).toEndWith("And a third one to split.");
+  });
+
+  test("keeps code blocks whole and repeats the header of split tables", () => {
+    const code = "```\nline one\nline two\nline three\nline four\nline five\n```";
+    const table = [
+      "| name | value |",
+      "| ---- | ----- |",
+      ...Array.from({ length: 8 }, (_, row) => `| row${row} | ${row} |`),
+    ].join("\n");
+    const chunks = new MarkdownChunker({ maxSize: 50, overlap: 0 }).chunk({
+      title: null,
+      textContent: `${code}\n\n${table}`,
+    });
+    expect(chunks[0]!.text).toBe(code);
+    const tableChunks = chunks.slice(1);
+    expect(tableChunks.length).toBeGreaterThan(1);
+    for (const chunk of tableChunks) {
+      expect(chunk.text).toStartWith("| name | value |\n| ---- | ----- |\n");
+    }
+    const rows = tableChunks.flatMap((chunk) => chunk.text.split("\n").slice(2));
+    expect(rows).toEqual(table.split("\n").slice(2));
+  });
+
+  test("measures chunks with countSize", () => {
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const chunks = new MarkdownChunker({ maxSize: 5, overlap: 0, countSize: words }).chunk({
+      title: null,
+      textContent: "one two three four five six seven eight nine ten",
+    });
+    expect(chunks.every((chunk) => words(chunk.text) <= 5)).toBe(true);
+    expect(chunks.map((chunk) => chunk.text).join(" ")).toBe(
+      "one two three four five six seven eight nine ten"
+    );
+  });
+
+  test("starts a chunk at every section of the document tree", () => {
+    const chunks = new MarkdownChunker().chunk({
+      title: null,
+      textContent: "## S1\n\nx\n\ny",
+      document: {
+        type: "document",
+        children: [
+          {
+            type: "section",
+            kind: "sheet",
+            name: "S1",
+            number: 1,
+            children: [
+              { type: "heading", level: 2, text: "S1" },
+              { type: "paragraph", text: "x" },
+            ],
+          },
+          {
+            type: "section",
+            kind: "sheet",
+            name: "S2",
+            number: 2,
+            children: [{ type: "paragraph", text: "y" }],
+          },
+        ],
+      },
+    });
+    expect(chunks.map((chunk) => chunk.text)).toEqual(["## S1\n\nx", "y"]);
+    expect(chunks.map((chunk) => chunk.metadata.sources)).toEqual([
+      [{ kind: "sheet", name: "S1", number: 1 }],
+      [{ kind: "sheet", name: "S2", number: 2 }],
+    ]);
+    expect(chunks[1]!.metadata.headings).toEqual([]);
+  });
+
+  test("returns no chunks for an empty result", () => {
+    expect(new MarkdownChunker().chunk(null)).toEqual([]);
+  });
+
+  test("rejects invalid sizes", () => {
+    expect(() => new MarkdownChunker({ maxSize: 0 })).toThrow("maxSize must be greater than 0.");
+    expect(() => new MarkdownChunker({ maxSize: 10, overlap: 10 })).toThrow(
+      "overlap must be between 0 and maxSize."
+    );
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { decompressRtf } from "../../src/utils/compressedRtf";
+
+const hex = (bytes: string) => Buffer.from(bytes.replace(/\s+/g, ""), "hex");
+
+describe("decompressRtf", () => {
+  test("decompresses the example of [MS-OXRTFCP]", () => {
+    const data = hex(
+      "2d000000 2b000000 4c5a4675 f1c5c7a7 03000a00 72637067 31323542 320af320 68656c09 00206277 05b06c64 7d0a800f a0"
+    );
+    expect(decompressRtf(data)).toBe("{\\rtf1\\ansi\\ansicpg1252\\pard hello world}\r\n");
+  });
+
+  test("returns uncompressed RTF as it is", () => {
+    const rtf = "{\\rtf1 plain}";
+    const header = Buffer.alloc(16);
+    header.writeUInt32LE(rtf.length + 12, 0);
+    header.writeUInt32LE(rtf.length, 4);
+    header.write("MELA", 8, "latin1");
+    expect(decompressRtf(Buffer.concat([header, Buffer.from(rtf, "latin1")]))).toBe(rtf);
+  });
+
+  test("rejects data which is not compressed RTF", () => {
+    expect(() => decompressRtf(Buffer.alloc(4))).toThrow();
+    expect(() => decompressRtf(Buffer.alloc(16))).toThrow("Unknown compressed RTF type");
+  });
+});
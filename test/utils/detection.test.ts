@@ -0,0 +1,107 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import XLSX from "xlsx";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  detectFileExtensions,
+  detectTextEncoding,
+  extensionsFromHints,
+  parseContentDispositionFileName,
+} from "../../src/utils/detection";
+
+let directory: string;
+
+/**
+ * Writes a file without extension to the test directory.
+ * @param {string} name - File name
+ * @param {string | Buffer} content - File content
+ * @returns {string} Path of the file
+ */
+function writeFile(name: string, content: string | Buffer): string {
+  const filePath = path.join(directory, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "markitdown-detection-"));
+});
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("detectFileExtensions", () => {
+  test.each([
+    ["pdf", "%PDF-1.7\n%âãÏÓ\n", [".pdf"]],
+    ["rtf", "{\\rtf1\\ansi hello}", [".rtf"]],
+    [
+      "png",
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]),
+      [".png"],
+    ],
+    ["notebook", '{"cells": [], "nbformat": 4}', [".ipynb", ".json"]],
+    ["json", '{"name": "value"}', [".json", ".txt"]],
+    ["html", "<!DOCTYPE html><html><body>Hi</body></html>", [".html"]],
+    ["rss", '<?xml version="1.0"?><rss version="2.0"></rss>', [".rss", ".xml"]],
+    ["atom", '<feed xmlns="http://www.w3.org/2005/Atom"></feed>', [".atom", ".xml"]],
+    ["eml", "From: a@example.com\r\nSubject: Hi\r\n\r\nBody", [".eml", ".txt"]],
+    ["csv", "name,age\nAda,36\nAlan,41\n", [".csv", ".txt"]],
+    ["tsv", "name\tage\nAda\t36\nAlan\t41\n", [".tsv", ".txt"]],
+    ["text", "Just a line of text.", [".txt"]],
+    ["binary", Buffer.from([0x00, 0x01, 0x02, 0x03]), []],
+  ])("recognizes %s content", async (name, content, expected) => {
+    expect(await detectFileExtensions(writeFile(name, content))).toEqual(expected);
+  });
+
+  test("tells Office Open XML packages apart", async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["a"]]), "Sheet1");
+    const filePath = path.join(directory, "workbook");
+    XLSX.writeFile(workbook, filePath, { bookType: "xlsx" });
+    expect(await detectFileExtensions(filePath)).toEqual([".xlsx", ".zip"]);
+  });
+
+  test("returns no extensions for missing files", async () => {
+    expect(await detectFileExtensions(path.join(directory, "missing"))).toEqual([]);
+  });
+});
+
+describe("extensionsFromHints", () => {
+  test("ranks the file name before the MIME type and the URL", () => {
+    expect(
+      extensionsFromHints({
+        fileName: "report.PDF",
+        mimeType: "text/html",
+        url: "https://example.com/download/page.htm?x=1",
+      })
+    ).toEqual([".pdf", ".html"]);
+  });
+
+  test("ignores application/octet-stream", () => {
+    expect(extensionsFromHints({ mimeType: "application/octet-stream" })).toEqual([]);
+  });
+});
+
+describe("parseContentDispositionFileName", () => {
+  test("reads quoted and encoded file names", () => {
+    expect(parseContentDispositionFileName('attachment; filename="report.pdf"')).toBe(
+      "report.pdf"
+    );
+    expect(
+      parseContentDispositionFileName(
+        "attachment; filename=fallback.pdf; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf"
+      )
+    ).toBe("résumé.pdf");
+    expect(parseContentDispositionFileName("inline")).toBeNull();
+  });
+});
+
+describe("detectTextEncoding", () => {
+  test("detects byte order marks, UTF-8 and Windows-1252", () => {
+    expect(detectTextEncoding(Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toBe("utf-16le");
+    expect(detectTextEncoding(Buffer.from("café", "utf-8"))).toBe("utf-8");
+    expect(detectTextEncoding(Buffer.from([0x63, 0x61, 0x66, 0xe9]))).toBe("windows-1252");
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import type { LlmCallInputParams } from "../../src/types/markitdown";
+import { describeImage } from "../../src/utils/imageDescription";
+
+describe("describeImage", () => {
+  test("sends the image as data URI with the prompt", async () => {
+    const calls: LlmCallInputParams[] = [];
+    const llmCall = async (params: LlmCallInputParams) => {
+      calls.push(params);
+      return "A red dot";
+    };
+    const description = await describeImage(Buffer.from("png"), "image/png", llmCall, "Describe");
+    expect(description).toBe("A red dot");
+    expect(calls[0]!.imageBase64).toBe("cG5n");
+    expect(calls[0]!.messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Describe" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,cG5n" } },
+        ],
+      },
+    ]);
+  });
+
+  test("returns null without llmCall or if the call fails", async () => {
+    expect(await describeImage(Buffer.from("png"), "image/png", undefined)).toBeNull();
+    const failing = async () => {
+      throw new Error("rate limited");
+    };
+    expect(await describeImage(Buffer.from("png"), "image/png", failing)).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { renderMarkdown, shiftHeadings } from "../../src/utils/markdownRenderer";
+
+describe("renderMarkdown", () => {
+  test("fences code with more backticks than the code contains", () => {
+    expect(renderMarkdown({ type: "code", value: "a", language: "ts" })).toBe("```ts\na\n```");
+    expect(renderMarkdown({ type: "code", value: "x ```` y" })).toBe("`````\nx ```` y\n`````");
+  });
+
+  test("writes tables with padded columns", () => {
+    expect(
+      renderMarkdown({ type: "table", header: ["Name", "N"], rows: [["Ada | L", "1"]] })
+    ).toBe("| Name     | N   |\n| -------- | --- |\n| Ada \\| L | 1   |");
+  });
+});
+
+describe("shiftHeadings", () => {
+  test("moves headings of blocks and Markdown outside of code fences", () => {
+    const shifted = shiftHeadings(
+      [
+        { type: "heading", level: 1, text: "Title" },
+        { type: "heading", level: 5, text: "Deep" },
+        { type: "markdown", value: "# Inside\n\n```\n# Not a heading\n```" },
+      ],
+      2
+    );
+    expect(shifted).toEqual([
+      { type: "heading", level: 3, text: "Title" },
+      { type: "heading", level: 6, text: "Deep" },
+      { type: "markdown", value: "### Inside\n\n```\n# Not a heading\n```" },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import {
+  decodeMimeText,
+  decodeMimeWords,
+  getHeader,
+  parseAddressList,
+  parseMimeMessage,
+  splitMbox,
+} from "../../src/utils/mime";
+
+/**
+ * Builds a raw message from its lines.
+ * @param {string[]} lines - Lines of the message
+ * @returns {Buffer} The message with CRLF line endings
+ */
+function message(lines: string[]): Buffer {
+  return Buffer.from(lines.join("\r\n"), "latin1");
+}
+
+describe("parseMimeMessage", () => {
+  test("splits nested multipart bodies whose boundaries share a prefix", () => {
+    const parsed = parseMimeMessage(
+      message([
+        "Subject: Nested",
+        'Content-Type: multipart/mixed; boundary="abc"',
+        "",
+        "Preamble",
+        "--abc",
+        'Content-Type: multipart/alternative; boundary="abc-1"',
+        "",
+        "--abc-1",
+        "Content-Type: text/plain",
+        "",
+        "Plain",
+        "--abc-1",
+        "Content-Type: text/html",
+        "",
+        "<p>HTML</p>",
+        "--abc-1--",
+        "--abc ",
+        "Content-Type: application/pdf",
+        'Content-Disposition: attachment; filename="report.pdf"',
+        "Content-Transfer-Encoding: base64",
+        "",
+        Buffer.from("%PDF-1.7").toString("base64"),
+        "--abc--",
+        "Epilogue",
+      ])
+    );
+    expect(parsed.contentType).toBe("multipart/mixed");
+    expect(parsed.parts.map((part) => part.contentType)).toEqual([
+      "multipart/alternative",
+      "application/pdf",
+    ]);
+    expect(parsed.parts[0]!.parts.map((part) => part.contentType)).toEqual([
+      "text/plain",
+      "text/html",
+    ]);
+    expect(parsed.parts[1]!.disposition).toBe("attachment");
+    expect(parsed.parts[1]!.fileName).toBe("report.pdf");
+    expect(parsed.parts[1]!.body.toString()).toBe("%PDF-1.7");
+  });
+
+  test("decodes quoted-printable bodies with their charset", () => {
+    const parsed = parseMimeMessage(
+      message([
+        "Subject: =?UTF-8?Q?Caf=C3=A9?=",
+        "Content-Type: text/plain; charset=iso-8859-1",
+        "Content-Transfer-Encoding: quoted-printable",
+        "",
+        "Caf=E9 au =",
+        "lait",
+      ])
+    );
+    expect(getHeader(parsed, "Subject")).toBe("Café");
+    expect(decodeMimeText(parsed)).toBe("Café au lait");
+  });
+
+  test("parses attached messages", () => {
+    const parsed = parseMimeMessage(
+      message([
+        'Content-Type: multipart/mixed; boundary="b"',
+        "",
+        "--b",
+        "Content-Type: message/rfc822",
+        "",
+        "Subject: Inner",
+        "",
+        "Inner body",
+        "--b--",
+      ])
+    );
+    const inner = parsed.parts[0]!.parts[0]!;
+    expect(getHeader(inner, "subject")).toBe("Inner");
+    expect(decodeMimeText(inner).trim()).toBe("Inner body");
+  });
+});
+
+describe("decodeMimeWords", () => {
+  test("joins adjacent encoded words and keeps plain text", () => {
+    expect(decodeMimeWords("=?ISO-8859-1?Q?Caf=E9?= au lait")).toBe("Café au lait");
+    expect(decodeMimeWords("=?UTF-8?B?SGVsbG8s?= =?UTF-8?B?IHdvcmxk?=")).toBe(
+      "Hello, world"
+    );
+  });
+});
+
+describe("parseAddressList", () => {
+  test("reads names, quoted commas, comments and groups", () => {
+    expect(
+      parseAddressList(
+        '"Roe, Jane" <jane@example.com>, bob@example.com (Bob), Team: ann@example.com;'
+      )
+    ).toEqual([
+      { name: "Roe, Jane", address: "jane@example.com" },
+      { name: "Bob", address: "bob@example.com" },
+      { name: null, address: "ann@example.com" },
+    ]);
+  });
+});
+
+describe("splitMbox", () => {
+  test("splits messages at From lines and unescapes quoted From lines", () => {
+    const messages = splitMbox(
+      Buffer.from(
+        "From a@example.com Mon Jan 1 00:00:00 2024\nSubject: One\n\n>From here\n" +
+          "From b@example.com Mon Jan 1 00:00:00 2024\nSubject: Two\n\nBody\n"
+      )
+    );
+    expect(messages.map((raw) => raw.toString())).toEqual([
+      "Subject: One\n\nFrom here\n",
+      "Subject: Two\n\nBody\n",
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { lastSelectedPage, parsePageRanges } from "../../src/utils/pageRanges";
+
+describe("parsePageRanges", () => {
+  test("parses pages, ranges and open ranges", () => {
+    expect(parsePageRanges("1-5, 9,12-")).toEqual([
+      [1, 5],
+      [9, 9],
+      [12, Infinity],
+    ]);
+  });
+
+  test.each(["", "0", "5-3", "a-b", "1,,2", "-4"])("rejects %p", (pages) => {
+    expect(() => parsePageRanges(pages)).toThrow(`Invalid page range "${pages}"`);
+  });
+});
+
+describe("lastSelectedPage", () => {
+  test("ends at the last selected page", () => {
+    expect(lastSelectedPage([[1, 2], [9, 9]], 0)).toBe(9);
+  });
+
+  test("reads to the end for open ranges and all pages", () => {
+    expect(lastSelectedPage([[5, Infinity]], 0)).toBe(0);
+    expect(lastSelectedPage(null, 0)).toBe(0);
+  });
+
+  test("stops an open range after maxPages", () => {
+    expect(lastSelectedPage([[5, Infinity]], 3)).toBe(7);
+    expect(lastSelectedPage(null, 3)).toBe(3);
+  });
+
+  test("counts overlapping pages once", () => {
+    expect(lastSelectedPage([[3, 6], [1, 4]], 5)).toBe(5);
+    expect(lastSelectedPage([[1, 2], [2, 3], [10, Infinity]], 4)).toBe(10);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { parse } from "node-html-parser";
+import { extractArticle } from "../../src/utils/readability";
+
+const PARAGRAPH =
+  "<p>A paragraph of the article, with enough words, commas, and clauses to score well in the readability scoring, repeated again.</p>";
+
+const ARTICLE_PAGE = `<html><head>
+<meta property="og:image" content="https://example.com/lead.jpg">
+<meta property="og:image:alt" content="The lead image">
+<script type="application/ld+json">{"@type": "NewsArticle", "author": [{"name": "Ada Lovelace"}], "datePublished": "2024-03-05T10:30:00Z"}</script>
+</head><body>
+<header><a href="/">Site</a><p>Site slogan here</p></header>
+<nav><a href="/news">News</a> <a href="/sports">Sports</a></nav>
+<div class="cookie-banner"><p>We use cookies, which you accept by reading, scrolling, or clicking anywhere on this page.</p></div>
+<article><h1>The real title</h1><p class="byline">By Ada Lovelace</p>${PARAGRAPH.repeat(3)}</article>
+<aside><p>Related: other stories</p></aside>
+<footer>Copyright</footer>
+</body></html>`;
+
+describe("extractArticle", () => {
+  test("keeps the article and leaves out navigation, banners, sidebars and footers", () => {
+    const article = extractArticle(parse(ARTICLE_PAGE));
+    const text = article!.content.text;
+    expect(text).toContain("The real title");
+    expect(text).toContain("A paragraph of the article");
+    for (const boilerplate of ["Site slogan", "Sports", "cookies", "Related", "Copyright"])
+      expect(text).not.toContain(boilerplate);
+  });
+
+  test("reads the byline, publication date and lead image", () => {
+    const article = extractArticle(parse(ARTICLE_PAGE));
+    expect(article!.byline).toBe("Ada Lovelace");
+    expect(article!.publishedAt).toBe("2024-03-05T10:30:00.000Z");
+    expect(article!.leadImage).toEqual({
+      src: "https://example.com/lead.jpg",
+      alt: "The lead image",
+    });
+    // The byline is returned on its own
+    expect(article!.content.text).not.toContain("By Ada Lovelace");
+  });
+
+  test("keeps the article of ASP.NET pages wrapped in a form", () => {
+    const page = `<html><body><form id="aspnetForm" action="x">
+<header><a href="/">Site</a> <p>Site slogan here</p></header>
+<form><input name="q"><label>Search</label></form>
+<main><h1>The real title</h1>${PARAGRAPH.repeat(3)}</main>
+<footer>Copyright</footer></form></body></html>`;
+    const text = extractArticle(parse(page))!.content.text;
+    expect(text).toContain("The real title");
+    expect(text).not.toContain("Search");
+    expect(text).not.toContain("Copyright");
+  });
+
+  test("returns null if no container holds enough text", () => {
+    const page = `<html><body><nav><a href="/a">A</a></nav><p>Short text.</p></body></html>`;
+    expect(extractArticle(parse(page))).toBeNull();
+  });
+});
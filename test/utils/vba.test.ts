@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { decompressVba } from "../../src/utils/vba";
+
+const hex = (bytes: string) => Buffer.from(bytes.replace(/\s+/g, ""), "hex");
+
+describe("decompressVba", () => {
+  test("decompresses literal tokens", () => {
+    const data = hex("01 19b0 00 6162636465666768 00 696a6b6c6d6e6f70 00 717273747576 2e");
+    expect(decompressVba(data).toString()).toBe("abcdefghijklmnopqrstuv.");
+  });
+
+  test("decompresses copy tokens", () => {
+    // Three literals, then a copy of 6 bytes from 3 bytes back
+    expect(decompressVba(hex("01 05b0 08 616263 0320")).toString()).toBe("abcabcabc");
+  });
+
+  test("reads the container at an offset", () => {
+    expect(decompressVba(hex("ffff 01 05b0 08 616263 0320"), 2).toString()).toBe("abcabcabc");
+  });
+
+  test("rejects a container without the signature byte", () => {
+    expect(() => decompressVba(hex("00 05b0"))).toThrow("Invalid VBA compressed container");
+  });
+});